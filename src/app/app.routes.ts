@@ -32,6 +32,22 @@ export const routes: Routes = [
       ),
   },
 
+  // ============================================================
+  // Resultado de un sorteo finalizado
+  // ------------------------------------------------------------
+  // Permite registrar el/los número(s) ganador(es) de un sorteo
+  // cuya fecha ya pasó y consultar los billetes ganadores junto
+  // al cliente que los compró.
+  // Ejemplo de URL: /sorteos/3/resultado
+  // ============================================================
+  {
+    path: 'sorteos/:id/resultado',
+    loadComponent: () =>
+      import('./features/sorteos/resultado-sorteo/resultado-sorteo.component').then(
+        (m) => m.ResultadoSorteoComponent
+      ),
+  },
+
   // ============================================================
   // Venta de boletas por sorteo específico
   // ------------------------------------------------------------
@@ -62,11 +78,27 @@ export const routes: Routes = [
       ),
   },
 
+  // ============================================================
+  // Directorio de clientes
+  // ------------------------------------------------------------
+  // Lista paginada de todos los clientes con búsqueda por nombre o
+  // correo, orden por columna y su cantidad de compras. Cada fila
+  // enlaza al historial de compras del cliente.
+  // ============================================================
+  {
+    path: 'clientes',
+    loadComponent: () =>
+      import('./features/clientes/directorio-clientes/directorio-clientes.component').then(
+        (m) => m.DirectorioClientesComponent
+      ),
+  },
+
   // ============================================================
   // Registro de clientes
   // ------------------------------------------------------------
   // Muestra el formulario de registro de nuevos clientes.
-  // Incluye validaciones básicas en los campos (nombre y correo).
+  // Valida nombre, correo, documento de identidad (único), teléfono
+  // y fecha de nacimiento (solo mayores de edad).
   // ============================================================
   {
     path: 'clientes/registrar',
@@ -76,12 +108,28 @@ export const routes: Routes = [
       ),
   },
 
+  // ============================================================
+  // Edición de clientes
+  // ------------------------------------------------------------
+  // Reutiliza el formulario de registro para corregir el nombre o
+  // el correo de un cliente existente (el correo sigue siendo único).
+  // Ejemplo de URL: /clientes/7/editar
+  // ============================================================
+  {
+    path: 'clientes/:id/editar',
+    loadComponent: () =>
+      import('./features/clientes/cliente-form/cliente-form.component').then(
+        (m) => m.ClienteFormComponent
+      ),
+  },
+
   // ============================================================
   // Historial de billetes vendidos por cliente
   // ------------------------------------------------------------
   // Permite consultar las boletas compradas por un cliente específico,
   // buscando por su correo electrónico. Útil para verificar compras
-  // anteriores o participación en sorteos.
+  // anteriores o participación en sorteos. Acepta ?correo=... para
+  // abrir directamente el historial de un cliente.
   // ============================================================
   {
     path: 'historial',
@@ -91,6 +139,51 @@ export const routes: Routes = [
       ),
   },
 
+  // ============================================================
+  // Consulta de billetes
+  // ------------------------------------------------------------
+  // Permite verificar un billete físico o un comprobante, buscando
+  // por el código del comprobante o por sorteo + número. Muestra el
+  // estado del billete, su propietario (enmascarado), si el sorteo
+  // ya se jugó y si el billete resultó premiado.
+  // ============================================================
+  {
+    path: 'consultar',
+    loadComponent: () =>
+      import('./features/consulta/consultar-billete/consultar-billete.component').then(
+        (m) => m.ConsultarBilleteComponent
+      ),
+  },
+
+  // ============================================================
+  // Cierre de caja
+  // ------------------------------------------------------------
+  // Totaliza las ventas del día por método de pago y permite al
+  // vendedor cuadrar el efectivo de la caja al final del turno.
+  // ============================================================
+  {
+    path: 'caja/cierre',
+    loadComponent: () =>
+      import('./features/caja/cierre-caja/cierre-caja.component').then(
+        (m) => m.CierreCajaComponent
+      ),
+  },
+
+  // ============================================================
+  // Tablero de ventas
+  // ------------------------------------------------------------
+  // Muestra el recaudado por sorteo, el porcentaje vendido de los
+  // sorteos abiertos, las ventas por día, los mejores clientes y
+  // los billetes por vender antes de los próximos sorteos.
+  // ============================================================
+  {
+    path: 'dashboard',
+    loadComponent: () =>
+      import('./features/dashboard/dashboard/dashboard.component').then(
+        (m) => m.DashboardComponent
+      ),
+  },
+
   // ============================================================
   // Ruta comodín (fallback)
   // ------------------------------------------------------------
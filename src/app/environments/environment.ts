@@ -4,5 +4,24 @@ export const environment = {
   production: false,
 
   /** URL base del backend API. */
-  apiUrl: 'http://localhost:8080/api'
+  apiUrl: 'http://localhost:8080/api',
+
+  /**
+   * URL base del canal en tiempo real (SSE) de billetes.
+   * Para desarrollo sin backend, apuntar al servidor local de
+   * tools/stream-server.mjs: 'http://localhost:8090/api'.
+   */
+  streamUrl: 'http://localhost:8080/api',
+
+  /** Minutos que dura la reserva de un billete mientras se completa la venta. */
+  reservaMinutos: 5,
+
+  /** Zona horaria por defecto de los sorteos (IANA). */
+  zonaHoraria: 'America/Bogota',
+
+  /** Minutos antes del sorteo en que cierran las ventas, por defecto. */
+  minutosCierre: 60,
+
+  /** Billetes por lote al generar la numeración de un sorteo. */
+  loteBilletes: 500
 };
@@ -0,0 +1,211 @@
+// ============================================================
+// Archivo: src/app/features/caja/cierre-caja/cierre-caja.component.ts
+// Descripción:
+// Pantalla de cierre de caja al final del turno.
+// - Consulta las ventas de un día (del vendedor de esta estación o de todos).
+// - Totaliza por método de pago (efectivo, tarjeta, transferencia, Nequi).
+// - Cuadra el efectivo: base + ventas en efectivo contra lo contado.
+// - Registra el cierre en el backend.
+// ============================================================
+
+import { Component, OnInit } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import {
+  ReactiveFormsModule,
+  FormBuilder,
+  FormControl,
+  FormGroup,
+  Validators,
+} from '@angular/forms';
+import { firstValueFrom } from 'rxjs';
+import Swal from 'sweetalert2';
+
+import { CajaService } from '../../../services/caja.service';
+import { VendedorService } from '../../../services/vendedor.service';
+import { ResumenCaja, VentaCaja } from '../../../models/caja';
+import { METODOS_PAGO, MetodoPago } from '../../../models/pago';
+import { NumeroBilletePipe } from '../../../pipes/numero-billete.pipe';
+
+@Component({
+  selector: 'app-cierre-caja',
+  standalone: true,
+  imports: [CommonModule, ReactiveFormsModule, NumeroBilletePipe],
+  templateUrl: './cierre-caja.component.html',
+  styleUrls: ['./cierre-caja.component.scss'],
+})
+export class CierreCajaComponent implements OnInit {
+  // Datos
+  ventas: VentaCaja[] = [];
+  resumen: ResumenCaja | null = null;
+
+  // Estado de UI
+  cargando = false;
+  registrando = false;
+
+  /** Filtros de la consulta */
+  filtros!: FormGroup<{
+    fecha: FormControl<string>;
+    soloMias: FormControl<boolean>;
+  }>;
+
+  /** Cuadre del efectivo */
+  cuadre!: FormGroup<{
+    base: FormControl<number>;
+    contado: FormControl<number | null>;
+    observaciones: FormControl<string>;
+  }>;
+
+  constructor(
+    private fb: FormBuilder,
+    private cajaSrv: CajaService,
+    public vendedorSrv: VendedorService,
+  ) {
+    this.filtros = this.fb.nonNullable.group({
+      fecha: this.fb.nonNullable.control(this.hoyStr(), { validators: [Validators.required] }),
+      soloMias: this.fb.nonNullable.control(true),
+    });
+    this.cuadre = this.fb.nonNullable.group({
+      base: this.fb.nonNullable.control(0, { validators: [Validators.required, Validators.min(0)] }),
+      contado: this.fb.control<number | null>(null, { validators: [Validators.required, Validators.min(0)] }),
+      observaciones: this.fb.nonNullable.control('', { validators: [Validators.maxLength(250)] }),
+    });
+  }
+
+  // ============================================================
+  // Ciclo de vida
+  // ============================================================
+  ngOnInit(): void {
+    this.cargar();
+  }
+
+  // ============================================================
+  // Consulta de ventas del día
+  // ============================================================
+  async cargar() {
+    if (this.filtros.invalid) return;
+    const { fecha, soloMias } = this.filtros.getRawValue();
+
+    this.cargando = true;
+    try {
+      const ventas = await firstValueFrom(
+        this.cajaSrv.ventasDelDia(fecha, soloMias ? this.vendedorSrv.id : null)
+      );
+      this.ventas = (ventas ?? [])
+        .slice()
+        .sort((a, b) => new Date(a.fecha).getTime() - new Date(b.fecha).getTime());
+      this.resumen = this.cajaSrv.resumir(this.ventas);
+    } catch {
+      this.ventas = [];
+      this.resumen = null;
+      Swal.fire({
+        title: 'Error',
+        text: 'No fue posible cargar las ventas del día.',
+        icon: 'error',
+        confirmButtonText: 'Cerrar'
+      });
+    } finally {
+      this.cargando = false;
+    }
+  }
+
+  // ============================================================
+  // Cuadre del efectivo
+  // ============================================================
+
+  /** Ventas en efectivo del día. */
+  get ventasEfectivo(): number {
+    return this.resumen?.porMetodo.find((m) => m.metodo === 'EFECTIVO')?.total ?? 0;
+  }
+
+  /** Efectivo que debería haber en caja: base + ventas en efectivo. */
+  get esperadoEfectivo(): number {
+    return Number(this.cuadre.controls.base.value || 0) + this.ventasEfectivo;
+  }
+
+  /** Contado − esperado (negativo = faltante), o null si aún no se ha contado. */
+  get diferencia(): number | null {
+    const contado = this.cuadre.controls.contado.value;
+    return contado === null || contado === undefined ? null : Number(contado) - this.esperadoEfectivo;
+  }
+
+  /** Nombre visible de un método de pago. */
+  etiqueta(metodo: MetodoPago): string {
+    return METODOS_PAGO.find((m) => m.value === metodo)?.label ?? metodo;
+  }
+
+  // ============================================================
+  // Registro del cierre
+  // ============================================================
+  async registrar() {
+    if (!this.resumen || this.cuadre.invalid) {
+      this.cuadre.markAllAsTouched();
+      return;
+    }
+
+    const diferencia = this.diferencia ?? 0;
+    const confirm = await Swal.fire({
+      title: 'Confirmar cierre de caja',
+      html: `
+        <div style="text-align:left">
+          <p><b>Fecha:</b> ${this.filtros.controls.fecha.value}</p>
+          <p><b>Ventas:</b> ${this.resumen.cantidad} · $${this.resumen.total}</p>
+          <p><b>Efectivo esperado:</b> $${this.esperadoEfectivo}</p>
+          <p><b>Efectivo contado:</b> $${this.cuadre.controls.contado.value}</p>
+          <p><b>Diferencia:</b> $${diferencia}${diferencia < 0 ? ' (faltante)' : diferencia > 0 ? ' (sobrante)' : ''}</p>
+        </div>
+      `,
+      icon: diferencia === 0 ? 'question' : 'warning',
+      showCancelButton: true,
+      confirmButtonText: 'Cerrar caja',
+      cancelButtonText: 'Cancelar'
+    });
+    if (!confirm.isConfirmed) return;
+
+    const { base, contado, observaciones } = this.cuadre.getRawValue();
+    this.registrando = true;
+    this.cajaSrv
+      .registrarCierre({
+        fecha: this.filtros.controls.fecha.value,
+        vendedorId: this.vendedorSrv.id,
+        vendedorNombre: this.vendedorSrv.nombre,
+        base: Number(base),
+        esperadoEfectivo: this.esperadoEfectivo,
+        contadoEfectivo: Number(contado),
+        diferencia,
+        porMetodo: this.resumen.porMetodo,
+        observaciones: observaciones.trim() || null,
+      })
+      .subscribe({
+        next: () => {
+          this.registrando = false;
+          Swal.fire({
+            title: 'Caja cerrada',
+            text: 'El cierre de caja quedó registrado.',
+            icon: 'success',
+            confirmButtonText: 'Perfecto'
+          });
+        },
+        error: (err) => {
+          this.registrando = false;
+          Swal.fire({
+            title: 'Error',
+            text: err?.error?.message || 'No se pudo registrar el cierre de caja.',
+            icon: 'error',
+            confirmButtonText: 'Cerrar'
+          });
+        }
+      });
+  }
+
+  // ============================================================
+  // Utilidades
+  // ============================================================
+
+  /** Fecha de hoy en formato 'yyyy-MM-dd' (hora local). */
+  private hoyStr(): string {
+    const d = new Date();
+    const mm = String(d.getMonth() + 1).padStart(2, '0');
+    const dd = String(d.getDate()).padStart(2, '0');
+    return `${d.getFullYear()}-${mm}-${dd}`;
+  }
+}
@@ -1,5 +1,6 @@
 // src/app/features/clientes/cliente-form/cliente-form.component.ts
-import { Component, inject } from '@angular/core';
+import { Component, EventEmitter, Input, OnInit, Output, inject } from '@angular/core';
+import { ActivatedRoute, Router, RouterLink } from '@angular/router';
 import {
   FormBuilder,
   ReactiveFormsModule,
@@ -7,34 +8,83 @@ import {
   AbstractControl,
   ValidationErrors,
   AsyncValidatorFn,
+  ValidatorFn,
 } from '@angular/forms';
 import { CommonModule } from '@angular/common';
 import { firstValueFrom, of } from 'rxjs';
 import { catchError, debounceTime, distinctUntilChanged, map, switchMap, take } from 'rxjs/operators';
 import Swal from 'sweetalert2';
 
-import { ClientesService } from '../../../services/clientes.service';
+import { ClienteCreate, ClientesService, EDAD_MINIMA, edad } from '../../../services/clientes.service';
+import { RelojService } from '../../../services/reloj.service';
+import { Cliente, TIPOS_DOCUMENTO, TipoDocumento } from '../../../models/cliente';
+
+/** Formato del número según el tipo de documento. */
+const FORMATO_DOCUMENTO: Record<TipoDocumento, { patron: RegExp; ayuda: string }> = {
+  CC: { patron: /^\d{6,10}$/, ayuda: 'entre 6 y 10 dígitos' },
+  CE: { patron: /^\d{6,10}$/, ayuda: 'entre 6 y 10 dígitos' },
+  PA: { patron: /^[A-Z0-9]{6,12}$/, ayuda: 'entre 6 y 12 letras o dígitos' },
+  PPT: { patron: /^\d{6,15}$/, ayuda: 'entre 6 y 15 dígitos' },
+};
+
+/** Número de documento normalizado (sin espacios, puntos ni guiones; en mayúsculas). */
+function normalizarDocumento(numero: string): string {
+  return (numero ?? '').replace(/[\s.\-]/g, '').toUpperCase();
+}
+
+/** Teléfono normalizado (solo dígitos y el "+" inicial). */
+function normalizarTelefono(telefono: string): string {
+  return (telefono ?? '').trim().replace(/[\s().\-]/g, '');
+}
 
 /**
- * Formulario para registrar nuevos clientes.
+ * Formulario para registrar nuevos clientes o corregir los datos de
+ * uno existente (ruta /clientes/:id/editar). También se abre como
+ * diálogo desde la venta ([enDialogo]="true") para registrar a un
+ * cliente sin salir de ella: avisa el cliente creado con (creado).
  *
  * Funcionalidades:
- * - Valida campos requeridos (nombre, correo).
- * - Verifica de forma asíncrona si el correo ya existe en el sistema.
+ * - Valida campos requeridos (nombre, correo, documento, teléfono y
+ *   fecha de nacimiento).
+ * - Exige que el cliente sea mayor de edad (hora del servidor).
+ * - Verifica de forma asíncrona si el correo o el documento ya existen
+ *   en el sistema (al editar, solo si cambiaron).
  * - Envía los datos al backend mediante ClientesService.
  * - Muestra alertas visuales de éxito o error.
  */
 @Component({
   selector: 'app-cliente-form',
   standalone: true,
-  imports: [CommonModule, ReactiveFormsModule],
+  imports: [CommonModule, ReactiveFormsModule, RouterLink],
   templateUrl: './cliente-form.component.html',
   styleUrls: ['./cliente-form.component.scss'],
 })
-export class ClienteFormComponent {
+export class ClienteFormComponent implements OnInit {
   /** Inyección de dependencias principales. */
   private fb = inject(FormBuilder);
   private clientes = inject(ClientesService);
+  private route = inject(ActivatedRoute);
+  private router = inject(Router);
+  private reloj = inject(RelojService);
+
+  /** Opciones del selector de tipo de documento. */
+  readonly tiposDocumento = TIPOS_DOCUMENTO;
+  readonly edadMinima = EDAD_MINIMA;
+
+  /** True si se usa como diálogo dentro de otra pantalla (solo registro). */
+  @Input() enDialogo = false;
+  /** Cliente recién registrado (solo en modo diálogo). */
+  @Output() creado = new EventEmitter<Cliente>();
+  /** El usuario cerró el diálogo sin registrar. */
+  @Output() cancelado = new EventEmitter<void>();
+
+  /** Cliente en edición (null = registro de un cliente nuevo). */
+  clienteId: number | null = null;
+  /** Correo y documento actuales del cliente en edición (no cuentan como repetidos). */
+  private correoOriginal = '';
+  private documentoOriginal = '';
+  /** False si el cliente en edición está desactivado. */
+  activo = true;
 
   /** Estado general del formulario y mensajes. */
   loading = false;
@@ -44,11 +94,12 @@ export class ClienteFormComponent {
    * Validador asíncrono que consulta si el correo ya está registrado.
    *
    * Se ejecuta al perder el foco (updateOn: 'blur').
-   * Si el campo está vacío o tiene formato inválido, no realiza petición.
+   * Si el campo está vacío, tiene formato inválido o es el correo
+   * actual del cliente en edición, no realiza petición.
    */
   private emailExisteValidator(): AsyncValidatorFn {
     return (control: AbstractControl) => {
-      if (!control.value || control.hasError('email')) return of(null);
+      if (!control.value || control.hasError('email') || !this.correoCambio(control.value)) return of(null);
 
       return of(control.value).pipe(
         debounceTime(300),
@@ -66,6 +117,53 @@ export class ClienteFormComponent {
     };
   }
 
+  /**
+   * Validador asíncrono que consulta si el documento (tipo + número)
+   * ya está registrado. Igual que el del correo: al perder el foco y
+   * sin petición si el número no es válido o no cambió.
+   */
+  private documentoExisteValidator(): AsyncValidatorFn {
+    return (control: AbstractControl) => {
+      const tipo = control.parent?.get('tipoDocumento')?.value as TipoDocumento | undefined;
+      const numero = normalizarDocumento(control.value);
+      if (!tipo || !numero || control.hasError('documento') || !this.documentoCambio(tipo, numero)) return of(null);
+
+      return this.clientes.existeDocumento(tipo, numero).pipe(
+        map((existe: boolean) => (existe ? { documentoTomado: true } as ValidationErrors : null)),
+        catchError(() => of(null)),
+        take(1)
+      );
+    };
+  }
+
+  /** Formato del número de documento según el tipo elegido. */
+  private documentoValidator(): ValidatorFn {
+    return (control: AbstractControl) => {
+      const tipo = control.parent?.get('tipoDocumento')?.value as TipoDocumento | undefined;
+      const numero = normalizarDocumento(control.value);
+      if (!tipo || !numero) return null;
+      return FORMATO_DOCUMENTO[tipo].patron.test(numero) ? null : { documento: true };
+    };
+  }
+
+  /** Teléfono con entre 7 y 15 dígitos (admite "+" inicial, espacios y guiones). */
+  private telefonoValidator(): ValidatorFn {
+    return (control: AbstractControl) => {
+      if (!control.value) return null;
+      return /^\+?\d{7,15}$/.test(normalizarTelefono(control.value)) ? null : { telefono: true };
+    };
+  }
+
+  /** Fecha de nacimiento válida, no futura y de un mayor de edad. */
+  private mayorDeEdadValidator(): ValidatorFn {
+    return (control: AbstractControl) => {
+      if (!control.value) return null;
+      const anos = edad(control.value, this.hoy());
+      if (anos === null) return { fechaNacimiento: true };
+      return anos < EDAD_MINIMA ? { menorDeEdad: true } : null;
+    };
+  }
+
   /** Definición del formulario reactivo. */
   form = this.fb.nonNullable.group({
     nombre: ['', [Validators.required, Validators.minLength(3)]],
@@ -77,6 +175,17 @@ export class ClienteFormComponent {
         updateOn: 'blur',
       }
     ),
+    tipoDocumento: this.fb.nonNullable.control<TipoDocumento>('CC', { validators: [Validators.required] }),
+    numeroDocumento: this.fb.nonNullable.control(
+      '',
+      {
+        validators: [Validators.required, this.documentoValidator()],
+        asyncValidators: [this.documentoExisteValidator()],
+        updateOn: 'blur',
+      }
+    ),
+    telefono: ['', [Validators.required, this.telefonoValidator()]],
+    fechaNacimiento: ['', [Validators.required, this.mayorDeEdadValidator()]],
   });
 
   /** Acceso rápido a los controles del formulario. */
@@ -84,12 +193,100 @@ export class ClienteFormComponent {
     return this.form.controls;
   }
 
+  /** Ayuda del formato de número para el tipo de documento elegido. */
+  get ayudaDocumento(): string {
+    return FORMATO_DOCUMENTO[this.f.tipoDocumento.value]?.ayuda ?? '';
+  }
+
+  /**
+   * En la ruta de edición, carga los datos actuales del cliente.
+   * Al cambiar el tipo de documento se revalida el número.
+   */
+  ngOnInit(): void {
+    this.f.tipoDocumento.valueChanges.subscribe(() => this.f.numeroDocumento.updateValueAndValidity());
+
+    // En diálogo la ruta activa es la de la pantalla anfitriona (ej. /venta/:id)
+    if (this.enDialogo) return;
+
+    const id = Number(this.route.snapshot.paramMap.get('id'));
+    if (!id) return;
+
+    this.clienteId = id;
+    this.loading = true;
+    this.clientes.obtener(id).subscribe({
+      next: (c) => {
+        this.correoOriginal = c.correo ?? '';
+        this.documentoOriginal = c.tipoDocumento && c.numeroDocumento
+          ? `${c.tipoDocumento}:${normalizarDocumento(c.numeroDocumento)}`
+          : '';
+        this.activo = c.activo !== false;
+        this.form.reset({
+          nombre: c.nombre,
+          correo: c.correo,
+          tipoDocumento: c.tipoDocumento ?? 'CC',
+          numeroDocumento: c.numeroDocumento ?? '',
+          telefono: c.telefono ?? '',
+          fechaNacimiento: c.fechaNacimiento?.slice(0, 10) ?? '',
+        });
+        // Los clientes registrados antes de exigir estos datos los muestran pendientes
+        this.form.markAllAsTouched();
+        this.loading = false;
+      },
+      error: () => {
+        this.loading = false;
+        Swal.fire({
+          title: 'Cliente no encontrado',
+          text: 'No fue posible cargar los datos del cliente.',
+          icon: 'error',
+          confirmButtonText: 'Cerrar',
+        });
+        this.router.navigate(['/clientes']);
+      },
+    });
+  }
+
+  /** True si el correo difiere del actual del cliente (siempre, al registrar). */
+  private correoCambio(correo: string): boolean {
+    return correo.trim().toLowerCase() !== this.correoOriginal.trim().toLowerCase();
+  }
+
+  /** True si el documento difiere del actual del cliente (siempre, al registrar). */
+  private documentoCambio(tipo: TipoDocumento, numero: string): boolean {
+    return `${tipo}:${normalizarDocumento(numero)}` !== this.documentoOriginal;
+  }
+
+  /** Fecha de hoy ('yyyy-MM-dd') según la hora del servidor. */
+  private hoy(): string {
+    return this.reloj.enZona(this.reloj.ahora()).slice(0, 10);
+  }
+
+  /** Fecha máxima del selector de nacimiento: quien cumple la edad mínima hoy. */
+  get maxNacimiento(): string {
+    const [y, m, d] = this.hoy().split('-');
+    return `${Number(y) - EDAD_MINIMA}-${m}-${d}`;
+  }
+
+  /** Datos del formulario normalizados para el backend. */
+  private datos(): ClienteCreate {
+    const v = this.form.getRawValue();
+    return {
+      nombre: v.nombre.trim(),
+      correo: v.correo.trim(),
+      tipoDocumento: v.tipoDocumento,
+      numeroDocumento: normalizarDocumento(v.numeroDocumento),
+      telefono: normalizarTelefono(v.telefono),
+      fechaNacimiento: v.fechaNacimiento,
+    };
+  }
+
   /**
-   * Envía el formulario al backend para registrar un nuevo cliente.
+   * Envía el formulario al backend para registrar un nuevo cliente o
+   * guardar los cambios del cliente en edición.
    *
    * Validaciones previas:
    * - Verifica que el formulario sea válido.
-   * - Reconfirma si el correo no está repetido antes de crear.
+   * - Reconfirma que el correo y el documento no estén repetidos
+   *   antes de guardar (al editar, solo si cambiaron).
    *
    * Muestra alertas de éxito o error según la respuesta.
    */
@@ -101,7 +298,7 @@ export class ClienteFormComponent {
     }
 
     // Verificación adicional de correo duplicado
-    if (this.clientes.existeCorreo) {
+    if (this.clientes.existeCorreo && this.correoCambio(this.f.correo.value)) {
       try {
         const yaExiste = await firstValueFrom(
           this.clientes.existeCorreo(this.f.correo.value).pipe(catchError(() => of(false)))
@@ -121,10 +318,38 @@ export class ClienteFormComponent {
       }
     }
 
+    // Verificación adicional de documento duplicado
+    const { tipoDocumento, numeroDocumento } = this.datos();
+    if (this.documentoCambio(tipoDocumento, numeroDocumento)) {
+      const yaExiste = await firstValueFrom(this.clientes.existeDocumento(tipoDocumento, numeroDocumento));
+      if (yaExiste) {
+        this.f.numeroDocumento.setErrors({ documentoTomado: true });
+        Swal.fire({
+          title: 'Documento ya registrado',
+          text: 'Ya existe un cliente con ese documento de identidad.',
+          icon: 'warning',
+          confirmButtonText: 'Entendido',
+        });
+        return;
+      }
+    }
+
     this.loading = true;
 
-    this.clientes.crear(this.form.getRawValue()).subscribe({
+    if (this.clienteId) {
+      this.guardarCambios(this.clienteId);
+      return;
+    }
+
+    const datos = this.datos();
+    this.clientes.crear(datos).subscribe({
       next: (res) => {
+        if (this.enDialogo) {
+          // La pantalla anfitriona elige al cliente; su respuesta puede no traer todos los datos
+          this.creado.emit({ ...datos, ...res });
+          this.form.reset();
+          return;
+        }
         this.msg = { type: 'ok', text: `Cliente registrado (#${res.id}).` };
         Swal.fire({
           title: 'Cliente creado',
@@ -133,24 +358,61 @@ export class ClienteFormComponent {
           confirmButtonText: 'Perfecto',
         });
         this.form.reset();
+        this.documentoOriginal = '';
       },
-      error: (err) => {
-        const detail = err?.error?.message || 'No se pudo registrar el cliente.';
-        this.msg = { type: 'error', text: detail };
+      error: (err) => this.mostrarError(err, 'No se pudo registrar el cliente.'),
+      complete: () => (this.loading = false),
+    });
+  }
+
+  /** Cierra el diálogo sin registrar. */
+  cancelar() {
+    this.cancelado.emit();
+  }
 
-        const yaExiste = typeof detail === 'string' && /correo.*(existe|registrado|duplicado)/i.test(detail);
+  /** Guarda los datos corregidos del cliente en edición y vuelve al directorio. */
+  private guardarCambios(id: number) {
+    const datos = this.datos();
+    this.clientes.actualizar(id, datos).subscribe({
+      next: (res) => {
+        this.loading = false;
+        this.correoOriginal = res?.correo ?? datos.correo;
+        this.documentoOriginal = `${datos.tipoDocumento}:${datos.numeroDocumento}`;
+        this.msg = { type: 'ok', text: 'Cambios guardados.' };
         Swal.fire({
-          title: yaExiste ? 'Correo ya registrado' : 'Error',
-          text: yaExiste ? 'El correo ingresado ya existe en el sistema.' : detail,
-          icon: yaExiste ? 'warning' : 'error',
-          confirmButtonText: 'Cerrar',
+          title: 'Cliente actualizado',
+          text: `Los datos de ${res?.nombre ?? datos.nombre} se guardaron correctamente.`,
+          icon: 'success',
+          confirmButtonText: 'Perfecto',
         });
-
-        if (yaExiste) {
-          this.f.correo.setErrors({ emailTomado: true });
-        }
+        this.router.navigate(['/clientes']);
       },
-      complete: () => (this.loading = false),
+      error: (err) => this.mostrarError(err, 'No se pudieron guardar los cambios.'),
     });
   }
+
+  /** Muestra el error del backend; un correo o documento repetido se marca en su campo. */
+  private mostrarError(err: any, porDefecto: string) {
+    this.loading = false;
+    const detail = err?.error?.message || porDefecto;
+    this.msg = { type: 'error', text: detail };
+
+    const yaExiste = typeof detail === 'string' && /correo.*(existe|registrado|duplicado)/i.test(detail);
+    const documentoRepetido = typeof detail === 'string' && /documento.*(existe|registrado|duplicado)/i.test(detail);
+    Swal.fire({
+      title: yaExiste ? 'Correo ya registrado' : documentoRepetido ? 'Documento ya registrado' : 'Error',
+      text: yaExiste
+        ? 'El correo ingresado ya existe en el sistema.'
+        : documentoRepetido ? 'Ya existe un cliente con ese documento de identidad.' : detail,
+      icon: yaExiste || documentoRepetido ? 'warning' : 'error',
+      confirmButtonText: 'Cerrar',
+    });
+
+    if (yaExiste) {
+      this.f.correo.setErrors({ emailTomado: true });
+    }
+    if (documentoRepetido) {
+      this.f.numeroDocumento.setErrors({ documentoTomado: true });
+    }
+  }
 }
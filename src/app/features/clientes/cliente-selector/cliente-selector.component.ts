@@ -0,0 +1,172 @@
+// src/app/features/clientes/cliente-selector/cliente-selector.component.ts
+import { Component, EventEmitter, Input, OnInit, Output, inject } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { FormControl, ReactiveFormsModule } from '@angular/forms';
+import { of } from 'rxjs';
+import { catchError, debounceTime, distinctUntilChanged, map, switchMap, tap } from 'rxjs/operators';
+import Swal from 'sweetalert2';
+
+import { ClientesService } from '../../../services/clientes.service';
+import { ClientesRecientesService, ClienteReciente } from '../../../services/clientes-recientes.service';
+import { Cliente, clienteActivo } from '../../../models/cliente';
+
+/** Caracteres mínimos para buscar en el servidor. */
+const MIN_BUSQUEDA = 2;
+
+/**
+ * Selector de cliente con búsqueda mientras se escribe.
+ *
+ * Funcionalidades:
+ * - Busca en el servidor por nombre, correo o documento (solo clientes
+ *   activos), sin descargar el listado completo.
+ * - Muestra correo, documento y teléfono para distinguir homónimos.
+ * - Con la búsqueda vacía, ofrece los clientes usados recientemente.
+ * - Se maneja con el teclado (flechas, Enter y Escape).
+ *
+ * Uso: <app-cliente-selector [(cliente)]="cliente"></app-cliente-selector>
+ */
+@Component({
+  selector: 'app-cliente-selector',
+  standalone: true,
+  imports: [CommonModule, ReactiveFormsModule],
+  templateUrl: './cliente-selector.component.html',
+  styleUrls: ['./cliente-selector.component.scss'],
+})
+export class ClienteSelectorComponent implements OnInit {
+  /** Inyección de dependencias principales. */
+  private clientes = inject(ClientesService);
+  private recientes = inject(ClientesRecientesService);
+
+  /** Cliente elegido (null = ninguno). */
+  @Input() cliente: Cliente | null = null;
+  @Output() clienteChange = new EventEmitter<Cliente | null>();
+
+  /** Texto de búsqueda y resultados. */
+  busqueda = new FormControl('', { nonNullable: true });
+  sugerencias: Cliente[] = [];
+  buscando = false;
+
+  /** Estado de la lista desplegable. */
+  abierto = false;
+  indice = -1;
+
+  ngOnInit(): void {
+    this.busqueda.valueChanges
+      .pipe(
+        map((q) => q.trim()),
+        debounceTime(250),
+        distinctUntilChanged(),
+        tap((q) => (this.buscando = q.length >= MIN_BUSQUEDA)),
+        switchMap((q) =>
+          q.length < MIN_BUSQUEDA
+            ? of([])
+            : this.clientes.directorio({ q, activo: true, orden: 'nombre', tamano: 8 }).pipe(
+              map((p) => p?.contenido ?? []),
+              catchError(() => of([]))
+            )
+        )
+      )
+      .subscribe((lista) => {
+        this.sugerencias = lista;
+        this.buscando = false;
+        this.indice = lista.length ? 0 : -1;
+        this.abierto = true;
+      });
+  }
+
+  /** True si se muestran los clientes recientes (búsqueda vacía o muy corta). */
+  get mostrandoRecientes(): boolean {
+    return this.busqueda.value.trim().length < MIN_BUSQUEDA;
+  }
+
+  /** Opciones visibles: resultados de la búsqueda o clientes recientes. */
+  get opciones(): Array<Cliente | ClienteReciente> {
+    return this.mostrandoRecientes ? this.recientes.lista : this.sugerencias;
+  }
+
+  /** Datos para distinguir al cliente (ej. "ana@correo.com · CC 1020304050 · 3001234567"). */
+  detalle(c: Partial<Cliente>): string {
+    const documento = c.numeroDocumento ? `${c.tipoDocumento ?? ''} ${c.numeroDocumento}`.trim() : '';
+    return [c.correo, documento, c.telefono].filter(Boolean).join(' · ');
+  }
+
+  abrir(): void {
+    this.abierto = true;
+    this.indice = this.opciones.length ? 0 : -1;
+  }
+
+  cerrar(): void {
+    this.abierto = false;
+    this.indice = -1;
+  }
+
+  /** Navegación con el teclado dentro de la lista. */
+  teclado(ev: KeyboardEvent): void {
+    const total = this.opciones.length;
+    if (ev.key === 'ArrowDown' || ev.key === 'ArrowUp') {
+      ev.preventDefault();
+      if (!this.abierto) return this.abrir();
+      if (!total) return;
+      this.indice = (this.indice + (ev.key === 'ArrowDown' ? 1 : -1) + total) % total;
+    } else if (ev.key === 'Enter') {
+      if (!this.abierto || this.indice < 0 || this.indice >= total) return;
+      ev.preventDefault();
+      this.elegir(this.opciones[this.indice]);
+    } else if (ev.key === 'Escape') {
+      this.cerrar();
+    }
+  }
+
+  /**
+   * Elige al cliente. Uno de la lista de recientes se consulta de nuevo
+   * (solo se guardan su ID y nombre; pudo cambiar o ser desactivado
+   * desde otra estación).
+   */
+  elegir(c: Cliente | ClienteReciente): void {
+    this.cerrar();
+    if (!this.mostrandoRecientes) {
+      this.fijar(c as Cliente);
+      return;
+    }
+
+    this.clientes.obtener(c.id).subscribe({
+      next: (actual) => {
+        if (clienteActivo(actual)) {
+          this.fijar(actual);
+          return;
+        }
+        this.recientes.quitar(c.id);
+        Swal.fire({
+          title: 'Cliente desactivado',
+          text: `${actual.nombre} fue desactivado y no se le puede vender.`,
+          icon: 'warning',
+          confirmButtonText: 'Entendido',
+        });
+      },
+      error: () => {
+        Swal.fire({
+          title: 'Error',
+          text: 'No fue posible cargar los datos del cliente.',
+          icon: 'error',
+          confirmButtonText: 'Cerrar',
+        });
+      },
+    });
+  }
+
+  /** Quita el cliente elegido para buscar otro. */
+  cambiar(): void {
+    this.cliente = null;
+    this.clienteChange.emit(null);
+    this.busqueda.setValue('');
+    this.abrir();
+  }
+
+  private fijar(c: Cliente): void {
+    this.recientes.agregar(c);
+    this.cliente = c;
+    this.clienteChange.emit(c);
+    this.busqueda.setValue('', { emitEvent: false });
+    this.sugerencias = [];
+  }
+}
@@ -0,0 +1,179 @@
+// src/app/features/clientes/directorio-clientes/directorio-clientes.component.ts
+import { Component, OnInit, inject } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { FormControl, ReactiveFormsModule } from '@angular/forms';
+import { RouterLink } from '@angular/router';
+import { debounceTime, distinctUntilChanged } from 'rxjs/operators';
+import Swal from 'sweetalert2';
+
+import { ClientesService, OrdenClientes } from '../../../services/clientes.service';
+import { ResumenCliente, clienteActivo } from '../../../models/cliente';
+import { totalPaginas } from '../../../models/pagina';
+
+/**
+ * Directorio de clientes.
+ *
+ * Funcionalidades:
+ * - Lista todos los clientes, por páginas, con su cantidad de compras.
+ * - Busca por nombre, correo o documento (mientras se escribe).
+ * - Ordena por cualquier columna (clic en el encabezado alterna el sentido).
+ * - Filtra por estado (activos / desactivados).
+ * - Enlaza al historial de compras y a la edición de cada cliente.
+ * - Desactiva o reactiva clientes (el desactivado no aparece en la
+ *   venta, pero conserva su historial).
+ */
+@Component({
+  selector: 'app-directorio-clientes',
+  standalone: true,
+  imports: [CommonModule, ReactiveFormsModule, RouterLink],
+  templateUrl: './directorio-clientes.component.html',
+  styleUrls: ['./directorio-clientes.component.scss'],
+})
+export class DirectorioClientesComponent implements OnInit {
+  /** Inyección de dependencias principales. */
+  private clientes = inject(ClientesService);
+
+  /** Búsqueda por nombre, correo o documento. */
+  q = new FormControl('', { nonNullable: true });
+
+  /** Estado a mostrar: '' = todos, 'activos' o 'inactivos'. */
+  estado = new FormControl<'' | 'activos' | 'inactivos'>('activos', { nonNullable: true });
+
+  /** Orden y página actuales. */
+  orden: OrdenClientes = 'nombre';
+  direccion: 'asc' | 'desc' = 'asc';
+  pagina = 0;
+  readonly tamanoPagina = 20;
+
+  /** Datos y estado de la vista. */
+  lista: ResumenCliente[] = [];
+  total = 0;
+  loading = false;
+  error: string | null = null;
+
+  /** Columnas ordenables del directorio. */
+  readonly columnas: { orden: OrdenClientes; titulo: string }[] = [
+    { orden: 'nombre', titulo: 'Nombre' },
+    { orden: 'correo', titulo: 'Correo' },
+    { orden: 'compras', titulo: 'Compras' },
+    { orden: 'ultimaCompra', titulo: 'Última compra' },
+  ];
+
+  ngOnInit(): void {
+    this.q.valueChanges.pipe(debounceTime(300), distinctUntilChanged()).subscribe(() => {
+      this.pagina = 0;
+      this.cargar();
+    });
+    this.estado.valueChanges.subscribe(() => {
+      this.pagina = 0;
+      this.cargar();
+    });
+    this.cargar();
+  }
+
+  /** Consulta la página actual del directorio con la búsqueda y el orden vigentes. */
+  cargar(): void {
+    this.loading = true;
+    this.error = null;
+    this.clientes
+      .directorio({
+        q: this.q.value,
+        activo: this.estado.value === '' ? null : this.estado.value === 'activos',
+        orden: this.orden,
+        direccion: this.direccion,
+        pagina: this.pagina,
+        tamano: this.tamanoPagina,
+      })
+      .subscribe({
+        next: (p) => {
+          this.lista = p?.contenido ?? [];
+          this.total = p?.total ?? 0;
+          this.loading = false;
+        },
+        error: () => {
+          this.lista = [];
+          this.total = 0;
+          this.error = 'No fue posible cargar los clientes. Intenta nuevamente.';
+          this.loading = false;
+        },
+      });
+  }
+
+  /**
+   * Ordena por la columna indicada. Si ya se ordenaba por ella,
+   * alterna el sentido; las compras empiezan por el mayor.
+   */
+  ordenarPor(orden: OrdenClientes): void {
+    if (this.orden === orden) {
+      this.direccion = this.direccion === 'asc' ? 'desc' : 'asc';
+    } else {
+      this.orden = orden;
+      this.direccion = orden === 'compras' || orden === 'ultimaCompra' ? 'desc' : 'asc';
+    }
+    this.pagina = 0;
+    this.cargar();
+  }
+
+  /** Indicador del orden en el encabezado de la columna. */
+  flecha(orden: OrdenClientes): string {
+    if (this.orden !== orden) return '';
+    return this.direccion === 'asc' ? '▲' : '▼';
+  }
+
+  /** True si el cliente no fue desactivado. */
+  esActivo(c: ResumenCliente): boolean {
+    return clienteActivo(c);
+  }
+
+  /**
+   * Desactiva o reactiva al cliente tras confirmarlo. Al desactivar se
+   * aclara que sus compras y su historial se conservan.
+   */
+  async cambiarEstado(c: ResumenCliente) {
+    const desactivar = this.esActivo(c);
+    const confirm = await Swal.fire({
+      title: desactivar ? '¿Desactivar cliente?' : '¿Reactivar cliente?',
+      text: desactivar
+        ? `${c.nombre} dejará de aparecer en la venta de boletas. Sus compras e historial se conservan.`
+        : `${c.nombre} volverá a aparecer en la venta de boletas.`,
+      icon: desactivar ? 'warning' : 'question',
+      showCancelButton: true,
+      confirmButtonText: desactivar ? 'Desactivar' : 'Reactivar',
+      cancelButtonText: 'Cancelar',
+    });
+    if (!confirm.isConfirmed) return;
+
+    const peticion = desactivar ? this.clientes.desactivar(c.id) : this.clientes.activar(c.id);
+    peticion.subscribe({
+      next: () => {
+        Swal.fire({
+          title: desactivar ? 'Cliente desactivado' : 'Cliente reactivado',
+          icon: 'success',
+          timer: 1500,
+          showConfirmButton: false,
+        });
+        this.cargar();
+      },
+      error: (err) => {
+        Swal.fire({
+          title: 'Error',
+          text: err?.error?.message || 'No fue posible cambiar el estado del cliente.',
+          icon: 'error',
+          confirmButtonText: 'Cerrar',
+        });
+      },
+    });
+  }
+
+  /** Cantidad de páginas del directorio. */
+  get paginas(): number {
+    return totalPaginas({ total: this.total, tamano: this.tamanoPagina });
+  }
+
+  /** Cambia de página. */
+  irAPagina(pagina: number): void {
+    if (pagina < 0 || pagina >= this.paginas || pagina === this.pagina) return;
+    this.pagina = pagina;
+    this.cargar();
+  }
+}
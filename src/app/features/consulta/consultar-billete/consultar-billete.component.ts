@@ -0,0 +1,211 @@
+// ============================================================
+// Archivo: src/app/features/consulta/consultar-billete/consultar-billete.component.ts
+// Descripción:
+// Pantalla pública para verificar un billete físico o un comprobante.
+// - Búsqueda por código de comprobante (el backend verifica su firma).
+// - Búsqueda por sorteo + número + serie de billete.
+// - Muestra el estado del billete, su propietario (enmascarado por el
+//   backend), si el sorteo ya se jugó y si el billete resultó premiado.
+// Solo se consulta el billete buscado: la pantalla es pública y no
+// descarga los billetes del sorteo ni datos de sus compradores.
+// ============================================================
+
+import { Component, OnInit } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import {
+  ReactiveFormsModule,
+  FormBuilder,
+  FormControl,
+  FormGroup,
+  Validators,
+} from '@angular/forms';
+import { firstValueFrom } from 'rxjs';
+import Swal from 'sweetalert2';
+
+import { SorteosService } from '../../../services/sorteos.service';
+import { ConsultasService } from '../../../services/consultas.service';
+import { PremiosService } from '../../../services/premios.service';
+import { EstadoSorteoService } from '../../../services/estado-sorteo.service';
+import { FraccionesService } from '../../../services/fracciones.service';
+import { Sorteo } from '../../../models/sorteo';
+import { NumeroBilletePipe } from '../../../pipes/numero-billete.pipe';
+import { ConsultaBillete, ConsultaComprobante } from '../../../models/consulta';
+import { Premio } from '../../../models/premio';
+
+// Forma de búsqueda elegida por el usuario.
+type ModoConsulta = 'CODIGO' | 'NUMERO';
+
+// Billete consultado con la información que se muestra en la tarjeta.
+type ConsultaItem = ConsultaBillete & {
+  jugado: boolean;
+  premio: Premio | null;
+};
+
+@Component({
+  selector: 'app-consultar-billete',
+  standalone: true,
+  imports: [CommonModule, ReactiveFormsModule, NumeroBilletePipe],
+  templateUrl: './consultar-billete.component.html',
+  styleUrls: ['./consultar-billete.component.scss'],
+})
+export class ConsultarBilleteComponent implements OnInit {
+  // Catálogo para la búsqueda por número
+  sorteos: Sorteo[] = [];
+
+  // Estado de UI
+  modo: ModoConsulta = 'CODIGO';
+  consultando = false;
+  intentado = false;
+
+  // Resultado de la consulta
+  comprobante: ConsultaComprobante | null = null;
+  comprobanteIntegro = true;
+  items: ConsultaItem[] = [];
+
+  /** Código impreso en el comprobante (ej. "LT-3F9A1C0B7D"). */
+  codigoCtrl!: FormControl<string>;
+
+  /** Búsqueda por sorteo + número + serie (opcional) de billete. */
+  numeroForm!: FormGroup<{
+    sorteoId: FormControl<number | null>;
+    numero: FormControl<number | null>;
+    serie: FormControl<string>;
+  }>;
+
+  constructor(
+    private fb: FormBuilder,
+    private sorteosSrv: SorteosService,
+    private consultasSrv: ConsultasService,
+    private premiosSrv: PremiosService,
+    private estadoSrv: EstadoSorteoService,
+    public fraccionesSrv: FraccionesService,
+  ) {
+    this.codigoCtrl = this.fb.nonNullable.control('', {
+      validators: [Validators.required, Validators.pattern(/^\s*LT-[0-9A-Fa-f]{10}\s*$/i)],
+    });
+    this.numeroForm = this.fb.group({
+      sorteoId: this.fb.control<number | null>(null, { validators: [Validators.required] }),
+      numero: this.fb.control<number | null>(null, { validators: [Validators.required, Validators.min(0)] }),
+      serie: this.fb.nonNullable.control('', { validators: [Validators.pattern(/^\s*\d{0,3}\s*$/)] }),
+    });
+  }
+
+  // ============================================================
+  // Ciclo de vida
+  // ============================================================
+  ngOnInit(): void {
+    this.sorteosSrv.listar().subscribe({
+      next: (all) =>
+        (this.sorteos = all
+          .slice()
+          .sort((a, b) => new Date(b.fechaSorteo).getTime() - new Date(a.fechaSorteo).getTime())),
+      error: () => (this.sorteos = []),
+    });
+  }
+
+  setModo(modo: ModoConsulta): void {
+    this.modo = modo;
+    this.limpiar();
+  }
+
+  private limpiar(): void {
+    this.intentado = false;
+    this.comprobante = null;
+    this.comprobanteIntegro = true;
+    this.items = [];
+  }
+
+  // ============================================================
+  // Consulta por código de comprobante
+  // ============================================================
+  async consultarCodigo() {
+    if (this.codigoCtrl.invalid) {
+      this.codigoCtrl.markAsTouched();
+      return;
+    }
+
+    this.limpiar();
+    this.consultando = true;
+    try {
+      const c = await firstValueFrom(this.consultasSrv.comprobante(this.codigoCtrl.value));
+      if (!c) {
+        this.intentado = true;
+        Swal.fire({
+          title: 'Comprobante no encontrado',
+          text: 'Verifica el código impreso en el comprobante e inténtalo nuevamente.',
+          icon: 'warning',
+          confirmButtonText: 'Entendido',
+        });
+        return;
+      }
+
+      this.comprobante = c;
+      this.comprobanteIntegro = c.firmaValida === true;
+      this.items = (c.billetes ?? []).map((b) => this.item(b));
+      this.intentado = true;
+    } catch {
+      this.errorConsulta();
+    } finally {
+      this.consultando = false;
+    }
+  }
+
+  // ============================================================
+  // Consulta por sorteo + número + serie
+  // ============================================================
+  async consultarNumero() {
+    if (this.numeroForm.invalid) {
+      this.numeroForm.markAllAsTouched();
+      return;
+    }
+
+    this.limpiar();
+    this.consultando = true;
+    const { sorteoId, numero, serie } = this.numeroForm.getRawValue();
+    try {
+      const consulta = await firstValueFrom(
+        this.consultasSrv.billete(sorteoId!, Number(numero), serie.trim() ? serie.trim().padStart(3, '0') : null)
+      );
+      this.items = consulta ? [this.item(consulta)] : [];
+      this.intentado = true;
+    } catch {
+      this.errorConsulta();
+    } finally {
+      this.consultando = false;
+    }
+  }
+
+  // ============================================================
+  // Tarjeta de un billete consultado (el premio se evalúa con el
+  // plan del sorteo y el resultado público)
+  // ============================================================
+  private item(c: ConsultaBillete): ConsultaItem {
+    const billete = { ...c.billete, numero: Number(c.billete.numero), precio: Number(c.billete.precio) };
+    const vendido = this.fraccionesSrv.tieneVentas(billete);
+    return {
+      ...c,
+      billete,
+      propietario: vendido ? c.propietario : null,
+      jugado: !!c.resultado || ['CERRADO', 'JUGADO'].includes(this.estadoSrv.estado(c.sorteo)),
+      premio: vendido ? this.premiosSrv.evaluarBillete(billete, c.resultado, c.sorteo.premios) : null,
+    };
+  }
+
+  private errorConsulta(): void {
+    Swal.fire({
+      title: 'Error al consultar',
+      text: 'No fue posible consultar el billete. Intenta nuevamente.',
+      icon: 'error',
+      confirmButtonText: 'Cerrar',
+    });
+  }
+
+  // ============================================================
+  // Utilidades
+  // ============================================================
+
+  /** True si el billete resultó ganador (premio del plan o marca del backend). */
+  esGanador(it: ConsultaItem): boolean {
+    return this.fraccionesSrv.tieneVentas(it.billete) && (!!it.premio || !!it.billete.ganador);
+  }
+}
@@ -0,0 +1,231 @@
+// ============================================================
+// Archivo: src/app/features/dashboard/dashboard/dashboard.component.ts
+// Descripción:
+// Tablero de ventas para la gerencia.
+// - Indicadores del período: recaudado, billetes vendidos y sorteos abiertos.
+// - Recaudado por sorteo y porcentaje vendido de los sorteos abiertos.
+// - Ventas por día del período elegido (7, 30 o 90 días).
+// - Mejores clientes y billetes por vender antes de los próximos sorteos.
+// Los contadores por sorteo vienen del mismo resumen que usa el
+// listado de sorteos; los gráficos son SVG dibujados en la página.
+// ============================================================
+
+import { Component, OnInit } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { FormControl, ReactiveFormsModule } from '@angular/forms';
+import { forkJoin } from 'rxjs';
+
+import { DashboardService } from '../../../services/dashboard.service';
+import { SorteosService } from '../../../services/sorteos.service';
+import { EstadoSorteoService } from '../../../services/estado-sorteo.service';
+import { RelojService } from '../../../services/reloj.service';
+import { ResumenSorteo } from '../../../models/sorteo';
+import { TopCliente, VentasDia } from '../../../models/dashboard';
+
+/** Barra de un gráfico horizontal (coordenadas del viewBox) */
+type BarraH = {
+  etiqueta: string;
+  texto: string;
+  y: number;
+  ancho: number;
+};
+
+/** Columna del gráfico de ventas por día (coordenadas del viewBox) */
+type Columna = {
+  x: number;
+  y: number;
+  ancho: number;
+  alto: number;
+  etiqueta: string;
+  titulo: string;
+};
+
+/** Línea guía del eje vertical */
+type Guia = { y: number; texto: string };
+
+/** Medidas de los gráficos (unidades del viewBox, ancho total 600) */
+const ANCHO = 600;
+const ETIQUETA = 170;
+const AREA_BARRA = 330;
+const FILA = 28;
+const ALTO_COLUMNAS = 200;
+const BASE_COLUMNAS = 170;
+const IZQ_COLUMNAS = 56;
+
+@Component({
+  selector: 'app-dashboard',
+  standalone: true,
+  imports: [CommonModule, ReactiveFormsModule],
+  templateUrl: './dashboard.component.html',
+  styleUrls: ['./dashboard.component.scss'],
+})
+export class DashboardComponent implements OnInit {
+  // Datos
+  porRecaudo: ResumenSorteo[] = [];
+  abiertos: ResumenSorteo[] = [];
+  totalAbiertos = 0;
+  dias: VentasDia[] = [];
+  topClientes: TopCliente[] = [];
+
+  // Gráficos
+  barrasRecaudo: BarraH[] = [];
+  barrasVenta: BarraH[] = [];
+  columnas: Columna[] = [];
+  guias: Guia[] = [];
+
+  // Estado de UI
+  cargando = false;
+  error = '';
+
+  /** Días del período de ventas */
+  readonly periodos = [7, 30, 90];
+  periodo = new FormControl(30, { nonNullable: true });
+
+  /** Medidas expuestas a la plantilla */
+  readonly ancho = ANCHO;
+  readonly etiquetaX = ETIQUETA;
+  readonly altoColumnas = ALTO_COLUMNAS;
+  readonly baseColumnas = BASE_COLUMNAS;
+  readonly izqColumnas = IZQ_COLUMNAS;
+
+  constructor(
+    private dashboardSrv: DashboardService,
+    private sorteosSrv: SorteosService,
+    public estadoSrv: EstadoSorteoService,
+    private reloj: RelojService,
+  ) {}
+
+  // ============================================================
+  // Ciclo de vida
+  // ============================================================
+  ngOnInit(): void {
+    this.periodo.valueChanges.subscribe(() => this.cargar());
+    this.cargar();
+  }
+
+  // ============================================================
+  // Carga de datos
+  // ------------------------------------------------------------
+  // Un solo pedido por bloque: los 10 sorteos con mayor recaudo, los
+  // próximos sorteos abiertos y las estadísticas del período.
+  // ============================================================
+  cargar(): void {
+    const hasta = this.reloj.enZona(this.reloj.ahora()).slice(0, 10);
+    const desde = new Date(new Date(`${hasta}T00:00:00Z`).getTime() - (this.periodo.value - 1) * 86_400_000)
+      .toISOString()
+      .slice(0, 10);
+
+    this.cargando = true;
+    this.error = '';
+    forkJoin({
+      recaudo: this.sorteosSrv.resumen({ orden: 'recaudado', direccion: 'desc', tamano: 10 }),
+      abiertos: this.sorteosSrv.resumen({ estado: 'ABIERTO', orden: 'fecha', direccion: 'asc', tamano: 10 }),
+      ventas: this.dashboardSrv.estadisticas(desde, hasta),
+    }).subscribe({
+      next: ({ recaudo, abiertos, ventas }) => {
+        this.porRecaudo = recaudo?.contenido ?? [];
+        this.abiertos = abiertos?.contenido ?? [];
+        this.totalAbiertos = abiertos?.total ?? 0;
+        this.dias = this.dashboardSrv.completarDias(ventas?.porDia ?? [], desde, hasta);
+        this.topClientes = ventas?.topClientes ?? [];
+        this.armarGraficos();
+        this.cargando = false;
+      },
+      error: () => {
+        this.error = 'No fue posible cargar el tablero. Intenta de nuevo.';
+        this.cargando = false;
+      },
+    });
+  }
+
+  // ============================================================
+  // Indicadores
+  // ============================================================
+
+  /** Recaudado en el período. */
+  get recaudadoPeriodo(): number {
+    return this.dias.reduce((acc, d) => acc + Number(d.total || 0), 0);
+  }
+
+  /** Billetes (o fracciones) vendidos en el período. */
+  get vendidosPeriodo(): number {
+    return this.dias.reduce((acc, d) => acc + Number(d.cantidad || 0), 0);
+  }
+
+  /** Billetes por vender en los próximos sorteos abiertos. */
+  get porVender(): number {
+    return this.abiertos.reduce((acc, s) => acc + s.disponibles, 0);
+  }
+
+  /** Porcentaje vendido de un sorteo. */
+  porcentaje(s: ResumenSorteo): number {
+    return this.dashboardSrv.porcentajeVendido(s);
+  }
+
+  /** Valor máximo de compras entre los mejores clientes (ancho de sus barras). */
+  get maxCliente(): number {
+    return Math.max(1, ...this.topClientes.map((c) => c.total));
+  }
+
+  // ============================================================
+  // Geometría de los gráficos
+  // ============================================================
+
+  /** Alto del viewBox de un gráfico horizontal con n filas. */
+  altoBarras(n: number): number {
+    return Math.max(1, n) * FILA + 8;
+  }
+
+  private armarGraficos(): void {
+    const maxRecaudo = this.dashboardSrv.escala(Math.max(0, ...this.porRecaudo.map((s) => s.recaudado)));
+    this.barrasRecaudo = this.barrasH(
+      this.porRecaudo.map((s) => ({ etiqueta: s.nombre, valor: s.recaudado / maxRecaudo, texto: `$${this.miles(s.recaudado)}` }))
+    );
+    this.barrasVenta = this.barrasH(
+      this.abiertos.map((s) => ({ etiqueta: s.nombre, valor: this.porcentaje(s) / 100, texto: `${this.porcentaje(s)}%` }))
+    );
+    this.armarColumnas();
+  }
+
+  /** Barras horizontales: valor relativo (0..1) de cada fila. */
+  private barrasH(items: { etiqueta: string; valor: number; texto: string }[]): BarraH[] {
+    return items.map((it, i) => ({
+      etiqueta: it.etiqueta.length > 24 ? `${it.etiqueta.slice(0, 23)}…` : it.etiqueta,
+      texto: it.texto,
+      y: 4 + i * FILA,
+      ancho: Math.max(0, Math.min(1, it.valor)) * AREA_BARRA,
+    }));
+  }
+
+  /** Columnas de ventas por día con sus guías (0, mitad y máximo de la escala). */
+  private armarColumnas(): void {
+    const max = this.dashboardSrv.escala(Math.max(0, ...this.dias.map((d) => d.total)));
+    const area = ANCHO - IZQ_COLUMNAS - 8;
+    const paso = area / Math.max(1, this.dias.length);
+    const altoUtil = BASE_COLUMNAS - 10;
+    // Etiquetas del eje X: unas 8 como máximo para que no se encimen
+    const cadaCuantos = Math.ceil(this.dias.length / 8);
+
+    this.columnas = this.dias.map((d, i) => {
+      const alto = (d.total / max) * altoUtil;
+      const [, mes, dia] = d.fecha.split('-');
+      return {
+        x: IZQ_COLUMNAS + i * paso + paso * 0.15,
+        y: BASE_COLUMNAS - alto,
+        ancho: paso * 0.7,
+        alto,
+        etiqueta: i % cadaCuantos === 0 ? `${dia}/${mes}` : '',
+        titulo: `${dia}/${mes}: ${d.cantidad} venta(s) · $${this.miles(d.total)}`,
+      };
+    });
+    this.guias = [0, 0.5, 1].map((f) => ({
+      y: BASE_COLUMNAS - f * altoUtil,
+      texto: `$${this.miles(f * max)}`,
+    }));
+  }
+
+  /** Número con separador de miles (ej. 1.250.000). */
+  private miles(n: number): string {
+    return Math.round(n).toLocaleString('es-CO');
+  }
+}
@@ -1,8 +1,10 @@
-import { Component, inject } from '@angular/core';
+import { Component, OnInit, inject } from '@angular/core';
+import { ActivatedRoute } from '@angular/router';
 import { CommonModule } from '@angular/common';
 import { ReactiveFormsModule, FormBuilder, Validators } from '@angular/forms';
-import { VentasService } from '../../../services/ventas.service';
+import { VentasService, VentaAnulada } from '../../../services/ventas.service';
 import { Billete } from '../../../models/billete';
+import { NumeroBilletePipe } from '../../../pipes/numero-billete.pipe';
 import Swal from 'sweetalert2';
 
 type Cliente = { id: number; nombre: string; correo: string };
@@ -10,14 +12,15 @@ type Cliente = { id: number; nombre: string; correo: string };
 @Component({
   selector: 'app-historial-cliente',
   standalone: true,
-  imports: [CommonModule, ReactiveFormsModule],
+  imports: [CommonModule, ReactiveFormsModule, NumeroBilletePipe],
   templateUrl: './historial-cliente.component.html',
   styleUrls: ['./historial-cliente.component.scss'],
 })
-export class HistorialClienteComponent {
+export class HistorialClienteComponent implements OnInit {
   // Inyecciones
   private fb = inject(FormBuilder);
   private ventas = inject(VentasService);
+  private route = inject(ActivatedRoute);
 
   // Form
   f = this.fb.group({
@@ -31,8 +34,23 @@ export class HistorialClienteComponent {
   // Datos
   cliente: Cliente | null = null;
   billetes: Billete[] = [];
+  anulaciones: VentaAnulada[] = [];
   error: string | null = null;
 
+  /** Cantidad de billetes ganadores del cliente */
+  get ganadores(): number {
+    return this.billetes.filter((b) => b.ganador).length;
+  }
+
+  /** Si llega ?correo=... (desde el directorio de clientes), consulta de inmediato */
+  ngOnInit(): void {
+    const correo = this.route.snapshot.queryParamMap.get('correo');
+    if (correo) {
+      this.f.patchValue({ correo });
+      this.buscar();
+    }
+  }
+
   buscar(): void {
     this.intentado = true;
     this.error = null;
@@ -40,12 +58,13 @@ export class HistorialClienteComponent {
 
     this.loading = true;
     this.billetes = [];
+    this.anulaciones = [];
     this.cliente = null;
 
     const correo = this.f.value.correo!.trim();
 
     this.ventas.getHistorialPorCliente(correo).subscribe({
-      next: (res: { cliente: Cliente; billetes: Billete[] }) => {
+      next: (res: { cliente: Cliente; billetes: Billete[]; anulaciones?: VentaAnulada[] }) => {
         // Normaliza por si el backend devolviera sólo la lista de billetes
         const cliente = (res && (res as any).cliente)
           ? res.cliente
@@ -69,6 +88,8 @@ export class HistorialClienteComponent {
         this.cliente = cliente;
         // Ordenar más recientes primero (por id desc)
         this.billetes = (billetes ?? []).slice().sort((a, b) => (b.id ?? 0) - (a.id ?? 0));
+        // Ventas anuladas (se conservan en el historial con su motivo)
+        this.anulaciones = res?.anulaciones ?? [];
         this.loading = false;
       },
 
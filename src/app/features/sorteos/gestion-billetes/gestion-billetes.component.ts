@@ -0,0 +1,255 @@
+/**
+ * Componente: GestionBilletesComponent
+ * ---------------------------------------------
+ * Panel (modal) de billetes de un sorteo editable: agrega bloques de
+ * números que el sorteo aún no tiene y fija precios diferenciados por
+ * número o rango (solo en billetes sin ventas ni reservas).
+ *
+ * La generación del bloque la ejecuta el listado de sorteos, que es
+ * dueño del progreso por lotes: este panel valida el bloque y emite
+ * sus opciones de numeración.
+ *
+ * Uso: <app-gestion-billetes [sorteo]="s" [generando]="generando"
+ *        (agregar)="agregarBloque(s, $event)" (cerrar)="cerrarGestion()"></app-gestion-billetes>
+ */
+
+import { Component, EventEmitter, Input, OnInit, Output } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import {
+  ReactiveFormsModule,
+  FormBuilder,
+  Validators,
+  FormGroup,
+  FormControl,
+  AbstractControl,
+  ValidationErrors,
+} from '@angular/forms';
+import { firstValueFrom } from 'rxjs';
+
+import { SorteosService, OpcionesGeneracion, cantidadBilletes } from '../../../services/sorteos.service';
+import { GeneracionBilletesService } from '../../../services/generacion-billetes.service';
+import { ResumenSorteo } from '../../../models/sorteo';
+import { Billete } from '../../../models/billete';
+import { NumeroBilletePipe, formatearNumeroBillete } from '../../../pipes/numero-billete.pipe';
+
+/** Controles de un rango de números con precio (bloque nuevo o precio diferenciado) */
+type RangoForm = {
+  desde: FormControl<number>;
+  hasta: FormControl<number>;
+  precio: FormControl<number>;
+};
+
+@Component({
+  selector: 'app-gestion-billetes',
+  standalone: true,
+  imports: [CommonModule, ReactiveFormsModule, NumeroBilletePipe],
+  templateUrl: './gestion-billetes.component.html',
+  styleUrls: ['./gestion-billetes.component.scss'],
+})
+export class GestionBilletesComponent implements OnInit {
+  /** Sorteo cuyos billetes se gestionan */
+  @Input({ required: true }) sorteo!: ResumenSorteo;
+
+  /** Hay una generación en curso (no se puede agregar otro bloque) */
+  @Input() generando = false;
+
+  /** Bloque validado listo para generar */
+  @Output() agregar = new EventEmitter<OpcionesGeneracion>();
+
+  /** Cierre del panel */
+  @Output() cerrar = new EventEmitter<void>();
+
+  /** Billetes que el sorteo ya tiene */
+  billetes: Billete[] = [];
+  cargando = false;
+  guardandoPrecio = false;
+  msg = '';
+
+  /** Bloque de billetes a agregar (con las cifras y series del sorteo) */
+  bloqueForm!: FormGroup<RangoForm>;
+
+  /** Precio diferenciado para un número o rango */
+  precioForm!: FormGroup<RangoForm>;
+
+  constructor(
+    private fb: FormBuilder,
+    private sorteosSrv: SorteosService,
+    private generacionSrv: GeneracionBilletesService,
+  ) {
+    /**
+     * Formularios del panel de billetes.
+     * - desde / hasta: números dentro de las cifras del sorteo (desde ≤ hasta)
+     * - bloque: números que el sorteo aún no tiene, máx. 10.000 billetes (rango × series)
+     * - precio diferenciado: el rango debe incluir billetes existentes
+     * - precio: [0..9_999_999_999.99]
+     */
+    const rango = () => ({
+      desde: this.fb.nonNullable.control(0, { validators: [Validators.required, Validators.min(0)] }),
+      hasta: this.fb.nonNullable.control(0, { validators: [Validators.required, Validators.min(0)] }),
+      precio: this.fb.nonNullable.control(10000, {
+        validators: [Validators.required, Validators.min(0), Validators.max(9_999_999_999.99)],
+      }),
+    });
+    this.bloqueForm = this.fb.nonNullable.group(rango(), { validators: [this.bloqueValidator] });
+    this.precioForm = this.fb.nonNullable.group(rango(), { validators: [this.precioRangoValidator] });
+  }
+
+  /** Carga los billetes que ya tiene el sorteo y propone el siguiente bloque */
+  ngOnInit(): void {
+    this.cargando = true;
+    this.sorteosSrv.billetesPorSorteo(this.sorteo.id).subscribe({
+      next: (bs) => {
+        this.billetes = bs ?? [];
+        const numeros = this.billetes.map((b) => Number(b.numero));
+        const siguiente = numeros.length ? Math.max(...numeros) + 1 : 0;
+        const precio = this.billetes[0]?.precio ?? this.sorteo.precio ?? 10000;
+        this.bloqueForm.reset({
+          desde: siguiente,
+          hasta: Math.min(siguiente + 99, this.maxNumero),
+          precio,
+        });
+        this.precioForm.reset({ desde: siguiente - 1, hasta: siguiente - 1, precio });
+        this.cargando = false;
+      },
+      error: () => {
+        this.msg = 'No se pudieron cargar los billetes del sorteo.';
+        this.cargando = false;
+      },
+    });
+  }
+
+  /** ==========================================================
+   *  VALIDACIÓN DE RANGOS
+   * ========================================================== */
+
+  /** Mayor número posible con las cifras del sorteo */
+  get maxNumero(): number {
+    const cifras = this.sorteo?.cifras;
+    return cifras ? 10 ** cifras - 1 : Number.MAX_SAFE_INTEGER;
+  }
+
+  /** Billetes del sorteo cuyo número está en [desde..hasta] */
+  private billetesEnRango(desde: number, hasta: number): Billete[] {
+    return this.billetes.filter((b) => Number(b.numero) >= desde && Number(b.numero) <= hasta);
+  }
+
+  /** Errores comunes de un rango: desde > hasta o fuera de las cifras del sorteo */
+  private errorRango(ctrl: AbstractControl): ValidationErrors | null {
+    const desde = Number(ctrl.get('desde')?.value ?? 0);
+    const hasta = Number(ctrl.get('hasta')?.value ?? 0);
+    if (desde > hasta) return { rango: true };
+    if (hasta > this.maxNumero) return { rangoCifras: true };
+    return null;
+  }
+
+  /**
+   * Validador de grupo del bloque a agregar:
+   * - rango / rangoCifras: ver errorRango.
+   * - solapado: el rango incluye números que el sorteo ya tiene.
+   * - cantidadMax: rango × series no puede superar 10.000 billetes.
+   */
+  private bloqueValidator = (ctrl: AbstractControl): ValidationErrors | null => {
+    const error = this.errorRango(ctrl);
+    if (error) return error;
+    const desde = Number(ctrl.get('desde')?.value ?? 0);
+    const hasta = Number(ctrl.get('hasta')?.value ?? 0);
+    if (this.billetesEnRango(desde, hasta).length) return { solapado: true };
+    if (cantidadBilletes({ desde, hasta, series: this.sorteo?.series ?? 0 }) > 10000) {
+      return { cantidadMax: true };
+    }
+    return null;
+  };
+
+  /** Validador de grupo del precio diferenciado: rango válido y con billetes (sinBilletes) */
+  private precioRangoValidator = (ctrl: AbstractControl): ValidationErrors | null => {
+    const error = this.errorRango(ctrl);
+    if (error) return error;
+    const desde = Number(ctrl.get('desde')?.value ?? 0);
+    const hasta = Number(ctrl.get('hasta')?.value ?? 0);
+    return this.billetesEnRango(desde, hasta).length ? null : { sinBilletes: true };
+  };
+
+  /** Cantidad de billetes que agregará el bloque (rango × series del sorteo) */
+  get cantidadBloque(): number {
+    const { desde, hasta } = this.bloqueForm.getRawValue();
+    return cantidadBilletes({ desde, hasta, series: this.sorteo?.series ?? 0 });
+  }
+
+  /** Billetes del rango de precio: los que cambian (sin ventas ni reservas) y los que lo conservan */
+  get resumenPrecio(): { cambian: number; conservan: number } {
+    const { desde, hasta } = this.precioForm.getRawValue();
+    const enRango = this.billetesEnRango(Number(desde), Number(hasta));
+    const cambian = enRango.filter((b) => b.estado === 'DISPONIBLE').length;
+    return { cambian, conservan: enRango.length - cambian };
+  }
+
+  /** Mensaje para los errores de un rango del panel (null si no hay) */
+  mensajeRango(form: FormGroup<RangoForm>): string | null {
+    const e = form.errors;
+    if (e?.['rango']) return 'El número inicial no puede ser mayor que el final.';
+    if (e?.['rangoCifras']) return `El número final no cabe en las cifras del sorteo (máx. ${this.maxNumero}).`;
+    if (e?.['solapado']) return 'El rango incluye números que el sorteo ya tiene.';
+    if (e?.['cantidadMax']) return 'Máximo permitido: 10.000 boletas por bloque (rango × series).';
+    if (e?.['sinBilletes']) return 'El sorteo no tiene billetes en ese rango.';
+    if (form.controls.precio.invalid) return 'El precio debe estar entre 0 y 9.999.999.999,99.';
+    if (form.controls.desde.invalid || form.controls.hasta.invalid) return 'El rango de números no puede ser negativo.';
+    return null;
+  }
+
+  /** ==========================================================
+   *  ACCIONES
+   * ========================================================== */
+
+  /** Valida el bloque y lo entrega al listado para generarlo por lotes */
+  agregarBloque(): void {
+    if (this.generando) return;
+
+    if (this.bloqueForm.invalid) {
+      this.msg = this.mensajeRango(this.bloqueForm) ?? 'Revisa el bloque de billetes.';
+      return;
+    }
+    if (this.generacionSrv.pendiente(this.sorteo.id)) {
+      this.msg = 'El sorteo tiene una generación pendiente: reanúdala o descártala primero.';
+      return;
+    }
+
+    const { desde, hasta, precio } = this.bloqueForm.getRawValue();
+    this.agregar.emit({
+      cifras: this.sorteo.cifras ?? String(hasta).length,
+      desde: Number(desde),
+      hasta: Number(hasta),
+      series: this.sorteo.series ?? 0,
+      precio: Number(precio),
+    });
+  }
+
+  /** Aplica un precio diferenciado a un número o rango (solo billetes sin ventas ni reservas) */
+  async guardarPrecio() {
+    const s = this.sorteo;
+    if (this.precioForm.invalid) {
+      this.msg = this.mensajeRango(this.precioForm) ?? 'Revisa el precio diferenciado.';
+      return;
+    }
+
+    const { desde, hasta, precio } = this.precioForm.getRawValue();
+    this.guardandoPrecio = true;
+    this.msg = '';
+    try {
+      const actualizados = await firstValueFrom(
+        this.sorteosSrv.actualizarPrecios(s.id, { desde: Number(desde), hasta: Number(hasta), precio: Number(precio) })
+      );
+      const porId = new Map((actualizados ?? []).map((b) => [b.id, b]));
+      this.billetes = this.billetes.map((b) => porId.get(b.id) ?? b);
+      this.precioForm.updateValueAndValidity();
+
+      const rango = desde === hasta
+        ? formatearNumeroBillete(desde, s.cifras)
+        : `${formatearNumeroBillete(desde, s.cifras)} a ${formatearNumeroBillete(hasta, s.cifras)}`;
+      this.msg = `Precio de ${rango} actualizado en ${porId.size} billete(s).`;
+    } catch (err: any) {
+      this.msg = err?.error?.message || 'No se pudo actualizar el precio. Intenta de nuevo.';
+    } finally {
+      this.guardandoPrecio = false;
+    }
+  }
+}
@@ -0,0 +1,243 @@
+/**
+ * Componente: PlantillasComponent
+ * ---------------------------------------------
+ * Panel (modal) de plantillas de sorteo: lista las guardadas con su
+ * recurrencia y los sorteos que faltan por crear, guarda la
+ * configuración del formulario de creación como plantilla nueva y
+ * permite cambiar los nombres o la recurrencia de una existente, o
+ * eliminarla.
+ *
+ * El listado de sorteos es dueño de la lista de plantillas: este panel
+ * guarda o elimina en el backend y avisa con (guardada) / (eliminada).
+ *
+ * Uso: <app-plantillas [plantillas]="plantillas" [programados]="programados"
+ *        [borrador]="b" (guardada)="..." (eliminada)="..." (cerrar)="..."></app-plantillas>
+ */
+
+import { Component, EventEmitter, Input, OnInit, Output } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import {
+  ReactiveFormsModule,
+  FormBuilder,
+  Validators,
+  FormGroup,
+  FormControl,
+  AbstractControl,
+  ValidationErrors,
+} from '@angular/forms';
+import { firstValueFrom } from 'rxjs';
+import Swal from 'sweetalert2';
+
+import { PlantillasService } from '../../../services/plantillas.service';
+import { DIAS_SEMANA, PlantillaSorteo } from '../../../models/plantilla';
+import { Sorteo } from '../../../models/sorteo';
+import { NumeroBilletePipe } from '../../../pipes/numero-billete.pipe';
+
+/** Configuración de sorteo que guarda una plantilla (numeración, precio, fracciones y premios) */
+export type ConfiguracionPlantilla = Omit<PlantillaSorteo, 'id' | 'nombre' | 'patronNombre' | 'recurrencia'>;
+
+/**
+ * Formulario de creación al abrir el panel:
+ * - nombre / fechaSorteo: sugieren el nombre, el día y la hora de la plantilla nueva.
+ * - configuracion: lo que se guarda en la plantilla nueva (null si el formulario no es válido).
+ */
+export type BorradorPlantilla = {
+  nombre: string;
+  fechaSorteo: string;
+  configuracion: ConfiguracionPlantilla | null;
+};
+
+@Component({
+  selector: 'app-plantillas',
+  standalone: true,
+  imports: [CommonModule, ReactiveFormsModule, NumeroBilletePipe],
+  templateUrl: './plantillas.component.html',
+  styleUrls: ['./plantillas.component.scss'],
+})
+export class PlantillasComponent implements OnInit {
+  /** Plantillas guardadas */
+  @Input() plantillas: PlantillaSorteo[] = [];
+
+  /** Sorteos ya creados de las recurrencias (null = aún sin cargar o con error) */
+  @Input() programados: Sorteo[] | null = null;
+
+  /** Formulario de creación al abrir el panel */
+  @Input({ required: true }) borrador!: BorradorPlantilla;
+
+  /** Plantilla creada o actualizada en el backend */
+  @Output() guardada = new EventEmitter<PlantillaSorteo>();
+
+  /** Plantilla eliminada en el backend */
+  @Output() eliminada = new EventEmitter<PlantillaSorteo>();
+
+  /** Cierre del panel */
+  @Output() cerrar = new EventEmitter<void>();
+
+  /** Plantilla en edición (null = nueva, desde el formulario de creación) */
+  plantillaEditando: PlantillaSorteo | null = null;
+  guardando = false;
+  msg = '';
+
+  /** Formulario de la plantilla: nombres y recurrencia semanal */
+  plantillaForm!: FormGroup<{
+    nombre: FormControl<string>;
+    patronNombre: FormControl<string>;
+    recurrente: FormControl<boolean>;
+    dias: FormControl<number[]>;
+    hora: FormControl<string>;
+    anticipacion: FormControl<number>;
+  }>;
+
+  /** Días de la semana para la recurrencia */
+  readonly diasSemana = DIAS_SEMANA;
+
+  constructor(private fb: FormBuilder, private plantillasSrv: PlantillasService) {
+    /**
+     * Formulario de plantillas.
+     * - nombre: requerido, máximo 60 caracteres
+     * - patronNombre: requerido, máximo 80 ("{fecha}" = fecha del sorteo)
+     * - recurrencia (si recurrente): al menos un día, hora y [1..8] sorteos de anticipación
+     */
+    this.plantillaForm = this.fb.nonNullable.group({
+      nombre: this.fb.nonNullable.control('', { validators: [Validators.required, Validators.maxLength(60)] }),
+      patronNombre: this.fb.nonNullable.control('', { validators: [Validators.required, Validators.maxLength(80)] }),
+      recurrente: this.fb.nonNullable.control(false),
+      dias: this.fb.nonNullable.control<number[]>([]),
+      hora: this.fb.nonNullable.control('20:00'),
+      anticipacion: this.fb.nonNullable.control(2, { validators: [Validators.min(1), Validators.max(8)] }),
+    }, { validators: [this.recurrenciaValidator] });
+  }
+
+  ngOnInit(): void {
+    this.nuevaPlantilla();
+  }
+
+  /** Próximos sorteos de la recurrencia que aún no se han creado */
+  pendientesDe(p: PlantillaSorteo): string[] {
+    return this.programados ? this.plantillasSrv.pendientes(p, this.programados) : [];
+  }
+
+  /** Texto de la recurrencia (ej. "Vie 21:00 · 2 por adelantado") */
+  textoRecurrencia(p: PlantillaSorteo): string {
+    const r = p.recurrencia;
+    if (!r?.dias?.length) return 'Sin recurrencia';
+    const dias = this.diasSemana.filter((d) => r.dias.includes(d.value)).map((d) => d.label).join(', ');
+    return `${dias} ${r.hora} · ${r.anticipacion} por adelantado`;
+  }
+
+  /** Prepara el formulario para guardar la configuración del formulario de creación como plantilla */
+  nuevaPlantilla(): void {
+    this.plantillaEditando = null;
+    this.msg = '';
+    const { nombre, fechaSorteo } = this.borrador;
+    const [fecha, hora] = fechaSorteo ? fechaSorteo.split('T') : ['', '20:00'];
+    const dia = fecha ? new Date(`${fecha}T00:00:00Z`).getUTCDay() : null;
+    this.plantillaForm.reset({
+      nombre: nombre.slice(0, 60),
+      patronNombre: nombre ? `${nombre} {fecha}`.slice(0, 80) : '',
+      recurrente: false,
+      dias: dia === null ? [] : [dia],
+      hora: hora.slice(0, 5),
+      anticipacion: 2,
+    });
+  }
+
+  /** Carga una plantilla existente para cambiar sus nombres o su recurrencia */
+  editarPlantilla(p: PlantillaSorteo): void {
+    this.plantillaEditando = p;
+    this.msg = '';
+    this.plantillaForm.reset({
+      nombre: p.nombre,
+      patronNombre: p.patronNombre,
+      recurrente: !!p.recurrencia?.dias?.length,
+      dias: p.recurrencia?.dias ?? [],
+      hora: p.recurrencia?.hora ?? '20:00',
+      anticipacion: p.recurrencia?.anticipacion ?? 2,
+    });
+  }
+
+  /** Marca o desmarca un día de la recurrencia */
+  toggleDia(dia: number): void {
+    const dias = this.plantillaForm.controls.dias.value;
+    this.plantillaForm.controls.dias.setValue(
+      dias.includes(dia) ? dias.filter((d) => d !== dia) : [...dias, dia].sort()
+    );
+  }
+
+  /** Validador de grupo: una recurrencia necesita al menos un día y la hora */
+  private recurrenciaValidator = (ctrl: AbstractControl): ValidationErrors | null => {
+    if (!ctrl.get('recurrente')?.value) return null;
+    if (!ctrl.get('dias')?.value?.length) return { sinDias: true };
+    return /^\d{2}:\d{2}$/.test(ctrl.get('hora')?.value ?? '') ? null : { sinHora: true };
+  };
+
+  /**
+   * Guarda la plantilla. Una plantilla nueva toma la numeración, el
+   * precio, las fracciones y los premios del formulario de creación;
+   * al editar solo cambian sus nombres y su recurrencia.
+   */
+  async guardarPlantilla() {
+    if (this.plantillaForm.invalid) {
+      this.msg = this.plantillaForm.errors?.['sinDias']
+        ? 'Elige al menos un día para la recurrencia.'
+        : 'Revisa el nombre, el patrón y la recurrencia de la plantilla.';
+      return;
+    }
+
+    const base = this.plantillaEditando ?? this.borrador.configuracion;
+    if (!base) {
+      this.msg = 'Completa la numeración, el precio y los premios del formulario de creación.';
+      return;
+    }
+
+    const { nombre, patronNombre, recurrente, dias, hora, anticipacion } = this.plantillaForm.getRawValue();
+    const { id, ...config } = { id: 0, ...base };
+    const payload = {
+      ...config,
+      nombre: nombre.trim(),
+      patronNombre: patronNombre.trim(),
+      recurrencia: recurrente ? { dias, hora, anticipacion: Number(anticipacion) } : null,
+    };
+
+    this.guardando = true;
+    try {
+      const guardada = await firstValueFrom(
+        this.plantillaEditando
+          ? this.plantillasSrv.actualizar(this.plantillaEditando.id, payload)
+          : this.plantillasSrv.crear(payload)
+      );
+      const nueva = { ...payload, ...(guardada ?? {}), id: guardada?.id ?? this.plantillaEditando?.id ?? 0 };
+      this.guardada.emit(nueva);
+      this.msg = `Plantilla "${nueva.nombre}" guardada.`;
+      this.plantillaEditando = null;
+    } catch (err: any) {
+      this.msg = err?.error?.message || 'No se pudo guardar la plantilla. Intenta de nuevo.';
+    } finally {
+      this.guardando = false;
+    }
+  }
+
+  /** Elimina una plantilla (los sorteos ya creados con ella no cambian) */
+  async eliminarPlantilla(p: PlantillaSorteo) {
+    const r = await Swal.fire({
+      title: `Eliminar plantilla`,
+      text: `¿Eliminar "${p.nombre}"? Los sorteos ya creados con ella no cambian.`,
+      icon: 'warning',
+      showCancelButton: true,
+      confirmButtonText: 'Eliminar',
+      cancelButtonText: 'Volver',
+      confirmButtonColor: '#ef4444',
+      background: '#0f172a',
+      color: '#e6edf7',
+    });
+    if (!r.isConfirmed) return;
+
+    try {
+      await firstValueFrom(this.plantillasSrv.eliminar(p.id));
+      this.eliminada.emit(p);
+      if (this.plantillaEditando?.id === p.id) this.nuevaPlantilla();
+    } catch {
+      this.msg = 'No se pudo eliminar la plantilla. Intenta de nuevo.';
+    }
+  }
+}
@@ -0,0 +1,270 @@
+// ============================================================
+// Archivo: src/app/features/sorteos/resultado-sorteo/resultado-sorteo.component.ts
+// Descripción:
+// Pantalla para registrar el resultado de un sorteo finalizado.
+// - Carga el sorteo indicado por /sorteos/:id/resultado.
+// - Permite ingresar el/los número(s) ganador(es) separados por coma.
+// - Muestra el resultado ya registrado y los billetes ganadores
+//   junto al cliente que los compró.
+// - Evalúa los billetes vendidos contra el plan de premios del
+//   sorteo (premio mayor, secos y aproximaciones).
+// ============================================================
+
+import { Component, OnInit } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import {
+  ReactiveFormsModule,
+  FormBuilder,
+  FormControl,
+  Validators,
+  AbstractControl,
+  ValidationErrors,
+} from '@angular/forms';
+import { ActivatedRoute, RouterLink } from '@angular/router';
+import { firstValueFrom } from 'rxjs';
+import Swal from 'sweetalert2';
+
+import { SorteosService } from '../../../services/sorteos.service';
+import { ResultadosService } from '../../../services/resultados.service';
+import { PremiosService } from '../../../services/premios.service';
+import { EstadoSorteoService } from '../../../services/estado-sorteo.service';
+import { FraccionesService } from '../../../services/fracciones.service';
+import { Sorteo } from '../../../models/sorteo';
+import { ResultadoSorteo } from '../../../models/resultado';
+import { Premio } from '../../../models/premio';
+import { NumeroBilletePipe, formatearNumeroBillete } from '../../../pipes/numero-billete.pipe';
+import { escaparHtml } from '../../../utils/html';
+
+// Fila de la tabla de billetes premiados según el plan de premios
+// (una por cliente: en billetes fraccionados, con su parte del premio).
+type PremiadoItem = {
+  numero: number;
+  serie?: string | null;
+  cifras?: number | null;
+  cliente: string;
+  correo?: string | null;
+  fracciones: string;
+  premio: Premio;
+  valor: number;
+};
+
+@Component({
+  selector: 'app-resultado-sorteo',
+  standalone: true,
+  imports: [CommonModule, ReactiveFormsModule, RouterLink, NumeroBilletePipe],
+  templateUrl: './resultado-sorteo.component.html',
+  styleUrls: ['./resultado-sorteo.component.scss'],
+})
+export class ResultadoSorteoComponent implements OnInit {
+  // Datos
+  sorteo: Sorteo | null = null;
+  resultado: ResultadoSorteo | null = null;
+  premiados: PremiadoItem[] = [];
+  totalPremios = 0;
+
+  // Estado de UI
+  cargando = false;
+  guardando = false;
+  error: string | null = null;
+
+  /** Número(s) ganador(es) separados por coma (ej. "42" o "42, 1375"). */
+  numerosCtrl!: FormControl<string>;
+
+  /** Serie ganadora del número mayor (opcional, solo en sorteos con series). */
+  serieCtrl!: FormControl<string>;
+
+  constructor(
+    private fb: FormBuilder,
+    private route: ActivatedRoute,
+    private sorteosSrv: SorteosService,
+    private resultadosSrv: ResultadosService,
+    private premiosSrv: PremiosService,
+    private estadoSrv: EstadoSorteoService,
+    public fraccionesSrv: FraccionesService,
+  ) {
+    this.numerosCtrl = this.fb.nonNullable.control('', {
+      validators: [Validators.required, this.numerosValidator],
+    });
+    this.serieCtrl = this.fb.nonNullable.control('', {
+      validators: [this.serieValidator],
+    });
+  }
+
+  // ============================================================
+  // Ciclo de vida
+  // ============================================================
+  ngOnInit(): void {
+    const id = Number(this.route.snapshot.paramMap.get('id'));
+    if (!id) {
+      this.error = 'Sorteo no válido.';
+      return;
+    }
+    this.cargar(id);
+  }
+
+  private async cargar(sorteoId: number) {
+    this.cargando = true;
+    this.error = null;
+    try {
+      this.sorteo = await firstValueFrom(this.sorteosSrv.obtenerPorId(sorteoId));
+      // La serie es obligatoria solo si el sorteo tiene series
+      this.serieCtrl.updateValueAndValidity();
+      this.resultado = await firstValueFrom(this.resultadosSrv.obtener(sorteoId));
+      if (this.resultado) this.evaluarPremios();
+    } catch {
+      // Sin el resultado confirmado no se muestra el sorteo como pendiente
+      this.sorteo = null;
+      this.resultado = null;
+      this.error = 'No fue posible cargar el sorteo o su resultado.';
+    } finally {
+      this.cargando = false;
+    }
+  }
+
+  // ============================================================
+  // Evaluación del plan de premios
+  // (se reutiliza billetesPorSorteo y se evalúan los vendidos)
+  // ============================================================
+  private evaluarPremios(): void {
+    if (!this.sorteo || !this.resultado) return;
+    const plan = this.sorteo.premios;
+    if (!plan?.length) {
+      this.premiados = [];
+      this.totalPremios = 0;
+      return;
+    }
+
+    this.sorteosSrv.billetesPorSorteo(this.sorteo.id).subscribe({
+      next: (billetes) => {
+        const premiados = this.premiosSrv.evaluarSorteo(billetes ?? [], this.resultado, plan);
+        this.premiados = premiados.flatMap((p) =>
+          this.premiosSrv.repartirPremio(p).map((pago) => ({
+            numero: Number(p.billete.numero),
+            serie: p.billete.serie ?? null,
+            cifras: p.billete.cifras ?? this.sorteo?.cifras ?? null,
+            cliente: pago.clienteNombre ?? '—',
+            correo: pago.clienteCorreo ?? null,
+            fracciones: this.fraccionesSrv.etiqueta(pago.fracciones, pago.totalFracciones),
+            premio: p.premio,
+            valor: pago.valor,
+          }))
+        );
+        this.totalPremios = this.premiosSrv.totalPremios(premiados);
+      },
+      error: () => {
+        this.premiados = [];
+        this.totalPremios = 0;
+      }
+    });
+  }
+
+  // ============================================================
+  // Validación y utilidades
+  // ============================================================
+
+  /**
+   * Validador: lista de enteros no negativos separados por coma, sin
+   * repetidos y que quepan en las cifras de la numeración del sorteo.
+   */
+  private numerosValidator = (ctrl: AbstractControl): ValidationErrors | null => {
+    const val = String(ctrl.value ?? '').trim();
+    if (!val) return null;
+    const partes = val.split(',').map(p => p.trim());
+    if (partes.some(p => !/^\d+$/.test(p))) return { formato: true };
+    if (new Set(partes.map(Number)).size !== partes.length) return { repetidos: true };
+    const cifras = this.sorteo?.cifras;
+    if (cifras && partes.some(p => Number(p) >= 10 ** cifras)) return { cifras: true };
+    return null;
+  };
+
+  /**
+   * Validador de la serie ganadora: hasta 3 dígitos (se completa con
+   * ceros, como en la consulta pública) y obligatoria si el sorteo
+   * tiene series.
+   */
+  private serieValidator = (ctrl: AbstractControl): ValidationErrors | null => {
+    const val = String(ctrl.value ?? '').trim();
+    if (!val) return this.sorteo?.series ? { required: true } : null;
+    return /^\d{1,3}$/.test(val) ? null : { formato: true };
+  };
+
+  /** Serie del control con 3 dígitos ("45" → "045"), o null si está vacía. */
+  private get serie(): string | null {
+    const val = this.serieCtrl.value.trim();
+    return val ? val.padStart(3, '0') : null;
+  }
+
+  /** Convierte el texto del control en un arreglo de números. */
+  private get numeros(): number[] {
+    return this.numerosCtrl.value.split(',').map(p => Number(p.trim()));
+  }
+
+  /** True si el sorteo ya cerró ventas (solo entonces se puede registrar el resultado). */
+  get sorteoFinalizado(): boolean {
+    return !!this.sorteo && this.estadoSrv.puedeRegistrarResultado(this.sorteo);
+  }
+
+  /** True si el sorteo fue cancelado (no tendrá resultado). */
+  get sorteoCancelado(): boolean {
+    return this.sorteo?.estado === 'CANCELADO';
+  }
+
+  // ============================================================
+  // Registro del resultado
+  // ============================================================
+  async registrar() {
+    if (!this.sorteo || this.resultado || !this.sorteoFinalizado) return;
+    if (this.numerosCtrl.invalid || this.serieCtrl.invalid) {
+      this.numerosCtrl.markAsTouched();
+      this.serieCtrl.markAsTouched();
+      return;
+    }
+
+    const numeros = this.numeros;
+    const serie = this.serie;
+    const confirm = await Swal.fire({
+      title: 'Confirmar resultado',
+      html: `
+        <div style="text-align:left">
+          <p><b>Sorteo:</b> ${escaparHtml(this.sorteo.nombre)}</p>
+          <p><b>Número(s) ganador(es):</b> ${numeros.map(n => formatearNumeroBillete(n, this.sorteo!.cifras)).join(', ')}</p>
+          ${serie ? `<p><b>Serie:</b> ${escaparHtml(serie)}</p>` : ''}
+          <p>Una vez registrado, el resultado no se puede modificar.</p>
+        </div>
+      `,
+      icon: 'question',
+      showCancelButton: true,
+      confirmButtonText: 'Registrar',
+      cancelButtonText: 'Cancelar'
+    });
+    if (!confirm.isConfirmed) return;
+
+    this.guardando = true;
+    this.resultadosSrv.registrar(this.sorteo.id, numeros, serie).subscribe({
+      next: (res) => {
+        this.resultado = res;
+        this.guardando = false;
+        if (this.sorteo) this.sorteo = { ...this.sorteo, estado: 'JUGADO' };
+        this.evaluarPremios();
+        const vendidos = (res.ganadores ?? []).filter(g => this.fraccionesSrv.tieneVentas(g)).length;
+        Swal.fire({
+          title: 'Resultado registrado',
+          text: vendidos
+            ? `Se encontraron ${vendidos} billete(s) ganador(es) vendido(s).`
+            : 'Ningún billete vendido coincide con el resultado.',
+          icon: 'success',
+          confirmButtonText: 'Perfecto'
+        });
+      },
+      error: (err) => {
+        this.guardando = false;
+        Swal.fire({
+          title: 'Error',
+          text: err?.error?.message || 'No se pudo registrar el resultado.',
+          icon: 'error',
+          confirmButtonText: 'Cerrar'
+        });
+      }
+    });
+  }
+}
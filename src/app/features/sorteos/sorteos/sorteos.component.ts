@@ -1,13 +1,25 @@
 /**
  * Componente: SorteosComponent
  * ---------------------------------------------
- * Este componente permite crear sorteos, generar billetes asociados,
- * listar sorteos existentes con contadores de vendidos y disponibles,
- * navegar hacia la venta de boletas si el sorteo sigue vigente,
- * y visualizar el detalle de compradores en sorteos finalizados.
+ * Este componente permite crear sorteos (con su plan de premios), generar billetes asociados
+ * (por lotes, con progreso real, cancelación y reanudación), agregar bloques de billetes
+ * a un sorteo existente y fijar precios diferenciados por número o rango,
+ * clonar sorteos, guardar plantillas y programar sus recurrencias semanales,
+ * listar sorteos existentes (paginados, con búsqueda, filtros y orden en el backend)
+ * con contadores de vendidos y disponibles y lo recaudado,
+ * navegar hacia la venta de boletas si el sorteo está abierto,
+ * visualizar el detalle de compradores (y anular ventas mientras el
+ * sorteo siga abierto), abrir a la venta los sorteos en borrador,
+ * editar o reprogramar sorteos, cancelarlos (con reembolso de los
+ * billetes vendidos) y acceder al registro de su resultado (número ganador).
+ * Lo que se permite en cada sorteo lo decide EstadoSorteoService.
+ *
+ * Los paneles de billetes (bloques y precios) y de plantillas viven en
+ * GestionBilletesComponent y PlantillasComponent; este componente es
+ * dueño de la generación por lotes, las plantillas y lo programado.
  */
 
-import { Component, OnInit, HostListener } from '@angular/core';
+import { Component, OnInit, OnDestroy, HostListener } from '@angular/core';
 import { CommonModule } from '@angular/common';
 import {
   ReactiveFormsModule,
@@ -15,35 +27,74 @@ import {
   Validators,
   FormGroup,
   FormControl,
+  FormArray,
   AbstractControl,
   ValidationErrors,
 } from '@angular/forms';
 import { FormsModule } from '@angular/forms';
 import { Router } from '@angular/router';
-import { firstValueFrom, forkJoin, of, interval, Subscription } from 'rxjs';
-import { catchError, map } from 'rxjs/operators';
+import { Observable, firstValueFrom, forkJoin, of, merge, Subscription } from 'rxjs';
+import { catchError, debounceTime, map } from 'rxjs/operators';
 import Swal from 'sweetalert2';
 
-import { SorteosService } from '../../../services/sorteos.service';
-import { Sorteo } from '../../../models/sorteo';
+import {
+  SorteosService,
+  ClienteAfectado,
+  OpcionesGeneracion,
+  OrdenSorteos,
+  cantidadBilletes,
+} from '../../../services/sorteos.service';
+import { GeneracionBilletesService, ProgresoGeneracion } from '../../../services/generacion-billetes.service';
+import { PlantillasService } from '../../../services/plantillas.service';
+import { VentasService } from '../../../services/ventas.service';
+import { VendedorService } from '../../../services/vendedor.service';
+import { ResultadosService } from '../../../services/resultados.service';
+import { PremiosService } from '../../../services/premios.service';
+import { EstadoSorteoService } from '../../../services/estado-sorteo.service';
+import { FraccionesService } from '../../../services/fracciones.service';
+import { RelojService } from '../../../services/reloj.service';
+import { environment } from '../../../environments/environment';
+import { EstadoSorteo, ResumenSorteo, Sorteo, ZONAS_HORARIAS } from '../../../models/sorteo';
+import { Pagina, totalPaginas } from '../../../models/pagina';
 import { Billete } from '../../../models/billete';
+import { BilleteGanador, ResultadoSorteo } from '../../../models/resultado';
+import { Premio, TipoPremio } from '../../../models/premio';
+import { PlantillaSorteo } from '../../../models/plantilla';
+import { NumeroBilletePipe, formatearNumeroBillete } from '../../../pipes/numero-billete.pipe';
+import { escaparHtml } from '../../../utils/html';
+import { GestionBilletesComponent } from '../gestion-billetes/gestion-billetes.component';
+import { BorradorPlantilla, ConfiguracionPlantilla, PlantillasComponent } from '../plantillas/plantillas.component';
 
-/** Tipo extendido para incluir contadores de ventas */
-type SorteoUI = Sorteo & {
-  vendidos: number;
-  disponibles: number;
-};
+/** Sorteo del listado con sus contadores de ventas (resumen del backend) */
+type SorteoUI = ResumenSorteo;
+
+/** Cómo terminó una generación de billetes */
+type ResultadoGeneracion = 'completada' | 'cancelada' | 'error';
 
 /** Estructura para representar una compra individual */
 type CompraItem = {
+  billeteId: number;
   clienteId: number;
   nombre: string;
   correo?: string | null;
   numero: string | number;
+  serie?: string | null;
+  cifras?: number | null;
+  fracciones: number;
+  totalFracciones: number;
   precio: number;
   fecha?: string | null;
+  ganador: boolean;
 };
 
+/** Formulario de un nivel del plan de premios */
+type PremioForm = FormGroup<{
+  nombre: FormControl<string>;
+  tipo: FormControl<TipoPremio>;
+  cifras: FormControl<number | null>;
+  valor: FormControl<number>;
+}>;
+
 /** Estado asociado a un sorteo (para modal de detalle de compras) */
 type ComprasEstado = {
   loading: boolean;
@@ -56,11 +107,11 @@ type ComprasEstado = {
 @Component({
   selector: 'app-sorteos',
   standalone: true,
-  imports: [CommonModule, ReactiveFormsModule, FormsModule],
+  imports: [CommonModule, ReactiveFormsModule, FormsModule, NumeroBilletePipe, GestionBilletesComponent, PlantillasComponent],
   templateUrl: './sorteos.component.html',
   styleUrls: ['./sorteos.component.scss'],
 })
-export class SorteosComponent implements OnInit {
+export class SorteosComponent implements OnInit, OnDestroy {
   /** Bandera de creación de sorteo */
   creando = false;
 
@@ -71,40 +122,146 @@ export class SorteosComponent implements OnInit {
   createForm!: FormGroup<{
     nombre: FormControl<string>;
     fechaSorteo: FormControl<string>;
-    cantidad: FormControl<number>;
+    zonaHoraria: FormControl<string>;
+    minutosCierre: FormControl<number>;
+    cifras: FormControl<number>;
+    desde: FormControl<number>;
+    hasta: FormControl<number>;
+    series: FormControl<number>;
+    fracciones: FormControl<number>;
     precio: FormControl<number>;
+    premios: FormArray<PremioForm>;
   }>;
 
-  /** Listado de sorteos renderizado */
+  /** Opciones de regla de coincidencia para el plan de premios */
+  readonly tiposPremio: { value: TipoPremio; label: string }[] = [
+    { value: 'MAYOR', label: 'Premio mayor (número exacto)' },
+    { value: 'SECO', label: 'Seco (número adicional)' },
+    { value: 'ULTIMAS_CIFRAS', label: 'Últimas cifras del mayor' },
+    { value: 'OTRA_SERIE', label: 'Mayor en otra serie' },
+  ];
+
+  /** Zonas horarias disponibles para el sorteo */
+  readonly zonasHorarias = ZONAS_HORARIAS;
+
+  /** Listado de sorteos renderizado (página actual) */
   sorteos: SorteoUI[] = [];
 
+  /** Paginación del listado */
+  pagina = 0;
+  readonly tamanoPagina = 12;
+  totalSorteos = 0;
+
+  /** Búsqueda, filtros y orden del listado */
+  filtroForm!: FormGroup<{
+    q: FormControl<string>;
+    estado: FormControl<EstadoSorteo | ''>;
+    desde: FormControl<string>;
+    hasta: FormControl<string>;
+    orden: FormControl<OrdenSorteos>;
+    direccion: FormControl<'asc' | 'desc'>;
+  }>;
+
+  /** Estados para el filtro del listado */
+  readonly estadosSorteo: EstadoSorteo[] = ['BORRADOR', 'ABIERTO', 'CERRADO', 'JUGADO', 'CANCELADO'];
+
+  /** Criterios de orden del listado */
+  readonly ordenesSorteo: { value: OrdenSorteos; label: string }[] = [
+    { value: 'vigentes', label: 'Vigentes primero' },
+    { value: 'fecha', label: 'Fecha del sorteo' },
+    { value: 'nombre', label: 'Nombre' },
+    { value: 'vendidos', label: 'Billetes vendidos' },
+    { value: 'recaudado', label: 'Recaudado' },
+  ];
+
+  /** Sorteos futuros creados con plantillas con recurrencia (para saber qué falta programar) */
+  programados: Sorteo[] | null = null;
+  /** No se pudo consultar lo ya programado: la programación queda deshabilitada */
+  errorProgramados = false;
+
   /** Bandera de carga del listado de sorteos */
   cargandoSorteos = false;
 
   /** Estado de compras por sorteo (cacheado para evitar múltiples solicitudes) */
   comprasBySorteo: Record<number, ComprasEstado> = {};
 
+  /** Resultado registrado por sorteo (null = aún sin resultado) */
+  resultadoBySorteo: Record<number, ResultadoSorteo | null> = {};
+
   /** Control del modal de detalle */
   detalleAbierto = false;
   detalleSorteo: SorteoUI | null = null;
 
+  /** Billete cuya venta se está anulando (para deshabilitar su botón) */
+  anulandoId: number | null = null;
+
+  /** Modal de edición / reprogramación */
+  edicionSorteo: SorteoUI | null = null;
+  guardandoEdicion = false;
+  editMsg = '';
+
+  /** Formulario de edición (mismas reglas que la creación) */
+  editForm!: FormGroup<{
+    nombre: FormControl<string>;
+    fechaSorteo: FormControl<string>;
+    zonaHoraria: FormControl<string>;
+    minutosCierre: FormControl<number>;
+  }>;
+
+  /** Sorteo abierto en el panel de billetes (bloques y precios diferenciados) */
+  gestionSorteo: SorteoUI | null = null;
+
+  /** Plantillas de sorteo guardadas */
+  plantillas: PlantillaSorteo[] = [];
+
+  /** Plantilla aplicada al formulario de creación (se envía con el sorteo) */
+  plantillaEnUso: number | null = null;
+
+  /** Panel de plantillas abierto con el formulario de creación de ese momento (null = cerrado) */
+  borradorPlantilla: BorradorPlantilla | null = null;
+
+  /** Sorteo que se está cancelando (para deshabilitar su botón) */
+  cancelandoId: number | null = null;
+
+  /** Sorteo que se está abriendo a la venta (para deshabilitar su botón) */
+  abriendoId: number | null = null;
+
   /** Overlay de generación */
   generando = false;
   genMsg = '';
   genProgress = 0;
-  private progSub?: Subscription;
+  genGenerados = 0;
+  genTotal = 0;
+  private genSub?: Subscription;
+  private genFin?: (r: ResultadoGeneracion) => void;
 
   constructor(
     private fb: FormBuilder,
     private sorteosSrv: SorteosService,
+    private resultadosSrv: ResultadosService,
+    private premiosSrv: PremiosService,
+    private ventasSrv: VentasService,
+    private vendedorSrv: VendedorService,
+    public estadoSrv: EstadoSorteoService,
+    private fraccionesSrv: FraccionesService,
+    private generacionSrv: GeneracionBilletesService,
+    private plantillasSrv: PlantillasService,
+    private reloj: RelojService,
     private router: Router,
   ) {
     /**
      * Configuración y validación del formulario de creación.
      * - nombre: requerido, máximo 80 caracteres
-     * - fechaSorteo: requerida y no puede ser una fecha pasada
-     * - cantidad: [1..10000]
+     * - fechaSorteo: fecha y hora requeridas, no pasadas (en la zona del sorteo)
+     * - zonaHoraria: zona del sorteo (por defecto la del environment)
+     * - minutosCierre: [0..1440] minutos antes del sorteo en que cierran las ventas
+     * - cifras: [1..6] dígitos del número del billete
+     * - desde / hasta: rango de números (desde ≤ hasta < 10^cifras)
+     * - series: [0..999] series por número (0 = sin series)
+     * - cantidad resultante (rango × series): [1..10000]
+     * - fracciones: [1..10] fracciones en que se vende cada billete
      * - precio: [0..9_999_999_999.99]
+     * - premios: plan de premios (cada nivel con nombre, regla y valor)
      */
     this.createForm = this.fb.nonNullable.group({
       nombre: this.fb.nonNullable.control('', {
@@ -113,49 +270,222 @@ export class SorteosComponent implements OnInit {
       fechaSorteo: this.fb.nonNullable.control('', {
         validators: [Validators.required, this.fechaNoPasadaValidator],
       }),
-      cantidad: this.fb.nonNullable.control(100, {
-        validators: [Validators.required, Validators.min(1), Validators.max(10000)],
+      zonaHoraria: this.fb.nonNullable.control(environment.zonaHoraria, {
+        validators: [Validators.required],
+      }),
+      minutosCierre: this.fb.nonNullable.control(environment.minutosCierre, {
+        validators: [Validators.required, Validators.min(0), Validators.max(1440)],
+      }),
+      cifras: this.fb.nonNullable.control(4, {
+        validators: [Validators.required, Validators.min(1), Validators.max(6)],
+      }),
+      desde: this.fb.nonNullable.control(0, {
+        validators: [Validators.required, Validators.min(0)],
+      }),
+      hasta: this.fb.nonNullable.control(99, {
+        validators: [Validators.required, Validators.min(0)],
+      }),
+      series: this.fb.nonNullable.control(0, {
+        validators: [Validators.required, Validators.min(0), Validators.max(999)],
+      }),
+      fracciones: this.fb.nonNullable.control(1, {
+        validators: [Validators.required, Validators.min(1), Validators.max(10)],
       }),
       precio: this.fb.nonNullable.control(10000, {
         validators: [Validators.required, Validators.min(0), Validators.max(9_999_999_999.99)],
       }),
+      premios: this.fb.array<PremioForm>([this.crearPremioForm()]),
+    }, { validators: [this.numeracionValidator] });
+
+    this.editForm = this.fb.nonNullable.group({
+      nombre: this.fb.nonNullable.control('', {
+        validators: [Validators.required, Validators.maxLength(80)],
+      }),
+      fechaSorteo: this.fb.nonNullable.control('', {
+        validators: [Validators.required, this.fechaNoPasadaValidator],
+      }),
+      zonaHoraria: this.fb.nonNullable.control(environment.zonaHoraria, {
+        validators: [Validators.required],
+      }),
+      minutosCierre: this.fb.nonNullable.control(environment.minutosCierre, {
+        validators: [Validators.required, Validators.min(0), Validators.max(1440)],
+      }),
+    });
+
+    /** Filtros del listado: cualquier cambio vuelve a la primera página */
+    this.filtroForm = this.fb.nonNullable.group({
+      q: this.fb.nonNullable.control(''),
+      estado: this.fb.nonNullable.control<EstadoSorteo | ''>(''),
+      desde: this.fb.nonNullable.control(''),
+      hasta: this.fb.nonNullable.control(''),
+      orden: this.fb.nonNullable.control<OrdenSorteos>('vigentes'),
+      direccion: this.fb.nonNullable.control<'asc' | 'desc'>('asc'),
+    });
+    this.filtroForm.valueChanges.pipe(debounceTime(300)).subscribe(() => {
+      this.pagina = 0;
+      this.cargarSorteos();
     });
+
+    // La validez de la fecha depende de la zona y del cierre elegidos
+    for (const form of [this.createForm, this.editForm] as FormGroup[]) {
+      merge(form.get('zonaHoraria')!.valueChanges, form.get('minutosCierre')!.valueChanges).subscribe(() =>
+        form.get('fechaSorteo')!.updateValueAndValidity({ emitEvent: false })
+      );
+    }
   }
 
   /** Inicializa el componente cargando los sorteos */
   ngOnInit(): void {
     this.cargarSorteos();
+    this.cargarPlantillas();
+  }
+
+  /** Al salir se detiene la generación en curso; queda pendiente para reanudarla */
+  ngOnDestroy(): void {
+    this.genSub?.unsubscribe();
   }
 
   /** ==========================================================
    *  UTILIDADES DE FECHA
    * ========================================================== */
 
-  /** Devuelve la fecha de hoy a las 00:00 (sin horas/minutos/segundos) */
-  private get todayStart(): Date {
-    const d = new Date();
-    d.setHours(0, 0, 0, 0);
-    return d;
-  }
-
-  /** Fecha mínima (hoy) para usar en controles tipo date */
+  /** Fecha/hora mínima (hoy a las 00:00) para usar en controles tipo datetime-local */
   minDateStr = (() => {
     const d = new Date();
     const yyyy = d.getFullYear();
     const mm = String(d.getMonth() + 1).padStart(2, '0');
     const dd = String(d.getDate()).padStart(2, '0');
-    return `${yyyy}-${mm}-${dd}`;
+    return `${yyyy}-${mm}-${dd}T00:00`;
   })();
 
-  /** Validador personalizado: no permite fechas anteriores a hoy */
+  /**
+   * Validador personalizado: la fecha/hora del sorteo (en la zona elegida en
+   * el formulario) no puede haber pasado, ni su cierre de ventas (con la hora
+   * del servidor, no la del equipo).
+   */
   private fechaNoPasadaValidator = (ctrl: AbstractControl): ValidationErrors | null => {
     const val = ctrl.value;
     if (!val) return null;
-    const pick = new Date(val);
-    pick.setHours(0, 0, 0, 0);
-    return pick < this.todayStart ? { fechaPasada: true } : null;
+    const zona = ctrl.parent?.get('zonaHoraria')?.value || environment.zonaHoraria;
+    const minutos = Number(ctrl.parent?.get('minutosCierre')?.value ?? 0);
+    const sorteo = this.reloj.instante(val, zona).getTime();
+    const ahora = this.reloj.ahora().getTime();
+    if (sorteo <= ahora) return { fechaPasada: true };
+    return sorteo - minutos * 60_000 <= ahora ? { cierrePasado: true } : null;
+  };
+
+  /** Mensaje para los errores de fecha del formulario (null si no hay) */
+  private mensajeFecha(ctrl: AbstractControl): string | null {
+    if (ctrl.errors?.['fechaPasada']) return 'La fecha y hora del sorteo ya pasaron.';
+    if (ctrl.errors?.['cierrePasado']) return 'Con ese cierre de ventas, el sorteo ya estaría cerrado.';
+    return null;
+  }
+
+  /** ==========================================================
+   *  PLAN DE PREMIOS
+   * ========================================================== */
+
+  /** Acceso rápido al arreglo de premios del formulario */
+  get premiosArray(): FormArray<PremioForm> {
+    return this.createForm.controls.premios;
+  }
+
+  /** Crea el formulario de un nivel de premio (por defecto, el premio mayor) */
+  private crearPremioForm(p: Partial<Premio> = {}): PremioForm {
+    return this.fb.nonNullable.group(
+      {
+        nombre: this.fb.nonNullable.control(p.nombre ?? 'Premio mayor', {
+          validators: [Validators.required, Validators.maxLength(60)],
+        }),
+        tipo: this.fb.nonNullable.control<TipoPremio>(p.tipo ?? 'MAYOR'),
+        cifras: this.fb.control<number | null>(p.cifras ?? null),
+        valor: this.fb.nonNullable.control(p.valor ?? 1_000_000, {
+          validators: [Validators.required, Validators.min(1), Validators.max(9_999_999_999.99)],
+        }),
+      },
+      { validators: [this.cifrasPremioValidator] }
+    );
+  }
+
+  /** Validador de grupo: ULTIMAS_CIFRAS requiere cifras entre 1 y 6 */
+  private cifrasPremioValidator = (ctrl: AbstractControl): ValidationErrors | null => {
+    if (ctrl.get('tipo')?.value !== 'ULTIMAS_CIFRAS') return null;
+    const cifras = Number(ctrl.get('cifras')?.value ?? 0);
+    return Number.isInteger(cifras) && cifras >= 1 && cifras <= 6 ? null : { cifras: true };
+  };
+
+  agregarPremio(): void {
+    this.premiosArray.push(this.crearPremioForm({ nombre: '', tipo: 'SECO', valor: 100_000 }));
+  }
+
+  quitarPremio(i: number): void {
+    this.premiosArray.removeAt(i);
+  }
+
+  /** ==========================================================
+   *  NUMERACIÓN DE BILLETES
+   * ========================================================== */
+
+  /**
+   * Validador de grupo de la numeración:
+   * - rango: "desde" no puede ser mayor que "hasta".
+   * - rangoCifras: "hasta" debe caber en las cifras elegidas (ej. 4 → máx. 9999).
+   * - cantidadMax: rango × series no puede superar 10.000 billetes.
+   */
+  private numeracionValidator = (ctrl: AbstractControl): ValidationErrors | null => {
+    const cifras = Number(ctrl.get('cifras')?.value ?? 0);
+    const desde = Number(ctrl.get('desde')?.value ?? 0);
+    const hasta = Number(ctrl.get('hasta')?.value ?? 0);
+    const series = Number(ctrl.get('series')?.value ?? 0);
+    if (desde > hasta) return { rango: true };
+    if (cifras >= 1 && hasta >= 10 ** cifras) return { rangoCifras: true };
+    if (cantidadBilletes({ desde, hasta, series }) > 10000) return { cantidadMax: true };
+    return null;
   };
 
+  /** Cantidad de billetes que generará la numeración del formulario */
+  get cantidadGenerada(): number {
+    return cantidadBilletes(this.createForm.getRawValue());
+  }
+
+  /** Ejemplo del primer y último código generado (ej. "0000 … 0099-004") */
+  get ejemploNumeracion(): string {
+    const { cifras, desde, hasta, series } = this.createForm.getRawValue();
+    const ultimaSerie = series > 0 ? String(series - 1).padStart(3, '0') : null;
+    return `${formatearNumeroBillete(desde, cifras, series > 0 ? '000' : null)} … ` +
+      formatearNumeroBillete(hasta, cifras, ultimaSerie);
+  }
+
+  /** Convierte el arreglo del formulario en el plan de premios a enviar */
+  private planDePremios(): Premio[] {
+    return this.premiosArray.getRawValue().map((p) => ({
+      nombre: p.nombre.trim(),
+      tipo: p.tipo,
+      cifras: p.tipo === 'ULTIMAS_CIFRAS' ? Number(p.cifras) : null,
+      valor: Number(p.valor),
+    }));
+  }
+
+  /** Valor de una fracción del precio del formulario (precio del billete entero / fracciones) */
+  get precioFraccion(): number {
+    const { precio, fracciones } = this.createForm.getRawValue();
+    return this.fraccionesSrv.precioFraccion({ estado: 'DISPONIBLE', precio, fracciones });
+  }
+
+  /** Parte del premio que cobra una compra (en billetes fraccionados, según sus fracciones) */
+  partePremio(premio: Premio, it: CompraItem): number {
+    return (Number(premio.valor || 0) * it.fracciones) / it.totalFracciones;
+  }
+
+  /** Premio obtenido por una compra del detalle (según el resultado y el plan del sorteo) */
+  premioDe(s: SorteoUI, it: CompraItem): Premio | null {
+    return this.premiosSrv.evaluarBillete(
+      { numero: Number(it.numero), serie: it.serie },
+      this.getResultado(s.id),
+      s.premios
+    );
+  }
+
   /** ==========================================================
    *  OVERLAY DE CARGA / PROGRESO
    * ========================================================== */
@@ -163,19 +493,12 @@ export class SorteosComponent implements OnInit {
   private startProgreso(msg = 'Generando billetes…') {
     this.generando = true;
     this.genMsg = msg;
-    this.genProgress = 5;
-
-    this.progSub?.unsubscribe();
-    // Simulación de progreso hasta 90% (si no hay progreso real del backend)
-    this.progSub = interval(250).subscribe(() => {
-      const cap = 90;
-      const inc = Math.max(0.3, (cap - this.genProgress) / 25);
-      this.genProgress = Math.min(cap, this.genProgress + inc);
-    });
+    this.genProgress = 0;
+    this.genGenerados = 0;
+    this.genTotal = 0;
   }
 
   private endProgreso() {
-    this.progSub?.unsubscribe();
     this.genProgress = 100;
     setTimeout(() => {
       this.generando = false;
@@ -185,7 +508,6 @@ export class SorteosComponent implements OnInit {
   }
 
   private failProgreso(msg = 'Error generando billetes') {
-    this.progSub?.unsubscribe();
     this.genMsg = msg;
     setTimeout(() => {
       this.generando = false;
@@ -194,6 +516,174 @@ export class SorteosComponent implements OnInit {
     }, 700);
   }
 
+  /**
+   * Sigue una generación por lotes en el overlay con su progreso real.
+   * Resuelve cuando termina, falla o el vendedor la cancela.
+   */
+  private seguirGeneracion(progreso$: Observable<ProgresoGeneracion>): Promise<ResultadoGeneracion> {
+    return new Promise((resolve) => {
+      this.genFin = (r) => {
+        this.genFin = undefined;
+        resolve(r);
+      };
+      this.genSub = progreso$.subscribe({
+        next: (p) => {
+          this.genGenerados = p.generados;
+          this.genTotal = p.total;
+          this.genProgress = this.generacionSrv.porcentaje(p);
+          this.genMsg = `Generando billetes (lote ${Math.min(p.lote + 1, p.lotes)} de ${p.lotes})…`;
+        },
+        error: () => this.genFin?.('error'),
+        complete: () => this.genFin?.('completada'),
+      });
+    });
+  }
+
+  /** Botón "Cancelar" del overlay: detiene la generación (lo generado se conserva) */
+  cancelarGeneracion(): void {
+    this.genSub?.unsubscribe();
+    this.genFin?.('cancelada');
+  }
+
+  /** ==========================================================
+   *  GENERACIÓN DE BILLETES POR LOTES
+   * ========================================================== */
+
+  /**
+   * Genera billetes de un sorteo y, si se pide, al completarse lo abre a
+   * la venta. Si la generación falla o se cancela, pregunta si reanudarla,
+   * descartarla o dejarla pendiente.
+   *
+   * @param s Sorteo al que se le generan billetes.
+   * @param progreso$ Generación a seguir (iniciar o reanudar).
+   * @param abrir true para abrir el sorteo (BORRADOR) al terminar.
+   * @returns true si se generaron todos los billetes (y, si se pidió, quedó abierto).
+   */
+  private async generarBilletes(
+    s: Pick<Sorteo, 'id' | 'nombre' | 'estado'>,
+    progreso$: Observable<ProgresoGeneracion>,
+    abrir = false
+  ): Promise<boolean> {
+    const resultado = await this.seguirGeneracion(progreso$);
+
+    if (resultado === 'completada' && !abrir) {
+      this.endProgreso();
+      return true;
+    }
+
+    if (resultado === 'completada') {
+      this.genMsg = 'Abriendo ventas…';
+      try {
+        await firstValueFrom(this.sorteosSrv.abrir(s.id));
+        this.endProgreso();
+        return true;
+      } catch {
+        this.failProgreso('No se pudo abrir el sorteo');
+        Swal.fire({
+          title: 'Billetes generados',
+          text: 'Los billetes se generaron, pero no se pudo abrir el sorteo a la venta. Ábrelo desde la lista.',
+          icon: 'warning',
+          confirmButtonText: 'Entendido',
+          confirmButtonColor: '#06b6d4',
+          background: '#0f172a',
+          color: '#e6edf7',
+        });
+        return false;
+      }
+    }
+
+    this.failProgreso(resultado === 'cancelada' ? 'Generación cancelada' : 'Error generando billetes');
+    return this.resolverGeneracionIncompleta(s, resultado, abrir);
+  }
+
+  /**
+   * Decide qué hacer con una generación que quedó a medias.
+   * - Al crear el sorteo (abrir = true), un sorteo sin ningún billete no
+   *   se deja en borrador: si no se reanuda, se descarta (se cancela).
+   * - Al agregar un bloque, descartar solo olvida lo que faltaba generar.
+   */
+  private async resolverGeneracionIncompleta(
+    s: Pick<Sorteo, 'id' | 'nombre' | 'estado'>,
+    resultado: ResultadoGeneracion,
+    abrir: boolean
+  ): Promise<boolean> {
+    const trabajo = this.generacionSrv.pendiente(s.id);
+    const generados = trabajo?.generados ?? 0;
+    const total = trabajo?.total ?? 0;
+
+    const r = await Swal.fire({
+      title: resultado === 'cancelada' ? 'Generación cancelada' : 'Generación interrumpida',
+      html: `<p>Se generaron <b>${generados}</b> de <b>${total}</b> billete(s) de <b>${escaparHtml(s.nombre)}</b>.</p>`
+        + `<p>Puedes reanudar la generación donde quedó${abrir ? '; mientras tanto el sorteo sigue en borrador' : ''}.</p>`,
+      icon: 'warning',
+      showDenyButton: true,
+      showCancelButton: !abrir || generados > 0,
+      confirmButtonText: 'Reanudar',
+      denyButtonText: abrir ? 'Descartar sorteo' : 'Descartar lo pendiente',
+      cancelButtonText: abrir ? 'Dejar en borrador' : 'Reanudar más tarde',
+      confirmButtonColor: '#06b6d4',
+      background: '#0f172a',
+      color: '#e6edf7',
+    });
+
+    if (r.isConfirmed) {
+      this.startProgreso('Reanudando generación…');
+      return this.generarBilletes(s, this.generacionSrv.reanudar(s.id), abrir);
+    }
+    if (abrir && (r.isDenied || generados === 0)) {
+      await this.descartarSorteo(s);
+    } else if (r.isDenied) {
+      this.generacionSrv.descartar(s.id);
+    }
+    return false;
+  }
+
+  /** Cancela en el backend un sorteo cuya generación no se completó */
+  private async descartarSorteo(s: Pick<Sorteo, 'id'>): Promise<void> {
+    try {
+      await firstValueFrom(
+        this.sorteosSrv.cancelar(s.id, 'Generación de billetes no completada', this.vendedorSrv.id)
+      );
+      this.generacionSrv.descartar(s.id);
+    } catch {
+      Swal.fire({
+        title: 'Error',
+        text: 'No se pudo descartar el sorteo. Puedes cancelarlo desde la lista.',
+        icon: 'error',
+        confirmButtonText: 'Cerrar',
+        confirmButtonColor: '#ef4444',
+        background: '#0f172a',
+        color: '#e6edf7',
+      });
+    }
+  }
+
+  /** Trabajo de generación pendiente del sorteo (null si no tiene o ya no se puede editar) */
+  generacionPendiente(s: SorteoUI) {
+    return this.estadoSrv.puedeEditar(s) ? this.generacionSrv.pendiente(s.id) : null;
+  }
+
+  /** Reanuda desde la lista la generación pendiente de un sorteo */
+  async reanudarGeneracion(s: SorteoUI) {
+    if (this.generando || !this.generacionPendiente(s)) return;
+    this.startProgreso('Reanudando generación…');
+    const completa = await this.generarBilletes(s, this.generacionSrv.reanudar(s.id));
+    this.cargarSorteos();
+    if (completa) {
+      Swal.fire({
+        title: 'Billetes generados',
+        text: s.estado === 'BORRADOR'
+          ? 'Se generaron todos los billetes. Ya puedes abrir el sorteo a la venta.'
+          : 'Se generaron todos los billetes pendientes.',
+        icon: 'success',
+        confirmButtonText: 'Entendido',
+        confirmButtonColor: '#06b6d4',
+        background: '#0f172a',
+        color: '#e6edf7',
+      });
+    }
+  }
+
   /** ==========================================================
    *  CREAR SORTEO Y GENERAR BILLETES
    * ========================================================== */
@@ -203,16 +693,31 @@ export class SorteosComponent implements OnInit {
 
     // Validaciones del formulario
     if (this.createForm.invalid) {
-      if (this.createForm.get('fechaSorteo')?.errors?.['fechaPasada']) {
-        this.createMsg = 'La fecha del sorteo no puede ser anterior a hoy.';
-      } else if (this.createForm.get('cantidad')?.errors?.['min']) {
-        this.createMsg = 'La cantidad de boletas debe ser al menos 1.';
-      } else if (this.createForm.get('cantidad')?.errors?.['max']) {
-        this.createMsg = 'Máximo permitido: 10.000 boletas.';
+      const errorFecha = this.mensajeFecha(this.createForm.controls.fechaSorteo);
+      if (errorFecha) {
+        this.createMsg = errorFecha;
+      } else if (this.createForm.get('minutosCierre')?.invalid) {
+        this.createMsg = 'El cierre de ventas debe estar entre 0 y 1440 minutos antes del sorteo.';
+      } else if (this.createForm.get('cifras')?.invalid) {
+        this.createMsg = 'Las cifras del número deben estar entre 1 y 6.';
+      } else if (this.createForm.get('series')?.invalid) {
+        this.createMsg = 'Las series deben estar entre 0 y 999.';
+      } else if (this.createForm.get('desde')?.invalid || this.createForm.get('hasta')?.invalid) {
+        this.createMsg = 'El rango de números no puede ser negativo.';
+      } else if (this.createForm.errors?.['rango']) {
+        this.createMsg = 'El número inicial no puede ser mayor que el final.';
+      } else if (this.createForm.errors?.['rangoCifras']) {
+        this.createMsg = 'El número final no cabe en las cifras elegidas.';
+      } else if (this.createForm.errors?.['cantidadMax']) {
+        this.createMsg = 'Máximo permitido: 10.000 boletas (rango × series).';
+      } else if (this.createForm.get('fracciones')?.invalid) {
+        this.createMsg = 'Las fracciones por billete deben estar entre 1 y 10.';
       } else if (this.createForm.get('precio')?.errors?.['min']) {
         this.createMsg = 'El precio no puede ser negativo.';
       } else if (this.createForm.get('precio')?.errors?.['max']) {
         this.createMsg = 'El precio excede el máximo permitido.';
+      } else if (this.premiosArray.invalid) {
+        this.createMsg = 'Revisa el plan de premios (nombre, valor y cifras).';
       } else {
         this.createMsg = 'Revisa los campos del formulario.';
       }
@@ -220,30 +725,85 @@ export class SorteosComponent implements OnInit {
     }
 
     this.creando = true;
-    const { nombre, fechaSorteo, cantidad, precio } = this.createForm.getRawValue();
+    const { nombre, fechaSorteo, zonaHoraria, minutosCierre, cifras, desde, hasta, series, fracciones, precio } =
+      this.createForm.getRawValue();
+    const premios = this.planDePremios();
+    const opciones: OpcionesGeneracion = {
+      cifras: Number(cifras),
+      desde: Number(desde),
+      hasta: Number(hasta),
+      series: Number(series),
+      precio: Number(precio),
+    };
 
+    // 1) Crear sorteo (el backend lo deja en BORRADOR hasta abrirlo)
+    let sorteo: Sorteo;
     try {
-      // 1) Crear sorteo
       this.startProgreso('Creando sorteo…');
-      const sorteo = await firstValueFrom(this.sorteosSrv.crear({ nombre, fechaSorteo }));
+      sorteo = await firstValueFrom(this.sorteosSrv.crear({
+        nombre,
+        fechaSorteo: `${fechaSorteo}:00`,
+        zonaHoraria,
+        minutosCierre: Number(minutosCierre),
+        cifras: opciones.cifras,
+        desde: opciones.desde,
+        hasta: opciones.hasta,
+        series: opciones.series,
+        fracciones: Number(fracciones),
+        precio: opciones.precio,
+        premios,
+        plantillaId: this.plantillaEnUso,
+      }));
+    } catch (e) {
+      console.error(e);
+      this.failProgreso('Error creando sorteo');
+      this.createMsg = 'Error creando sorteo.';
+      this.creando = false;
+      Swal.fire({
+        title: 'Error',
+        text: 'No se pudo crear el sorteo. Intenta de nuevo.',
+        icon: 'error',
+        confirmButtonText: 'Cerrar',
+        confirmButtonColor: '#ef4444',
+        background: '#0f172a',
+        color: '#e6edf7',
+      });
+      return;
+    }
 
-      // 2) Generar billetes
-      this.genMsg = `Generando ${cantidad} billete(s)…`;
-      this.genProgress = Math.max(this.genProgress, 25);
+    // El sorteo ya existe: el formulario se limpia para no crearlo dos veces
+    this.createForm.reset({
+      nombre: '',
+      fechaSorteo: '',
+      zonaHoraria: environment.zonaHoraria,
+      minutosCierre: environment.minutosCierre,
+      cifras: 4,
+      desde: 0,
+      hasta: 99,
+      series: 0,
+      fracciones: 1,
+      precio: 10000,
+    });
+    this.premiosArray.clear();
+    this.premiosArray.push(this.crearPremioForm());
+    this.plantillaEnUso = null;
 
-      if (sorteo?.id) {
-        await firstValueFrom(
-          this.sorteosSrv.generarBilletes(sorteo.id, Number(cantidad), Number(precio))
-        );
+    try {
+      // 2) Generar billetes por lotes y abrir a la venta
+      const abierto = await this.generarBilletes(
+        { ...sorteo, estado: sorteo.estado ?? 'BORRADOR' },
+        this.generacionSrv.iniciar(sorteo.id, opciones),
+        true
+      );
+      this.cargarSorteos();
+      this.cargarProgramados();
+      if (!abierto) {
+        this.createMsg = 'El sorteo se creó, pero sus billetes no se generaron por completo.';
+        return;
       }
 
-      // 3) Cierre del overlay y feedback
-      this.endProgreso();
-
+      // 3) Feedback
       this.createMsg = 'Sorteo creado y billetes generados correctamente.';
-      this.createForm.reset({ nombre: '', fechaSorteo: '', cantidad: 100, precio: 10000 });
-      this.cargarSorteos();
-
       Swal.fire({
         title: 'Sorteo creado',
         text: 'El sorteo y sus billetes fueron generados correctamente.',
@@ -253,20 +813,6 @@ export class SorteosComponent implements OnInit {
         background: '#0f172a',
         color: '#e6edf7',
       });
-
-    } catch (e) {
-      console.error(e);
-      this.failProgreso();
-      this.createMsg = 'Error creando sorteo.';
-      Swal.fire({
-        title: 'Error',
-        text: 'No se pudo crear el sorteo. Intenta de nuevo.',
-        icon: 'error',
-        confirmButtonText: 'Cerrar',
-        confirmButtonColor: '#ef4444',
-        background: '#0f172a',
-        color: '#e6edf7',
-      });
     } finally {
       this.creando = false;
     }
@@ -276,84 +822,71 @@ export class SorteosComponent implements OnInit {
    *  CARGA DE SORTEOS Y CONTADORES
    * ========================================================== */
 
+  /**
+   * Carga la página actual del listado con los contadores calculados
+   * por el backend (un solo pedido, sin descargar billetes).
+   */
   cargarSorteos() {
     this.cargandoSorteos = true;
+    const { q, estado, desde, hasta, orden, direccion } = this.filtroForm.getRawValue();
 
     this.sorteosSrv
-      .listar()
-      .pipe(catchError(() => of([] as Sorteo[])))
-      .subscribe(
-        (lista: Sorteo[]) => {
-          // Calcular vendidos/disponibles para sorteos con billetes embebidos
-          const preliminares: SorteoUI[] = (lista ?? []).map((s) => {
-            const cont = this.contar(s as any);
-            return { ...(s as Sorteo), vendidos: cont.vendidos, disponibles: cont.disponibles };
-          });
-
-          // Ordenar: vigentes primero, luego finalizados por fecha
-          this.sorteos = [...preliminares].sort((a, b) => {
-            const ap = this.isPasado(a) ? 1 : 0;
-            const bp = this.isPasado(b) ? 1 : 0;
-            if (ap !== bp) return ap - bp;
-            return new Date(a.fechaSorteo).getTime() - new Date(b.fechaSorteo).getTime();
-          });
-
-          // Obtener sorteos sin billetes embebidos o contadores nulos
-          const aCompletar = this.sorteos.filter(
-            (s) => !this.hasBilletesEmbebidos(s) || s.vendidos + s.disponibles === 0
-          );
-
-          if (aCompletar.length === 0) {
-            this.cargandoSorteos = false;
-            return;
-          }
+      .resumen({ q, estado, desde, hasta, orden, direccion, pagina: this.pagina, tamano: this.tamanoPagina })
+      .pipe(catchError(() => of<Pagina<ResumenSorteo>>({ contenido: [], total: 0, pagina: 0, tamano: this.tamanoPagina })))
+      .subscribe((p) => {
+        this.sorteos = p?.contenido ?? [];
+        this.totalSorteos = p?.total ?? 0;
+        this.cargandoSorteos = false;
+      });
+  }
 
-          // Consultar billetes por sorteo (en paralelo)
-          const llamadas = aCompletar.map((s) =>
-            this.sorteosSrv.billetesPorSorteo(s.id).pipe(
-              map((bs: Billete[]) => ({ id: s.id, ...this.contar({ billetes: bs } as any) })),
-              catchError(() => of({ id: s.id, vendidos: 0, disponibles: 0 }))
-            )
-          );
-
-          forkJoin(llamadas).subscribe((resumenes) => {
-            const mapa = new Map(resumenes.map((r) => [r.id, r]));
-            this.sorteos = this.sorteos.map((s) => {
-              const r = mapa.get(s.id);
-              return r ? { ...s, vendidos: r.vendidos, disponibles: r.disponibles } : s;
-            });
-            this.cargandoSorteos = false;
-          });
-        },
-        () => (this.cargandoSorteos = false)
-      );
+  /** Cantidad de páginas del listado */
+  get paginas(): number {
+    return totalPaginas({ total: this.totalSorteos, tamano: this.tamanoPagina });
+  }
+
+  /** Cambia de página del listado */
+  irAPagina(pagina: number): void {
+    if (pagina < 0 || pagina >= this.paginas || pagina === this.pagina) return;
+    this.pagina = pagina;
+    this.cargarSorteos();
+  }
+
+  /** Quita la búsqueda y los filtros del listado */
+  limpiarFiltros(): void {
+    this.filtroForm.reset();
   }
 
-  /** True si la fecha del sorteo ya pasó */
-  isPasado(s: { fechaSorteo: string | Date }): boolean {
-    const d = new Date(s.fechaSorteo);
-    d.setHours(0, 0, 0, 0);
-    return d < this.todayStart;
+  /** True si el sorteo tiene (o puede tener) resultado: cerrado o jugado */
+  tieneResultado(s: SorteoUI): boolean {
+    const e = this.estadoSrv.estado(s);
+    return e === 'CERRADO' || e === 'JUGADO';
   }
 
   /** ==========================================================
    *  NAVEGACIÓN Y DETALLE DE COMPRAS
    * ========================================================== */
 
-  /** Navega a la vista de venta si el sorteo sigue vigente */
+  /** Navega a la vista de venta si el sorteo está abierto */
   irAVenta(sorteoId: number): void {
     if (!sorteoId) return;
     const s = this.sorteos.find((x) => x.id === sorteoId);
-    if (s && this.isPasado(s)) {
-      this.createMsg = 'Este sorteo ya finalizó. No es posible vender boletas.';
+    if (s && !this.estadoSrv.puedeVender(s)) {
+      this.createMsg = `Este sorteo está ${this.estadoSrv.etiqueta(this.estadoSrv.estado(s)).toLowerCase()}. No es posible vender boletas.`;
       return;
     }
     this.router.navigate(['/venta', sorteoId]);
   }
 
-  /** Abre el modal de detalle para sorteos finalizados */
-  abrirDetalleFinalizado(s: SorteoUI): void {
-    if (!this.isPasado(s)) return;
+  /** Navega al registro del resultado de un sorteo finalizado */
+  irAResultado(sorteoId: number): void {
+    if (!sorteoId) return;
+    this.router.navigate(['/sorteos', sorteoId, 'resultado']);
+  }
+
+  /** Abre el modal de detalle de ventas (abiertos: con anulación; cerrados/jugados: con resultado) */
+  abrirDetalle(s: SorteoUI): void {
+    if (!this.estadoSrv.puedeVerDetalle(s)) return;
     this.detalleSorteo = s;
     this.detalleAbierto = true;
 
@@ -366,6 +899,10 @@ export class SorteosComponent implements OnInit {
     if (this.comprasBySorteo[s.id].items.length === 0) {
       this.cargarComprasSorteo(s.id);
     }
+    // Cargar resultado si aún no se ha consultado
+    if (this.tieneResultado(s) && !(s.id in this.resultadoBySorteo)) {
+      this.cargarResultado(s.id);
+    }
   }
 
   /** Cierra el modal */
@@ -374,10 +911,467 @@ export class SorteosComponent implements OnInit {
     this.detalleSorteo = null;
   }
 
-  /** Permite cerrar el modal presionando la tecla ESC */
+  /** Permite cerrar los modales presionando la tecla ESC */
   @HostListener('document:keydown.escape')
   onEsc() {
-    if (this.detalleAbierto) this.cerrarDetalle();
+    if (this.edicionSorteo) this.cerrarEdicion();
+    else if (this.gestionSorteo) this.cerrarGestion();
+    else if (this.borradorPlantilla) this.cerrarPlantillas();
+    else if (this.detalleAbierto) this.cerrarDetalle();
+  }
+
+  /** ==========================================================
+   *  EDICIÓN / REPROGRAMACIÓN DE SORTEOS
+   * ========================================================== */
+
+  /** Abre el modal de edición con los datos actuales del sorteo */
+  abrirEdicion(s: SorteoUI): void {
+    if (!this.estadoSrv.puedeEditar(s)) return;
+    this.edicionSorteo = s;
+    this.editMsg = '';
+    const zona = this.estadoSrv.zona(s);
+    this.editForm.reset({
+      nombre: s.nombre,
+      fechaSorteo: this.reloj.enZona(this.estadoSrv.fechaSorteo(s), zona),
+      zonaHoraria: zona,
+      minutosCierre: s.minutosCierre ?? environment.minutosCierre,
+    });
+  }
+
+  /** Cierra el modal de edición */
+  cerrarEdicion(): void {
+    this.edicionSorteo = null;
+    this.editMsg = '';
+  }
+
+  /** Guarda el nuevo nombre, fecha/hora, zona y/o cierre de ventas del sorteo */
+  async guardarEdicion() {
+    const s = this.edicionSorteo;
+    if (!s) return;
+
+    if (this.editForm.invalid) {
+      this.editForm.markAllAsTouched();
+      this.editMsg = this.mensajeFecha(this.editForm.controls.fechaSorteo) ?? 'Revisa los campos del formulario.';
+      return;
+    }
+
+    const { nombre, fechaSorteo, zonaHoraria, minutosCierre } = this.editForm.getRawValue();
+    const cambios = {
+      nombre: nombre.trim(),
+      fechaSorteo: `${fechaSorteo}:00`,
+      zonaHoraria,
+      minutosCierre: Number(minutosCierre),
+    };
+    this.guardandoEdicion = true;
+    try {
+      const actualizado = await firstValueFrom(this.sorteosSrv.actualizar(s.id, cambios));
+      this.sorteos = this.sorteos.map((x) => (x.id === s.id ? { ...x, ...cambios, ...(actualizado ?? {}) } : x));
+      this.cerrarEdicion();
+
+      Swal.fire({
+        title: 'Sorteo actualizado',
+        text: 'Los cambios del sorteo fueron guardados.',
+        icon: 'success',
+        confirmButtonText: 'Entendido',
+        confirmButtonColor: '#06b6d4',
+        background: '#0f172a',
+        color: '#e6edf7',
+      });
+    } catch (err: any) {
+      this.editMsg = err?.error?.message || 'No se pudo actualizar el sorteo. Intenta de nuevo.';
+    } finally {
+      this.guardandoEdicion = false;
+    }
+  }
+
+  /** ==========================================================
+   *  GESTIÓN DE BILLETES (BLOQUES Y PRECIOS)
+   * ========================================================== */
+
+  /** Abre el panel de billetes del sorteo (GestionBilletesComponent) */
+  abrirGestion(s: SorteoUI): void {
+    if (!this.estadoSrv.puedeEditar(s)) return;
+    this.gestionSorteo = s;
+  }
+
+  /** Cierra el panel de billetes */
+  cerrarGestion(): void {
+    this.gestionSorteo = null;
+  }
+
+  /**
+   * Agrega al sorteo el bloque validado en el panel, con la misma
+   * generación por lotes de la creación. Al terminar se recalculan el
+   * total y los contadores del sorteo con sus billetes reales.
+   */
+  async agregarBloque(s: SorteoUI, opciones: OpcionesGeneracion) {
+    if (this.generando) return;
+
+    this.cerrarGestion();
+    this.startProgreso('Agregando billetes…');
+    const completa = await this.generarBilletes(s, this.generacionSrv.iniciar(s.id, opciones));
+    this.cargarSorteos();
+
+    if (completa) {
+      Swal.fire({
+        title: 'Billetes agregados',
+        text: `Se agregaron ${cantidadBilletes(opciones)} billete(s) a ${s.nombre}.`,
+        icon: 'success',
+        confirmButtonText: 'Entendido',
+        confirmButtonColor: '#06b6d4',
+        background: '#0f172a',
+        color: '#e6edf7',
+      });
+    }
+  }
+
+  /** ==========================================================
+   *  CLONAR SORTEOS
+   * ========================================================== */
+
+  /**
+   * Copia un sorteo al formulario de creación: misma configuración,
+   * numeración, precio y premios, una semana después (o las semanas
+   * necesarias para que su cierre de ventas aún no haya pasado).
+   * La numeración y el precio se leen del sorteo; si es anterior a que
+   * se guardaran, el formulario conserva sus valores y se avisa.
+   */
+  clonarSorteo(s: SorteoUI): void {
+    const zona = this.estadoSrv.zona(s);
+    let fecha = this.estadoSrv.fechaSorteo(s);
+    const minutos = s.minutosCierre ?? environment.minutosCierre;
+    do {
+      fecha = new Date(fecha.getTime() + 7 * 86_400_000);
+    } while (fecha.getTime() - minutos * 60_000 <= this.reloj.ahora().getTime());
+
+    const actual = this.createForm.getRawValue();
+    const sinNumeracion = s.desde == null || s.hasta == null || s.precio == null;
+    this.llenarFormulario({
+      nombre: `${s.nombre} (copia)`.slice(0, 80),
+      fechaSorteo: this.reloj.enZona(fecha, zona),
+      zonaHoraria: zona,
+      minutosCierre: minutos,
+      cifras: s.cifras ?? actual.cifras,
+      desde: s.desde ?? actual.desde,
+      hasta: s.hasta ?? actual.hasta,
+      series: s.series ?? 0,
+      fracciones: s.fracciones ?? 1,
+      precio: s.precio ?? actual.precio,
+      premios: s.premios ?? [],
+    });
+    this.plantillaEnUso = null;
+    this.createMsg = sinNumeracion
+      ? `Datos copiados de ${s.nombre}. El sorteo no tiene guardada su numeración o precio: revísalos junto con la fecha.`
+      : `Datos copiados de ${s.nombre}. Revisa la fecha y crea el sorteo.`;
+    window.scrollTo({ top: 0, behavior: 'smooth' });
+  }
+
+  /** Carga una configuración completa en el formulario de creación */
+  private llenarFormulario(d: Omit<PlantillaSorteo, 'id' | 'patronNombre' | 'recurrencia'> & { fechaSorteo: string }): void {
+    this.createForm.reset({
+      nombre: d.nombre,
+      fechaSorteo: d.fechaSorteo,
+      zonaHoraria: d.zonaHoraria,
+      minutosCierre: d.minutosCierre,
+      cifras: d.cifras,
+      desde: d.desde,
+      hasta: d.hasta,
+      series: d.series,
+      fracciones: d.fracciones,
+      precio: d.precio,
+    });
+    this.premiosArray.clear();
+    for (const p of d.premios) this.premiosArray.push(this.crearPremioForm(p));
+    if (!this.premiosArray.length) this.premiosArray.push(this.crearPremioForm());
+    this.createForm.controls.fechaSorteo.markAsTouched();
+  }
+
+  /** ==========================================================
+   *  PLANTILLAS Y RECURRENCIAS
+   * ========================================================== */
+
+  cargarPlantillas(): void {
+    this.plantillasSrv
+      .listar()
+      .pipe(catchError(() => of([] as PlantillaSorteo[])))
+      .subscribe((ps) => {
+        this.plantillas = ps ?? [];
+        this.cargarProgramados();
+      });
+  }
+
+  /**
+   * Carga los sorteos desde hoy de cada plantilla con recurrencia (en
+   * cualquier estado), independientes de la página y los filtros del
+   * listado, para calcular qué fechas faltan por programar. Si alguna
+   * consulta falla, `programados` queda en null: un error nunca se
+   * interpreta como "nada programado" (eso duplicaría sorteos).
+   */
+  cargarProgramados(): void {
+    this.programados = null;
+    this.errorProgramados = false;
+    const recurrentes = this.plantillas.filter((p) => p.recurrencia?.dias?.length);
+    if (!recurrentes.length) {
+      this.programados = [];
+      return;
+    }
+    const hoy = this.reloj.enZona(this.reloj.ahora()).slice(0, 10);
+    forkJoin(
+      recurrentes.map((p) =>
+        this.sorteosSrv
+          .resumen({ plantillaId: p.id, desde: hoy, orden: 'fecha', tamano: 100 })
+          .pipe(map((pg) => pg?.contenido ?? []))
+      )
+    ).subscribe({
+      next: (listas) => (this.programados = listas.flat()),
+      error: () => (this.errorProgramados = true),
+    });
+  }
+
+  /** Aplica una plantilla al formulario de creación (fecha: su próximo sorteo sin crear) */
+  usarPlantilla(id: number | string): void {
+    const p = this.plantillas.find((x) => x.id === Number(id));
+    if (!p) return;
+    const fecha = this.pendientesDe(p)[0] ?? '';
+    this.llenarFormulario({
+      ...p,
+      nombre: this.plantillasSrv.nombreSorteo(p, fecha || this.reloj.enZona(this.reloj.ahora(), p.zonaHoraria)).slice(0, 80),
+      fechaSorteo: fecha,
+    });
+    this.plantillaEnUso = p.id;
+    this.createMsg = `Plantilla "${p.nombre}" aplicada.`;
+  }
+
+  /** Próximos sorteos de la recurrencia que aún no se han creado */
+  pendientesDe(p: PlantillaSorteo): string[] {
+    return this.programados ? this.plantillasSrv.pendientes(p, this.programados) : [];
+  }
+
+  /** Plantillas con sorteos próximos por crear (aviso sobre la lista) */
+  get recurrenciasPendientes(): { plantilla: PlantillaSorteo; fechas: string[] }[] {
+    return this.plantillas
+      .map((plantilla) => ({ plantilla, fechas: this.pendientesDe(plantilla) }))
+      .filter((r) => r.fechas.length > 0);
+  }
+
+  /** Abre el panel de plantillas con la configuración actual del formulario de creación */
+  abrirPlantillas(): void {
+    const { nombre, fechaSorteo } = this.createForm.getRawValue();
+    this.borradorPlantilla = { nombre, fechaSorteo, configuracion: this.configuracionActual() };
+  }
+
+  cerrarPlantillas(): void {
+    this.borradorPlantilla = null;
+  }
+
+  /** Agrega o reemplaza la plantilla guardada en el panel y recalcula lo pendiente */
+  plantillaGuardada(p: PlantillaSorteo): void {
+    this.plantillas = this.plantillas.some((x) => x.id === p.id)
+      ? this.plantillas.map((x) => (x.id === p.id ? p : x))
+      : [...this.plantillas, p];
+    this.cargarProgramados();
+  }
+
+  /** Quita la plantilla eliminada en el panel (los sorteos ya creados con ella no cambian) */
+  plantillaEliminada(p: PlantillaSorteo): void {
+    this.plantillas = this.plantillas.filter((x) => x.id !== p.id);
+    if (this.plantillaEnUso === p.id) this.plantillaEnUso = null;
+  }
+
+  /** Configuración del formulario de creación para una plantilla (null si no es válida) */
+  private configuracionActual(): ConfiguracionPlantilla | null {
+    const c = this.createForm.controls;
+    const invalido = this.createForm.errors || this.premiosArray.invalid ||
+      [c.zonaHoraria, c.minutosCierre, c.cifras, c.desde, c.hasta, c.series, c.fracciones, c.precio].some((x) => x.invalid);
+    if (invalido) return null;
+
+    const v = this.createForm.getRawValue();
+    return {
+      zonaHoraria: v.zonaHoraria,
+      minutosCierre: Number(v.minutosCierre),
+      cifras: Number(v.cifras),
+      desde: Number(v.desde),
+      hasta: Number(v.hasta),
+      series: Number(v.series),
+      fracciones: Number(v.fracciones),
+      precio: Number(v.precio),
+      premios: this.planDePremios(),
+    };
+  }
+
+  /**
+   * Crea con sus billetes los próximos sorteos de una recurrencia que
+   * aún no existen, uno tras otro. Si la generación de uno no se
+   * completa, se detiene para no dejar varios a medias.
+   */
+  async programarRecurrencia(p: PlantillaSorteo) {
+    const fechas = this.pendientesDe(p);
+    if (!fechas.length || this.generando) return;
+
+    const lista = fechas
+      .map((f) => `<li>${escaparHtml(this.plantillasSrv.nombreSorteo(p, f))} — ${this.reloj.formatear(this.reloj.instante(f, p.zonaHoraria), p.zonaHoraria)}</li>`)
+      .join('');
+    const r = await Swal.fire({
+      title: `Programar ${escaparHtml(p.nombre)}`,
+      html: `<p style="text-align:left">Se crearán ${fechas.length} sorteo(s) con ${cantidadBilletes(p)} billete(s) cada uno:</p>`
+        + `<ul style="text-align:left">${lista}</ul>`,
+      icon: 'question',
+      showCancelButton: true,
+      confirmButtonText: 'Crear sorteos',
+      cancelButtonText: 'Volver',
+      confirmButtonColor: '#06b6d4',
+      background: '#0f172a',
+      color: '#e6edf7',
+    });
+    if (!r.isConfirmed) return;
+
+    let creados = 0;
+    for (const fecha of fechas) {
+      const payload = this.plantillasSrv.aSorteo(p, fecha);
+      this.startProgreso(`Creando ${payload.nombre}…`);
+      try {
+        const sorteo = await firstValueFrom(this.sorteosSrv.crear(payload));
+        const completo = await this.generarBilletes(
+          { ...sorteo, estado: sorteo.estado ?? 'BORRADOR' },
+          this.generacionSrv.iniciar(sorteo.id, this.plantillasSrv.opciones(p)),
+          true
+        );
+        if (!completo) break;
+        creados++;
+      } catch {
+        this.failProgreso('Error creando sorteo');
+        break;
+      }
+    }
+    this.cargarSorteos();
+    this.cargarProgramados();
+
+    Swal.fire({
+      title: creados === fechas.length ? 'Sorteos programados' : 'Programación incompleta',
+      text: `Se crearon ${creados} de ${fechas.length} sorteo(s) de ${p.nombre}.`,
+      icon: creados === fechas.length ? 'success' : 'warning',
+      confirmButtonText: 'Entendido',
+      confirmButtonColor: '#06b6d4',
+      background: '#0f172a',
+      color: '#e6edf7',
+    });
+  }
+
+  /** ==========================================================
+   *  APERTURA DE VENTAS
+   * ========================================================== */
+
+  /** Abre a la venta un sorteo en BORRADOR */
+  async abrirVentas(s: SorteoUI) {
+    if (!this.estadoSrv.puedeTransicionar(s.estado, 'ABIERTO') || this.abriendoId !== null) return;
+
+    this.abriendoId = s.id;
+    try {
+      const abierto = await firstValueFrom(this.sorteosSrv.abrir(s.id));
+      this.sorteos = this.sorteos.map((x) => (x.id === s.id ? { ...x, estado: abierto?.estado ?? 'ABIERTO' } : x));
+    } catch (err: any) {
+      Swal.fire({
+        title: 'Error',
+        text: err?.error?.message || 'No se pudo abrir el sorteo a la venta.',
+        icon: 'error',
+        confirmButtonText: 'Cerrar',
+        confirmButtonColor: '#ef4444',
+        background: '#0f172a',
+        color: '#e6edf7',
+      });
+    } finally {
+      this.abriendoId = null;
+    }
+  }
+
+  /** ==========================================================
+   *  CANCELACIÓN DE SORTEOS
+   * ========================================================== */
+
+  /**
+   * Cancela un sorteo vigente (motivo obligatorio). El backend marca los
+   * billetes vendidos para reembolso y devuelve los clientes afectados,
+   * que se muestran al vendedor para gestionar la devolución.
+   */
+  async cancelarSorteo(s: SorteoUI) {
+    if (!this.estadoSrv.puedeCancelar(s) || this.cancelandoId !== null) return;
+
+    const { value: motivo } = await Swal.fire<string>({
+      title: `Cancelar ${escaparHtml(s.nombre)}`,
+      html: s.vendidos
+        ? `<p style="text-align:left">Hay <b>${s.vendidos}</b> billete(s) vendido(s) que quedarán marcados para reembolso.</p>`
+        : `<p style="text-align:left">El sorteo no tiene billetes vendidos.</p>`,
+      input: 'textarea',
+      inputLabel: 'Motivo de la cancelación',
+      inputPlaceholder: 'Ej: el sorteo no se realizará por…',
+      inputValidator: (v) => (v && v.trim().length >= 5 ? null : 'Indica el motivo (mínimo 5 caracteres).'),
+      icon: 'warning',
+      showCancelButton: true,
+      confirmButtonText: 'Cancelar sorteo',
+      cancelButtonText: 'Volver',
+      confirmButtonColor: '#ef4444',
+      background: '#0f172a',
+      color: '#e6edf7',
+    });
+    if (!motivo) return;
+
+    this.cancelandoId = s.id;
+    try {
+      const res = await firstValueFrom(this.sorteosSrv.cancelar(s.id, motivo, this.vendedorSrv.id));
+
+      this.sorteos = this.sorteos.map((x) =>
+        x.id === s.id ? { ...x, estado: 'CANCELADO' as const, motivoCancelacion: motivo.trim() } : x
+      );
+      delete this.comprasBySorteo[s.id];
+      this.generacionSrv.descartar(s.id);
+
+      Swal.fire({
+        title: 'Sorteo cancelado',
+        html: this.resumenAfectados(res?.afectados ?? [], res?.billetesReembolso ?? 0, s.cifras),
+        icon: 'success',
+        width: 640,
+        confirmButtonText: 'Entendido',
+        confirmButtonColor: '#06b6d4',
+        background: '#0f172a',
+        color: '#e6edf7',
+      });
+    } catch (err: any) {
+      Swal.fire({
+        title: err?.status === 409 ? 'No es posible cancelar' : 'Error',
+        text: err?.status === 409
+          ? (err?.error?.message || 'El sorteo ya no admite cambios.')
+          : 'No se pudo cancelar el sorteo. Intenta de nuevo.',
+        icon: err?.status === 409 ? 'warning' : 'error',
+        confirmButtonText: 'Cerrar',
+        confirmButtonColor: '#ef4444',
+        background: '#0f172a',
+        color: '#e6edf7',
+      });
+    } finally {
+      this.cancelandoId = null;
+    }
+  }
+
+  /** HTML con los clientes a los que se les debe reembolsar */
+  private resumenAfectados(afectados: ClienteAfectado[], billetes: number, cifras?: number): string {
+    if (!afectados.length) {
+      return '<p>No había billetes vendidos: no hay reembolsos pendientes.</p>';
+    }
+    const filas = afectados
+      .map((a) => `
+        <tr>
+          <td>${escaparHtml(a.nombre)}${a.correo ? `<br><small>${escaparHtml(a.correo)}</small>` : ''}</td>
+          <td>${a.billetes.map((n) => `#${formatearNumeroBillete(n, cifras)}`).join(', ')}</td>
+          <td style="text-align:right">$${a.totalReembolso}</td>
+        </tr>`)
+      .join('');
+    return `
+      <p style="text-align:left">${billetes} billete(s) marcados para reembolso a ${afectados.length} cliente(s):</p>
+      <table style="width:100%;text-align:left;font-size:.9rem">
+        <thead><tr><th>Cliente</th><th>Billetes</th><th style="text-align:right">Reembolso</th></tr></thead>
+        <tbody>${filas}</tbody>
+      </table>
+    `;
   }
 
   /** ==========================================================
@@ -395,29 +1389,39 @@ export class SorteosComponent implements OnInit {
     this.comprasBySorteo[sorteoId].error = null;
     this.comprasBySorteo[sorteoId].items = [];
     this.comprasBySorteo[sorteoId].total = 0;
+    const cifras = this.sorteos.find((x) => x.id === sorteoId)?.cifras ?? null;
 
     // Carga de billetes vendidos usando el endpoint de billetes por sorteo
     this.sorteosSrv.billetesPorSorteo(sorteoId).pipe(
       catchError(() => of([] as Billete[]))
     ).subscribe({
       next: (billetes: Billete[]) => {
-        // Filtra solo los billetes vendidos
-        const vendidos = (billetes || []).filter((b: any) => b.estado === 'VENDIDO');
-
-        // Mapea cada billete a un item de compra
-        const items: CompraItem[] = vendidos.map((b: any) => ({
-          clienteId: b.cliente?.id ?? 0,
-          nombre: b.cliente?.nombre ?? '—',
-          correo: b.cliente?.correo ?? null,
-          numero: b.numero,
-          precio: Number(b.precio ?? 0),
-          fecha: b.fechaVenta ?? null,
-        }));
-
-        // Ordena: por fecha descendente, o por número si no hay fecha
+        // Filtra los billetes con fracciones vendidas (enteros o parciales)
+        const vendidos = (billetes || []).filter((b) => this.fraccionesSrv.tieneVentas(b));
+
+        // Mapea cada venta (cliente y fracciones) a un item de compra
+        const items: CompraItem[] = vendidos.flatMap((b: any) =>
+          this.fraccionesSrv.ventas(b).map((v) => ({
+            billeteId: b.id,
+            clienteId: v.clienteId,
+            nombre: v.clienteNombre ?? '—',
+            correo: v.clienteCorreo ?? null,
+            numero: b.numero,
+            serie: b.serie ?? null,
+            cifras: b.cifras ?? cifras,
+            fracciones: v.cantidad,
+            totalFracciones: this.fraccionesSrv.total(b),
+            precio: Number(v.precio ?? 0),
+            fecha: v.fechaVenta ?? null,
+            ganador: !!b.ganador,
+          }))
+        );
+
+        // Ordena: ganadores primero, luego por fecha descendente, o por número si no hay fecha
         items.sort((a, b) => {
+          if (a.ganador !== b.ganador) return a.ganador ? -1 : 1;
           if (a.fecha && b.fecha) return new Date(b.fecha).getTime() - new Date(a.fecha).getTime();
-          return Number(a.numero) - Number(b.numero);
+          return Number(a.numero) - Number(b.numero) || String(a.serie ?? '').localeCompare(String(b.serie ?? ''));
         });
 
         // Calcula total vendido
@@ -435,6 +1439,120 @@ export class SorteosComponent implements OnInit {
     });
   }
 
+  /** ==========================================================
+   *  ANULACIÓN DE VENTAS
+   * ========================================================== */
+
+  /**
+   * Anula la venta de un billete del detalle (motivo obligatorio).
+   * En billetes fraccionados solo se anulan las fracciones del cliente.
+   * Solo en sorteos vigentes; el backend también lo valida (409).
+   */
+  async anularVenta(s: SorteoUI, it: CompraItem) {
+    if (!this.estadoSrv.puedeAnular(s) || this.anulandoId !== null) return;
+    const fraccion = this.fraccionesSrv.etiqueta(it.fracciones, it.totalFracciones);
+
+    const { value: motivo } = await Swal.fire<string>({
+      title: `Anular venta del billete #${formatearNumeroBillete(it.numero, it.cifras, it.serie)}`,
+      html: `<p style="text-align:left"><b>Cliente:</b> ${escaparHtml(it.nombre)}</p>` +
+        (fraccion ? `<p style="text-align:left"><b>Fracciones:</b> ${fraccion}</p>` : ''),
+      input: 'textarea',
+      inputLabel: 'Motivo de la anulación',
+      inputPlaceholder: 'Ej: número equivocado, el cliente desistió…',
+      inputValidator: (v) => (v && v.trim().length >= 5 ? null : 'Indica el motivo (mínimo 5 caracteres).'),
+      icon: 'warning',
+      showCancelButton: true,
+      confirmButtonText: 'Anular venta',
+      cancelButtonText: 'Cancelar',
+      confirmButtonColor: '#ef4444',
+      background: '#0f172a',
+      color: '#e6edf7',
+    });
+    if (!motivo) return;
+
+    this.anulandoId = it.billeteId;
+    try {
+      // El billete deja de contar como vendido si estaba completo (todas sus fracciones vendidas)
+      const vendidasDelBillete = this.getEstado(s.id).items
+        .filter((x) => x.billeteId === it.billeteId)
+        .reduce((acc, x) => acc + x.fracciones, 0);
+      const estabaCompleto = vendidasDelBillete >= it.totalFracciones;
+
+      await firstValueFrom(this.ventasSrv.anularVenta(
+        it.billeteId,
+        motivo,
+        this.vendedorSrv.id,
+        it.totalFracciones > 1 ? it.clienteId : null
+      ));
+
+      // Actualiza contadores y recaudo de la tarjeta y recarga el detalle
+      this.sorteos = this.sorteos.map((x) =>
+        x.id === s.id
+          ? {
+            ...x,
+            vendidos: x.vendidos - (estabaCompleto ? 1 : 0),
+            disponibles: x.disponibles + (estabaCompleto ? 1 : 0),
+            recaudado: Math.max(0, (x.recaudado ?? 0) - it.precio),
+          }
+          : x
+      );
+      this.detalleSorteo = this.sorteos.find((x) => x.id === s.id) ?? this.detalleSorteo;
+      this.cargarComprasSorteo(s.id);
+
+      Swal.fire({
+        title: 'Venta anulada',
+        text: fraccion
+          ? `Las fracciones (${fraccion}) del billete #${formatearNumeroBillete(it.numero, it.cifras, it.serie)} volvieron a estar disponibles.`
+          : `El billete #${formatearNumeroBillete(it.numero, it.cifras, it.serie)} volvió a estar disponible.`,
+        icon: 'success',
+        confirmButtonText: 'Entendido',
+        confirmButtonColor: '#06b6d4',
+        background: '#0f172a',
+        color: '#e6edf7',
+      });
+    } catch (err: any) {
+      Swal.fire({
+        title: err?.status === 409 ? 'No es posible anular' : 'Error',
+        text: err?.status === 409
+          ? (err?.error?.message || 'El sorteo ya cerró ventas.')
+          : 'No se pudo anular la venta. Intenta de nuevo.',
+        icon: err?.status === 409 ? 'warning' : 'error',
+        confirmButtonText: 'Cerrar',
+        confirmButtonColor: '#ef4444',
+        background: '#0f172a',
+        color: '#e6edf7',
+      });
+    } finally {
+      this.anulandoId = null;
+    }
+  }
+
+  /**
+   * Consulta el resultado del sorteo (null si aún no se ha registrado).
+   * Si la consulta falla, el resultado queda sin cargar (no se asume pendiente).
+   */
+  private cargarResultado(sorteoId: number): void {
+    this.resultadosSrv.obtener(sorteoId).subscribe({
+      next: (r) => (this.resultadoBySorteo[sorteoId] = r),
+      error: () => delete this.resultadoBySorteo[sorteoId],
+    });
+  }
+
+  /** Devuelve el resultado cacheado de un sorteo (null si no existe o no se ha cargado) */
+  getResultado(id: number): ResultadoSorteo | null {
+    return this.resultadoBySorteo[id] ?? null;
+  }
+
+  /** Ganadores vendidos del resultado (los que tienen cliente asociado) */
+  ganadoresVendidos(id: number) {
+    return (this.getResultado(id)?.ganadores ?? []).filter((g) => this.fraccionesSrv.tieneVentas(g));
+  }
+
+  /** Clientes dueños de un billete ganador (con sus fracciones, si está fraccionado) */
+  duenosDe(g: BilleteGanador): string {
+    return this.fraccionesSrv.compradores(g);
+  }
+
   /** Devuelve un estado de compras seguro (por defecto si no existe) */
   getEstado(id: number): ComprasEstado {
     return this.comprasBySorteo[id] ?? {
@@ -445,25 +1563,4 @@ export class SorteosComponent implements OnInit {
       error: null,
     };
   }
-
-  /** ==========================================================
-   *  UTILIDADES INTERNAS
-   * ========================================================== */
-
-  /** True si el sorteo contiene billetes embebidos */
-  private hasBilletesEmbebidos(s: Partial<Sorteo>): boolean {
-    return Array.isArray((s as any).billetes) && ((s as any).billetes as Billete[]).length > 0;
-  }
-
-  /** Calcula cantidad de billetes vendidos y disponibles */
-  private contar(obj: Partial<Sorteo & { billetes?: Billete[] }>): {
-    vendidos: number;
-    disponibles: number;
-  } {
-    const billetes = (obj as any)?.billetes as Billete[] | undefined;
-    const total = billetes?.length ?? 0;
-    const vendidos = billetes?.filter((b) => b.estado === 'VENDIDO').length ?? 0;
-    const disponibles = Math.max(total - vendidos, 0);
-    return { vendidos, disponibles };
-  }
 }
@@ -3,13 +3,29 @@
 // Descripción:
 // Pantalla de venta de boletas para un sorteo. Soporta:
 // - Selección única (flujo tradicional).
-// - Selección múltiple (varias boletas en una sola operación).
+// - Selección múltiple (varias boletas en un solo lote, todo-o-nada o parcial).
+// - Reserva temporal (RESERVADO) de los billetes seleccionados, con
+//   cuenta regresiva y liberación al cancelar, vencer o salir.
 // - Manejo optimista con rollback en caso de error.
 // - Carga de compradores para resumen de ventas del sorteo.
+// - Actualización en vivo (SSE) de billetes, compradores y contadores
+//   con las reservas y ventas de otros vendedores.
+// - Comprobante de venta (PDF con QR) para descargar o imprimir.
+// - Anulación de ventas (con motivo obligatorio) desde el resumen
+//   de compradores, mientras el sorteo siga abierto.
+// - Carrito con billetes de varios sorteos para un mismo cliente,
+//   pagado con una sola confirmación y un solo comprobante.
+// - Forma de pago (efectivo con recibido y cambio, tarjeta,
+//   transferencia o Nequi) en cada venta.
+// - Cierre de ventas al minuto según la hora del sorteo, su zona
+//   horaria y sus minutos de cierre (con la hora del servidor).
+// - Búsqueda del cliente en el servidor (nombre, correo o documento),
+//   con los clientes recientes a mano; solo se vende a mayores de edad.
+// - Registro de un cliente nuevo en un diálogo, sin salir de la venta.
 // - Reacción a parámetro de ruta /venta/:id para preselección.
 // ============================================================
 
-import { Component, OnInit } from '@angular/core';
+import { Component, OnInit, OnDestroy, HostListener } from '@angular/core';
 import { CommonModule } from '@angular/common';
 import {
   ReactiveFormsModule,
@@ -20,23 +36,53 @@ import {
 } from '@angular/forms';
 import { FormsModule } from '@angular/forms';
 import { ActivatedRoute } from '@angular/router';
+import { firstValueFrom, interval, Subscription } from 'rxjs';
+import { distinctUntilChanged, filter } from 'rxjs/operators';
 
 import { SorteosService } from '../../../services/sorteos.service';
-import { VentasService, VentaRequest } from '../../../services/ventas.service';
-import { ClientesService } from '../../../services/clientes.service';
+import {
+  VentasService,
+  VentaRequest,
+  VentaLoteRequest,
+  VentaLoteItem,
+  ModoVentaLote,
+} from '../../../services/ventas.service';
+import { EDAD_MINIMA, edad } from '../../../services/clientes.service';
+import { ReservasService } from '../../../services/reservas.service';
+import { VendedorService } from '../../../services/vendedor.service';
+import { BilletesStreamService } from '../../../services/billetes-stream.service';
+import { ComprobantesService } from '../../../services/comprobantes.service';
+import { CarritoService, CarritoItem } from '../../../services/carrito.service';
+import { EstadoSorteoService } from '../../../services/estado-sorteo.service';
+import { FraccionesService } from '../../../services/fracciones.service';
+import { RelojService } from '../../../services/reloj.service';
+import { ClientesRecientesService } from '../../../services/clientes-recientes.service';
+
+import { ClienteSelectorComponent } from '../../clientes/cliente-selector/cliente-selector.component';
+import { ClienteFormComponent } from '../../clientes/cliente-form/cliente-form.component';
 
 import { Sorteo } from '../../../models/sorteo';
 import { Billete } from '../../../models/billete';
 import { Cliente } from '../../../models/cliente';
+import { BilleteEvento } from '../../../models/billete-evento';
+import { Comprobante, ComprobanteLinea } from '../../../models/comprobante';
+import { METODOS_PAGO, MetodoPago, Pago } from '../../../models/pago';
+import { NumeroBillete, NumeroBilletePipe, formatearNumeroBillete } from '../../../pipes/numero-billete.pipe';
+import { escaparHtml } from '../../../utils/html';
 
 import Swal from 'sweetalert2';
 
 // Estructura para representar un comprador en el resumen de ventas.
 type CompradorItem = {
   id: number;
+  billeteId: number;
   nombre: string;
   correo?: string | null;
   numero: string | number;
+  serie?: string | null;
+  cifras?: number | null;
+  fracciones: number;
+  totalFracciones: number;
   precio: number;
   fecha?: string | null;
 };
@@ -44,14 +90,17 @@ type CompradorItem = {
 @Component({
   selector: 'app-venta-boleta',
   standalone: true,
-  imports: [CommonModule, ReactiveFormsModule, FormsModule],
+  imports: [CommonModule, ReactiveFormsModule, FormsModule, NumeroBilletePipe, ClienteSelectorComponent, ClienteFormComponent],
   templateUrl: './venta-boleta.component.html',
   styleUrls: ['./venta-boleta.component.scss'],
 })
-export class VentaBoletaComponent implements OnInit {
+export class VentaBoletaComponent implements OnInit, OnDestroy {
   // Catálogos
   sorteosActivos: Sorteo[] = [];
-  clientes: Cliente[] = [];
+
+  // Cliente de la venta (elegido con el buscador o registrado en el diálogo)
+  cliente: Cliente | null = null;
+  registrandoCliente = false;
 
   // Estado de selección
   seleccionado: Sorteo | null = null;
@@ -62,12 +111,27 @@ export class VentaBoletaComponent implements OnInit {
   ventaMultiple = false;
   seleccionMultipleIds: Set<number> = new Set<number>(); // ids de billetes seleccionados
   procesandoIds: Set<number> = new Set<number>();        // ids en proceso de venta
+  reservandoIds: Set<number> = new Set<number>();        // ids con reserva en curso
+  anulandoIds: Set<number> = new Set<number>();          // ids con anulación en curso
+
+  // Reloj para la cuenta regresiva de reservas (epoch ms del servidor, se actualiza cada segundo)
+  ahora = 0;
+  private relojSub?: Subscription;
+  private expiradasSub?: Subscription;
+
+  // Canal en vivo del sorteo seleccionado
+  private streamSub?: Subscription;
+  // Último evento en vivo de cada billete con una operación propia en curso
+  private eventosPendientes = new Map<number, BilleteEvento>();
 
   // Estado de UI
   cargandoBilletes = false;
   vendiendo = false;
   ventaMsg = '';
 
+  // Opciones de método de pago
+  readonly metodosPago = METODOS_PAGO;
+
   // Compradores (resumen por sorteo)
   cargandoCompradores = false;
   compradores: CompradorItem[] = [];
@@ -77,19 +141,33 @@ export class VentaBoletaComponent implements OnInit {
     sorteoId: FormControl<number | null>;
     clienteId: FormControl<number | null>;
     billeteId: FormControl<number | null>;
+    fracciones: FormControl<number>;
+    metodoPago: FormControl<MetodoPago>;
+    recibido: FormControl<number | null>;
   }>;
 
   constructor(
     private fb: FormBuilder,
     private sorteosSrv: SorteosService,
     private ventasSrv: VentasService,
-    private clientesSrv: ClientesService,
+    private reservasSrv: ReservasService,
+    public vendedorSrv: VendedorService,
+    public streamSrv: BilletesStreamService,
+    private comprobantesSrv: ComprobantesService,
+    public carritoSrv: CarritoService,
+    public estadoSrv: EstadoSorteoService,
+    public fraccionesSrv: FraccionesService,
+    private reloj: RelojService,
+    private recientesSrv: ClientesRecientesService,
     private route: ActivatedRoute
   ) {
     this.form = this.fb.nonNullable.group({
       sorteoId: this.fb.control<number | null>(null, { validators: [Validators.required] }),
       clienteId: this.fb.control<number | null>(null, { validators: [Validators.required] }),
       billeteId: this.fb.control<number | null>(null, { validators: [Validators.required] }),
+      fracciones: this.fb.nonNullable.control(1, { validators: [Validators.min(1)] }),
+      metodoPago: this.fb.nonNullable.control<MetodoPago>('EFECTIVO'),
+      recibido: this.fb.control<number | null>(null, { validators: [Validators.min(0)] }),
     });
   }
 
@@ -101,7 +179,7 @@ export class VentaBoletaComponent implements OnInit {
     this.sorteosSrv.listar().subscribe({
       next: (all: Sorteo[]) => {
         this.sorteosActivos = all
-          .filter(s => this.esActivo(s))
+          .filter(s => this.estadoSrv.puedeVender(s))
           .sort((a, b) => new Date(a.fechaSorteo).getTime() - new Date(b.fechaSorteo).getTime());
         this.preseleccionarDesdeRuta();
       },
@@ -115,18 +193,8 @@ export class VentaBoletaComponent implements OnInit {
       }
     });
 
-    // 2) Cargar clientes
-    this.clientesSrv.listar().subscribe({
-      next: (cs) => (this.clientes = cs),
-      error: () => {
-        Swal.fire({
-          title: 'Error',
-          text: 'No fue posible cargar los clientes.',
-          icon: 'error',
-          confirmButtonText: 'Cerrar'
-        });
-      }
-    });
+    // 2) Cliente de la venta: el carrito lo recuerda al volver a la vista
+    if (this.carritoSrv.cliente) this.cambiarCliente(this.carritoSrv.cliente);
 
     // 3) Reaccionar a cambios del parámetro :id mientras estamos en la vista
     this.route.paramMap.subscribe(pm => {
@@ -138,6 +206,28 @@ export class VentaBoletaComponent implements OnInit {
         if (existe) this.onSelectSorteo(id);
       }
     });
+
+    // 4) Cuenta regresiva y vencimiento de reservas; cierre de ventas al minuto
+    this.ahora = this.reloj.ahora().getTime();
+    this.relojSub = interval(1000).subscribe(() => {
+      this.ahora = this.reloj.ahora().getTime();
+      this.verificarCierreVentas();
+    });
+    this.expiradasSub = this.reservasSrv.expiradas$.subscribe(r => this.onReservaExpirada(r.billeteId));
+  }
+
+  ngOnDestroy(): void {
+    this.relojSub?.unsubscribe();
+    this.expiradasSub?.unsubscribe();
+    this.streamSub?.unsubscribe();
+    // Las reservas del carrito se conservan hasta pagarlo, vaciarlo o que venzan
+    this.reservasSrv.liberarTodas(this.carritoSrv.items.map(it => it.billete.id)).subscribe();
+  }
+
+  // Al cerrar o recargar la pestaña, liberar las reservas de este vendedor
+  @HostListener('window:beforeunload')
+  onBeforeUnload() {
+    this.reservasSrv.liberarAlSalir();
   }
 
   // ============================================================
@@ -146,24 +236,39 @@ export class VentaBoletaComponent implements OnInit {
   setModo(multiple: boolean) {
     this.ventaMultiple = !!multiple;
     this.ventaMsg = '';
-    this.billeteSeleccionado = null;
-    this.form.patchValue({ billeteId: null });
-    this.seleccionMultipleIds.clear();
+    this.liberarSeleccion();
   }
 
   estaSeleccionado(id: number): boolean {
     return this.seleccionMultipleIds.has(id);
   }
 
-  toggleSeleccion(b: Billete) {
-    if (this.vendiendo || b.estado !== 'DISPONIBLE') return;
+  async toggleSeleccion(b: Billete) {
+    if (this.vendiendo || this.procesandoIds.has(b.id) || this.reservandoIds.has(b.id) || !this.esSeleccionable(b)) return;
     if (this.seleccionMultipleIds.has(b.id)) {
       this.seleccionMultipleIds.delete(b.id);
-    } else {
+      this.liberar([b.id]);
+    } else if (await this.reservar(b)) {
       this.seleccionMultipleIds.add(b.id);
     }
   }
 
+  // Disponible (o con fracciones disponibles), o reservado por este mismo vendedor (y no agregado ya al carrito)
+  esSeleccionable(b: Billete): boolean {
+    if (b.estado === 'DISPONIBLE' || b.estado === 'PARCIAL') return true;
+    return b.estado === 'RESERVADO' && this.reservasSrv.esMia(b.id) && !this.carritoSrv.contiene(b.id);
+  }
+
+  // Reservado por este vendedor y guardado en el carrito
+  enCarrito(b: Billete): boolean {
+    return b.estado === 'RESERVADO' && this.carritoSrv.contiene(b.id);
+  }
+
+  // Reservado por otro vendedor
+  esReservadoAjeno(b: Billete): boolean {
+    return b.estado === 'RESERVADO' && !this.reservasSrv.esMia(b.id);
+  }
+
   // Resumen de selección múltiple para usar en la plantilla sin lógica compleja en HTML
   get seleccionMultipleResumen(): string {
     if (!this.seleccionMultipleIds.size) return '';
@@ -171,7 +276,7 @@ export class VentaBoletaComponent implements OnInit {
     return ids
       .map(id => {
         const b = this.billetes.find(x => x.id === id);
-        return `#${b ? b.numero : id}`;
+        return `#${b ? this.codigo(b) : id}`;
       })
       .join(', ');
   }
@@ -187,33 +292,24 @@ export class VentaBoletaComponent implements OnInit {
     if (existe) this.onSelectSorteo(id);
   }
 
-  // Considera activo si la fecha del sorteo no ha pasado (desde 00:00 del día actual) y no está marcado como inactivo.
-  private esActivo(s: Sorteo): boolean {
-    const hoy = new Date();
-    const inicioHoy = new Date(hoy.getFullYear(), hoy.getMonth(), hoy.getDate(), 0, 0, 0, 0);
-    const fecha = new Date(s.fechaSorteo);
-    const noPaso = fecha.getTime() >= inicioHoy.getTime();
-    const flagActivo = (s as any).activo === undefined ? true : Boolean((s as any).activo);
-    return noPaso && flagActivo;
-  }
-
   onSelectSorteo(sorteoId: number | string) {
     const sorteoIdNum = Number(sorteoId || 0);
     const s = this.sorteosActivos.find(x => x.id === sorteoIdNum) || null;
 
+    this.liberarSeleccion();
+    this.streamSub?.unsubscribe();
+    this.eventosPendientes.clear();
     this.seleccionado = s;
     this.form.patchValue({ sorteoId: sorteoIdNum, billeteId: null });
-    this.billeteSeleccionado = null;
     this.ventaMsg = '';
     this.compradores = [];
-    this.seleccionMultipleIds.clear();
 
     if (!s) {
       this.billetes = [];
       return;
     }
 
-    if (!this.esActivo(s)) {
+    if (!this.estadoSrv.puedeVender(s)) {
       this.ventaMsg = 'Este sorteo ya no está activo.';
       this.billetes = [];
       Swal.fire({
@@ -227,6 +323,110 @@ export class VentaBoletaComponent implements OnInit {
 
     this.cargarBilletes(s.id);
     this.loadCompradores(s.id);
+    this.streamSub = this.streamSrv.observar(s.id).subscribe(ev => this.aplicarEvento(ev));
+    // El canal no repite los eventos perdidos: al abrir y al reconectar se recarga el estado real
+    this.streamSub.add(
+      this.streamSrv.estado$
+        .pipe(distinctUntilChanged(), filter(e => e === 'CONECTADO'))
+        .subscribe(() => {
+          this.cargarBilletes(s.id);
+          this.loadCompradores(s.id);
+        })
+    );
+  }
+
+  // ============================================================
+  // Cierre de ventas
+  // ------------------------------------------------------------
+  // Saca de la lista los sorteos que llegaron a su hora de cierre
+  // (según el servidor) y, si era el seleccionado, detiene la venta.
+  // ============================================================
+  private verificarCierreVentas(): void {
+    const cerrados = this.sorteosActivos.filter(s => !this.estadoSrv.puedeVender(s));
+    if (!cerrados.length) return;
+    this.sorteosActivos = this.sorteosActivos.filter(s => !cerrados.includes(s));
+
+    const s = this.seleccionado;
+    if (!s || !cerrados.some(c => c.id === s.id)) return;
+
+    this.liberarSeleccion();
+    this.streamSub?.unsubscribe();
+    this.eventosPendientes.clear();
+    this.seleccionado = null;
+    this.billetes = [];
+    this.compradores = [];
+    this.form.patchValue({ sorteoId: null, billeteId: null });
+    this.ventaMsg = `Las ventas de ${s.nombre} cerraron.`;
+    Swal.fire({
+      title: 'Ventas cerradas',
+      text: `Las ventas de ${s.nombre} cerraron a las ${this.estadoSrv.formatearCierre(s)}. No es posible seguir vendiendo.`,
+      icon: 'warning',
+      confirmButtonText: 'Entendido'
+    });
+  }
+
+  /** Tiempo restante para el cierre de ventas del sorteo seleccionado (ej. "2 h 15 min"). */
+  get tiempoParaCierre(): string {
+    if (!this.seleccionado) return '';
+    const min = this.estadoSrv.minutosParaCierre(this.seleccionado);
+    const h = Math.floor(min / 60);
+    return h ? `${h} h ${min % 60} min` : `${min} min`;
+  }
+
+  /** True si faltan 15 minutos o menos para el cierre de ventas. */
+  get cierreCercano(): boolean {
+    return !!this.seleccionado && this.estadoSrv.minutosParaCierre(this.seleccionado) <= 15;
+  }
+
+  // ============================================================
+  // Actualización en vivo (eventos SSE de billetes)
+  // ============================================================
+  private aplicarEvento(ev: BilleteEvento): void {
+    if (!this.seleccionado || ev.sorteoId !== this.seleccionado.id) return;
+
+    const b = this.normalizarBillete(ev.billete);
+    // Las operaciones propias en curso ya actualizan la vista de forma optimista:
+    // el evento se guarda y se aplica cuando la operación termina
+    if (this.procesandoIds.has(b.id) || this.reservandoIds.has(b.id)) {
+      this.eventosPendientes.set(b.id, ev);
+      return;
+    }
+    // Un evento de nuestra propia reserva no cambia nada en la vista
+    if (b.estado === 'RESERVADO' && this.reservasSrv.esMia(b.id)) return;
+
+    // Si otro vendedor vendió un billete que teníamos seleccionado, se pierde la selección
+    if (b.estado === 'VENDIDO' && this.reservasSrv.esMia(b.id)) {
+      this.reservasSrv.confirmar([b.id]);
+      this.carritoSrv.quitar(b.id, false);
+      this.seleccionMultipleIds.delete(b.id);
+      if (this.billeteSeleccionado?.id === b.id) {
+        this.billeteSeleccionado = null;
+        this.form.patchValue({ billeteId: null });
+      }
+      this.ventaMsg = `El billete #${this.codigo(b)} fue vendido por otro vendedor.`;
+    }
+
+    if (this.billetes.some(x => x.id === b.id)) {
+      this.actualizarBillete(b);
+    } else {
+      this.billetes.push(b);
+      this.ordenarPorEstado();
+    }
+
+    // Resumen de compradores (una fila por venta de fracciones)
+    this.compradores = [
+      ...this.aCompradores(ev.billete),
+      ...this.compradores.filter(c => c.billeteId !== b.id),
+    ];
+  }
+
+  /** Aplica los eventos guardados de los billetes que ya no tienen una operación en curso */
+  private aplicarEventosPendientes(): void {
+    for (const [id, ev] of this.eventosPendientes) {
+      if (this.procesandoIds.has(id) || this.reservandoIds.has(id)) continue;
+      this.eventosPendientes.delete(id);
+      this.aplicarEvento(ev);
+    }
   }
 
   private normalizarBillete(b: Billete): Billete {
@@ -234,17 +434,22 @@ export class VentaBoletaComponent implements OnInit {
       ...b,
       numero: Number((b as any).numero),
       precio: Number((b as any).precio),
+      cifras: b.cifras ?? this.seleccionado?.cifras ?? null,
     } as any;
   }
 
+  /** Código visible de un billete (cifras del sorteo y serie), ej. "0042-003" */
+  private codigo(b: NumeroBillete): string {
+    return formatearNumeroBillete(b.numero, b.cifras, b.serie);
+  }
+
   private ordenarPorEstado(): void {
-    const disponibles = this.billetes
-      .filter(b => b.estado === 'DISPONIBLE')
-      .sort((a, b) => (a.numero as number) - (b.numero as number));
-    const vendidos = this.billetes
-      .filter(b => b.estado === 'VENDIDO')
-      .sort((a, b) => (a.numero as number) - (b.numero as number));
-    this.billetes = [...disponibles, ...vendidos];
+    const porNumero = (a: Billete, b: Billete) =>
+      (a.numero as number) - (b.numero as number) || String(a.serie ?? '').localeCompare(String(b.serie ?? ''));
+    const disponibles = this.billetes.filter(b => this.esSeleccionable(b)).sort(porNumero);
+    const reservados = this.billetes.filter(b => b.estado === 'RESERVADO' && !this.esSeleccionable(b)).sort(porNumero);
+    const vendidos = this.billetes.filter(b => b.estado === 'VENDIDO').sort(porNumero);
+    this.billetes = [...disponibles, ...reservados, ...vendidos];
   }
 
   private cargarBilletes(sorteoId: number) {
@@ -270,12 +475,14 @@ export class VentaBoletaComponent implements OnInit {
   // ============================================================
   // Selección única (flujo tradicional)
   // ============================================================
-  seleccionarBillete(b: Billete) {
-    if (this.vendiendo) return;
-    if (b.estado !== 'DISPONIBLE') {
+  async seleccionarBillete(b: Billete) {
+    if (this.vendiendo || this.procesandoIds.has(b.id) || this.reservandoIds.has(b.id)) return;
+    if (!this.esSeleccionable(b)) {
       Swal.fire({
         title: 'No disponible',
-        text: 'Ese billete ya fue vendido.',
+        text: b.estado === 'RESERVADO'
+          ? 'Otro vendedor tiene ese billete reservado.'
+          : 'Ese billete ya fue vendido.',
         icon: 'warning',
         confirmButtonText: 'Entendido'
       });
@@ -283,15 +490,139 @@ export class VentaBoletaComponent implements OnInit {
     }
 
     if (!this.ventaMultiple) {
-      this.billeteSeleccionado = b;
-      this.form.patchValue({ billeteId: b.id });
+      if (this.billeteSeleccionado?.id === b.id) return;
+      const previo = this.billeteSeleccionado;
+      if (!(await this.reservar(b))) return;
+      if (previo) this.liberar([previo.id]);
+
+      this.billeteSeleccionado = this.billetes.find(x => x.id === b.id) ?? b;
+      // Por defecto se venden todas las fracciones que quedan
+      this.form.patchValue({ billeteId: b.id, fracciones: this.fraccionesSrv.disponibles(this.billeteSeleccionado) });
       this.ventaMsg = '';
     } else {
       // En modo múltiple, el mismo botón alterna selección
-      this.toggleSeleccion(b);
+      await this.toggleSeleccion(b);
     }
   }
 
+  // ============================================================
+  // Reservas temporales (RESERVADO)
+  // ============================================================
+
+  // Reserva el billete para este vendedor; devuelve false si no fue posible
+  private async reservar(b: Billete): Promise<boolean> {
+    if (this.reservasSrv.esMia(b.id)) return true;
+
+    this.reservandoIds.add(b.id);
+    try {
+      const res = await firstValueFrom(this.reservasSrv.reservar(this.seleccionado!.id, b.id));
+      this.actualizarBillete({ ...b, ...this.normalizarBillete(res), estado: 'RESERVADO' });
+      return true;
+    } catch (err: any) {
+      if (err?.status === 409) {
+        Swal.fire({
+          title: 'Billete no disponible',
+          text: 'Otro vendedor acaba de reservar o vender ese billete.',
+          icon: 'warning',
+          confirmButtonText: 'Entendido'
+        });
+        this.cargarBilletes(this.seleccionado!.id);
+      } else {
+        Swal.fire({
+          title: 'Error',
+          text: 'No fue posible reservar el billete. Intenta nuevamente.',
+          icon: 'error',
+          confirmButtonText: 'Cerrar'
+        });
+      }
+      return false;
+    } finally {
+      this.reservandoIds.delete(b.id);
+      this.aplicarEventosPendientes();
+    }
+  }
+
+  // Libera reservas propias y devuelve los billetes a DISPONIBLE en la vista
+  private liberar(ids: number[]): void {
+    if (!ids.length) return;
+    this.reservasSrv.liberar(ids).subscribe();
+    for (const id of ids) {
+      const b = this.billetes.find(x => x.id === id);
+      if (b?.estado === 'RESERVADO') {
+        this.actualizarBillete({ ...b, estado: this.fraccionesSrv.estadoLibre(b), reservadoHasta: null, reservadoPor: null });
+      }
+    }
+  }
+
+  // Limpia la selección (única y múltiple) liberando sus reservas
+  liberarSeleccion(): void {
+    const ids = Array.from(this.seleccionMultipleIds);
+    if (this.billeteSeleccionado) ids.push(this.billeteSeleccionado.id);
+    this.billeteSeleccionado = null;
+    this.form.patchValue({ billeteId: null });
+    this.seleccionMultipleIds.clear();
+    this.liberar(ids);
+  }
+
+  // La reserva venció sin completar la venta: se quita de la selección
+  private onReservaExpirada(billeteId: number): void {
+    const b = this.billetes.find(x => x.id === billeteId);
+    if (this.billeteSeleccionado?.id === billeteId) {
+      this.billeteSeleccionado = null;
+      this.form.patchValue({ billeteId: null });
+    }
+    this.seleccionMultipleIds.delete(billeteId);
+    if (b?.estado === 'RESERVADO') {
+      this.actualizarBillete({ ...b, estado: this.fraccionesSrv.estadoLibre(b), reservadoHasta: null, reservadoPor: null });
+    }
+    this.ventaMsg = `La reserva del billete #${b ? this.codigo(b) : billeteId} expiró.`;
+  }
+
+  // Reemplaza un billete en la lista (por id) y reordena
+  private actualizarBillete(b: Billete): void {
+    const idx = this.billetes.findIndex(x => x.id === b.id);
+    if (idx < 0) return;
+    this.billetes[idx] = b;
+    this.ordenarPorEstado();
+  }
+
+  // Cambia el cliente de la venta (y del carrito)
+  cambiarCliente(cliente: Cliente | null): void {
+    this.cliente = cliente;
+    this.form.patchValue({ clienteId: cliente?.id ?? null });
+    this.carritoSrv.cliente = cliente;
+  }
+
+  // Cliente registrado desde el diálogo: queda elegido sin tocar la selección de billetes
+  clienteRegistrado(cliente: Cliente): void {
+    this.registrandoCliente = false;
+    this.recientesSrv.agregar(cliente);
+    this.cambiarCliente(cliente);
+  }
+
+  // Solo se vende a mayores de edad (fecha de nacimiento vs. hora del servidor).
+  // A un cliente sin fecha de nacimiento registrada tampoco se le vende.
+  private clienteMayorDeEdad(): boolean {
+    const cliente = this.cliente;
+    const anos = edad(cliente?.fechaNacimiento, this.reloj.enZona(this.reloj.ahora()).slice(0, 10));
+    if (anos !== null && anos >= EDAD_MINIMA) return true;
+
+    Swal.fire({
+      title: anos === null ? 'Falta la fecha de nacimiento' : 'Cliente menor de edad',
+      text: anos === null
+        ? `Registra la fecha de nacimiento de ${cliente?.nombre ?? 'el cliente'} (en Clientes → Editar) antes de venderle.`
+        : `No es posible vender lotería a menores de ${EDAD_MINIMA} años.`,
+      icon: 'warning',
+      confirmButtonText: 'Entendido'
+    });
+    return false;
+  }
+
+  // Guarda el nombre del vendedor de esta estación
+  cambiarVendedor(nombre: string): void {
+    this.vendedorSrv.setNombre(nombre);
+  }
+
   // ============================================================
   // Acción principal de venta (auto-detecta única vs múltiple)
   // ============================================================
@@ -304,7 +635,8 @@ export class VentaBoletaComponent implements OnInit {
       Swal.fire({ title: 'Selecciona un cliente', icon: 'warning', confirmButtonText: 'Entendido' });
       return;
     }
-    if (!this.esActivo(this.seleccionado)) {
+    if (!this.clienteMayorDeEdad()) return;
+    if (!this.estadoSrv.puedeVender(this.seleccionado)) {
       this.ventaMsg = 'El sorteo ya no está activo. No es posible comprar.';
       Swal.fire({
         title: 'Sorteo inactivo',
@@ -323,14 +655,24 @@ export class VentaBoletaComponent implements OnInit {
         Swal.fire({ title: 'Selecciona un billete', icon: 'warning', confirmButtonText: 'Entendido' });
         return;
       }
+      const cantidad = this.fraccionesAVender;
+      if (cantidad < 1 || cantidad > this.fraccionesSrv.disponibles(this.billeteSeleccionado)) {
+        Swal.fire({ title: 'Fracciones no disponibles', text: 'Indica cuántas fracciones vender.', icon: 'warning', confirmButtonText: 'Entendido' });
+        return;
+      }
+      const pago = this.validarPago(this.totalSeleccion);
+      if (!pago) return;
 
+      const total = this.fraccionesSrv.total(this.billeteSeleccionado);
       const confirm = await Swal.fire({
         title: 'Confirmar venta',
         html: `
           <div style="text-align:left">
-            <p><b>Sorteo:</b> ${this.seleccionado.nombre}</p>
-            <p><b>Billete:</b> ${this.billeteSeleccionado.numero}</p>
-            <p><b>Precio:</b> ${this.billeteSeleccionado.precio}</p>
+            <p><b>Sorteo:</b> ${escaparHtml(this.seleccionado.nombre)}</p>
+            <p><b>Billete:</b> ${this.codigo(this.billeteSeleccionado)}</p>
+            ${total > 1 ? `<p><b>Fracciones:</b> ${cantidad} de ${total}</p>` : ''}
+            <p><b>Precio:</b> ${this.totalSeleccion}</p>
+            ${this.resumenPago(pago)}
           </div>
         `,
         icon: 'question',
@@ -338,96 +680,111 @@ export class VentaBoletaComponent implements OnInit {
         confirmButtonText: 'Vender',
         cancelButtonText: 'Cancelar'
       });
-      if (!confirm.isConfirmed) return;
+      if (!confirm.isConfirmed) {
+        this.liberarSeleccion();
+        return;
+      }
 
-      await this.venderUnico();
+      await this.venderUnico(pago);
       return;
     }
 
     // Venta múltiple
-    await this.venderMultiple();
+    const pago = this.validarPago(this.seleccionMultipleTotal);
+    if (!pago) return;
+    await this.venderMultiple(pago);
   }
 
   // ============================================================
   // Venta única (optimista con rollback)
   // ============================================================
-  private async venderUnico() {
+  private async venderUnico(pago: Pago) {
     const b = this.billeteSeleccionado!;
+    const cantidad = this.fraccionesAVender;
     const payload: VentaRequest = {
       sorteoId: this.seleccionado!.id,
       billeteId: b.id,
       clienteId: this.form.value.clienteId!,
+      ...(this.fraccionesSrv.esFraccionado(b) ? { fracciones: cantidad } : {}),
+      pago,
     };
 
     const idx = this.billetes.findIndex(x => x.id === b.id);
     const previo = idx >= 0 ? { ...this.billetes[idx] } : null;
 
-    // Optimista
+    // Optimista (VENDIDO, o PARCIAL si quedan fracciones)
     if (idx >= 0) {
-      this.billetes[idx] = { ...this.billetes[idx], estado: 'VENDIDO' as any };
+      this.billetes[idx] = this.fraccionesSrv.conVenta(this.billetes[idx], cantidad);
       this.ordenarPorEstado();
     }
 
     this.vendiendo = true;
     this.ventaMsg = 'Procesando...';
+    // Mientras responde el backend, los eventos en vivo no pisan el estado optimista
+    this.procesandoIds.add(b.id);
 
-    await new Promise<void>((resolve) => {
-      this.ventasSrv.venderBillete(payload).subscribe({
-        next: (res: Billete) => {
-          const actualizado = this.normalizarBillete(res);
-          if (idx >= 0) this.billetes[idx] = actualizado;
-          this.ordenarPorEstado();
-
-          this.ventaMsg = 'Vendido correctamente';
-          this.billeteSeleccionado = null;
-          this.form.patchValue({ billeteId: null });
-          this.vendiendo = false;
-
-          Swal.fire({
-            title: 'Venta realizada',
-            text: 'El billete se vendió correctamente.',
-            icon: 'success',
-            confirmButtonText: 'Perfecto'
-          });
-
-          this.cargarBilletes(this.seleccionado!.id);
-          this.loadCompradores(this.seleccionado!.id);
-          resolve();
-        },
-        error: (err) => {
-          if (previo && idx >= 0) this.billetes[idx] = previo;
-          this.ordenarPorEstado();
-          this.vendiendo = false;
-
-          if (err?.status === 409) {
-            this.ventaMsg = 'Ese billete ya fue comprado por otra persona.';
-            Swal.fire({
-              title: 'Billete no disponible',
-              text: 'Ese billete ya fue comprado por otra persona.',
-              icon: 'warning',
-              confirmButtonText: 'Entendido'
+    try {
+      await new Promise<void>((resolve) => {
+        this.ventasSrv.venderBillete(payload).subscribe({
+          next: (res: Billete) => {
+            this.reservasSrv.confirmar([b.id]);
+            this.actualizarBillete(this.normalizarBillete(res));
+
+            this.ventaMsg = 'Vendido correctamente';
+            this.billeteSeleccionado = null;
+            this.form.patchValue({ billeteId: null });
+            this.vendiendo = false;
+
+            this.ofrecerComprobante([this.lineaComprobante(this.seleccionado!, b, cantidad)], payload.clienteId, pago, {
+              title: 'Venta realizada',
+              text: this.fraccionesSrv.esFraccionado(b)
+                ? `Se vendieron ${cantidad} fracción(es) del billete.`
+                : 'El billete se vendió correctamente.',
+              icon: 'success',
             });
+
             this.cargarBilletes(this.seleccionado!.id);
             this.loadCompradores(this.seleccionado!.id);
-          } else {
-            this.ventaMsg = 'Error al vender';
-            Swal.fire({
-              title: 'Error',
-              text: 'No se pudo completar la venta. Intenta nuevamente.',
-              icon: 'error',
-              confirmButtonText: 'Cerrar'
-            });
-          }
-          resolve();
-        },
+            resolve();
+          },
+          error: (err) => {
+            if (previo) this.actualizarBillete(previo);
+            this.vendiendo = false;
+
+            if (err?.status === 409) {
+              this.liberarSeleccion();
+              this.ventaMsg = 'Ese billete ya fue comprado por otra persona.';
+              Swal.fire({
+                title: 'Billete no disponible',
+                text: 'Ese billete ya fue comprado por otra persona.',
+                icon: 'warning',
+                confirmButtonText: 'Entendido'
+              });
+              this.cargarBilletes(this.seleccionado!.id);
+              this.loadCompradores(this.seleccionado!.id);
+            } else {
+              this.ventaMsg = 'Error al vender';
+              Swal.fire({
+                title: 'Error',
+                text: 'No se pudo completar la venta. Intenta nuevamente.',
+                icon: 'error',
+                confirmButtonText: 'Cerrar'
+              });
+            }
+            resolve();
+          },
+        });
       });
-    });
+    } finally {
+      this.procesandoIds.delete(b.id);
+      this.aplicarEventosPendientes();
+    }
   }
 
   // ============================================================
-  // Venta múltiple (un insert por boleta, con resumen final)
+  // Venta múltiple (un solo lote, con resultado por boleta)
   // ============================================================
-  private async venderMultiple() {
+  private async venderMultiple(pago: Pago) {
     const ids = Array.from(this.seleccionMultipleIds);
     if (!ids.length) return;
 
@@ -435,30 +792,39 @@ export class VentaBoletaComponent implements OnInit {
     const lista = ids
       .map(id => {
         const b = this.billetes.find(x => x.id === id);
-        return b ? `#${b.numero} ($${b.precio})` : `ID ${id}`;
+        return b ? `#${this.codigo(b)} ($${this.fraccionesSrv.precio(b)})` : `ID ${id}`;
       })
       .join(', ');
 
-    const total = ids.reduce((acc, id) => {
-      const b = this.billetes.find(x => x.id === id);
-      return acc + (b ? Number(b.precio || 0) : 0);
-    }, 0);
+    const total = this.seleccionMultipleTotal;
 
     const confirm = await Swal.fire({
       title: 'Confirmar venta múltiple',
       html: `
         <div style="text-align:left">
-          <p><b>Sorteo:</b> ${this.seleccionado!.nombre}</p>
+          <p><b>Sorteo:</b> ${escaparHtml(this.seleccionado!.nombre)}</p>
           <p><b>Billetes:</b> ${lista}</p>
           <p><b>Total:</b> $${total}</p>
+          ${this.resumenPago(pago)}
+          <p><b>Si algún billete no está disponible:</b></p>
         </div>
       `,
       icon: 'question',
+      input: 'radio',
+      inputOptions: {
+        TODO_O_NADA: 'No vender ninguno',
+        PARCIAL: 'Vender los disponibles',
+      },
+      inputValue: 'TODO_O_NADA',
       showCancelButton: true,
       confirmButtonText: 'Vender',
       cancelButtonText: 'Cancelar'
     });
-    if (!confirm.isConfirmed) return;
+    if (!confirm.isConfirmed) {
+      this.liberarSeleccion();
+      return;
+    }
+    const modo: ModoVentaLote = confirm.value === 'PARCIAL' ? 'PARCIAL' : 'TODO_O_NADA';
 
     // Optimista por cada billete
     const previos: Record<number, Billete> = {};
@@ -466,7 +832,7 @@ export class VentaBoletaComponent implements OnInit {
       const idx = this.billetes.findIndex(x => x.id === id);
       if (idx >= 0) {
         previos[id] = { ...this.billetes[idx] };
-        this.billetes[idx] = { ...this.billetes[idx], estado: 'VENDIDO' as any };
+        this.billetes[idx] = this.fraccionesSrv.conVenta(this.billetes[idx]);
         this.procesandoIds.add(id);
       }
     }
@@ -474,57 +840,69 @@ export class VentaBoletaComponent implements OnInit {
     this.vendiendo = true;
     this.ventaMsg = 'Procesando venta múltiple...';
 
-    const exitos: number[] = [];
-    const fallos: number[] = [];
+    const payload: VentaLoteRequest = {
+      sorteoId: this.seleccionado!.id,
+      clienteId: this.form.value.clienteId!,
+      billeteIds: ids,
+      modo,
+      pago,
+    };
 
-    // Vender secuencialmente para minimizar colisiones de concurrencia
-    for (const id of ids) {
-      // eslint-disable-next-line no-await-in-loop
-      await new Promise<void>((resolve) => {
-        const payload: VentaRequest = {
-          sorteoId: this.seleccionado!.id,
-          billeteId: id,
-          clienteId: this.form.value.clienteId!,
-        };
+    let resultados: VentaLoteItem[];
+    try {
+      resultados = (await firstValueFrom(this.ventasSrv.venderLote(payload))).resultados;
+    } catch {
+      // Error general (red / servidor): ningún billete quedó vendido
+      resultados = ids.map(id => ({ billeteId: id, ok: false, error: 'Error de comunicación' }));
+    }
 
-        this.ventasSrv.venderBillete(payload).subscribe({
-          next: () => {
-            const b = this.billetes.find(x => x.id === id);
-            const numero = b ? Number(b.numero) : id;
-            exitos.push(numero);
-            resolve();
-          },
-          error: () => {
-            // Revertir solo el que falló
-            const idx = this.billetes.findIndex(x => x.id === id);
-            if (idx >= 0 && previos[id]) this.billetes[idx] = previos[id];
-            const b = this.billetes.find(x => x.id === id);
-            const numero = b ? Number(b.numero) : id;
-            fallos.push(numero);
-            resolve();
-          }
-        });
-      });
+    // Aplicar el resultado de cada billete: confirmar vendidos y revertir fallidos
+    const exitos: string[] = [];
+    const fallos: string[] = [];
+    const vendidos: ComprobanteLinea[] = [];
+    for (const r of resultados) {
+      const idx = this.billetes.findIndex(x => x.id === r.billeteId);
+      const numero = previos[r.billeteId] ? `#${this.codigo(previos[r.billeteId])}` : `ID ${r.billeteId}`;
+      if (r.ok) {
+        if (idx >= 0 && r.billete) this.billetes[idx] = this.normalizarBillete(r.billete);
+        if (previos[r.billeteId]) {
+          vendidos.push(this.lineaComprobante(
+            this.seleccionado!,
+            previos[r.billeteId],
+            this.fraccionesSrv.disponibles(previos[r.billeteId])
+          ));
+        }
+        exitos.push(numero);
+      } else {
+        if (idx >= 0 && previos[r.billeteId]) this.billetes[idx] = previos[r.billeteId];
+        fallos.push(r.error ? `${numero} (${r.error})` : numero);
+      }
     }
 
+    // Las vendidas consumen su reserva; las fallidas se liberan
+    this.reservasSrv.confirmar(resultados.filter(r => r.ok).map(r => r.billeteId));
+    this.seleccionMultipleIds.clear();
+    this.liberar(resultados.filter(r => !r.ok).map(r => r.billeteId));
+
     this.ordenarPorEstado();
     this.vendiendo = false;
     this.procesandoIds.clear();
-    this.seleccionMultipleIds.clear();
+    this.aplicarEventosPendientes();
 
     // Resumen final
     const msg =
       `Éxitos: ${exitos.length}` +
-      (exitos.length ? ` (${exitos.map(n => `#${n}`).join(', ')})` : '') +
+      (exitos.length ? ` (${exitos.join(', ')})` : '') +
       `\nFallos: ${fallos.length}` +
-      (fallos.length ? ` (${fallos.map(n => `#${n}`).join(', ')})` : '');
+      (fallos.length ? ` (${fallos.join(', ')})` : '');
 
     if (fallos.length === 0) {
-      Swal.fire({ title: 'Venta múltiple completa', text: msg, icon: 'success', confirmButtonText: 'Listo' });
+      this.ofrecerComprobante(vendidos, payload.clienteId, pago, { title: 'Venta múltiple completa', text: msg, icon: 'success' });
     } else if (exitos.length === 0) {
-      Swal.fire({ title: 'No se vendió ningún billete', text: msg, icon: 'warning', confirmButtonText: 'Entendido' });
+      const title = modo === 'TODO_O_NADA' ? 'Lote rechazado: no se vendió ningún billete' : 'No se vendió ningún billete';
+      Swal.fire({ title, text: msg, icon: 'warning', confirmButtonText: 'Entendido' });
     } else {
-      Swal.fire({ title: 'Venta parcial', text: msg, icon: 'warning', confirmButtonText: 'Entendido' });
+      this.ofrecerComprobante(vendidos, payload.clienteId, pago, { title: 'Venta parcial', text: msg, icon: 'warning' });
     }
 
     // Refrescar datos reales
@@ -533,9 +911,355 @@ export class VentaBoletaComponent implements OnInit {
     this.ventaMsg = '';
   }
 
+  // ============================================================
+  // Anulación de una venta
+  // ------------------------------------------------------------
+  // Pide el motivo (obligatorio), anula la venta en el backend y
+  // devuelve el billete a DISPONIBLE. En billetes fraccionados solo
+  // se anulan las fracciones del cliente de la fila. Solo mientras
+  // el sorteo siga abierto; el backend también lo valida (409).
+  // ============================================================
+  async anularVenta(p: CompradorItem) {
+    if (!this.seleccionado || this.anulandoIds.has(p.billeteId)) return;
+    const fraccion = this.fraccionesSrv.etiqueta(p.fracciones, p.totalFracciones);
+    if (!this.estadoSrv.puedeVender(this.seleccionado)) {
+      Swal.fire({
+        title: 'Sorteo cerrado',
+        text: 'El sorteo ya cerró ventas. No es posible anular.',
+        icon: 'warning',
+        confirmButtonText: 'Entendido'
+      });
+      return;
+    }
+
+    const { value: motivo } = await Swal.fire<string>({
+      title: `Anular venta del billete #${this.codigo(p)}`,
+      html: `<p style="text-align:left"><b>Cliente:</b> ${escaparHtml(p.nombre)}</p>` +
+        (fraccion ? `<p style="text-align:left"><b>Fracciones:</b> ${fraccion}</p>` : ''),
+      input: 'textarea',
+      inputLabel: 'Motivo de la anulación',
+      inputPlaceholder: 'Ej: número equivocado, el cliente desistió…',
+      inputValidator: (v) => (v && v.trim().length >= 5 ? null : 'Indica el motivo (mínimo 5 caracteres).'),
+      icon: 'warning',
+      showCancelButton: true,
+      confirmButtonText: 'Anular venta',
+      cancelButtonText: 'Cancelar'
+    });
+    if (!motivo) return;
+
+    this.anulandoIds.add(p.billeteId);
+    const clienteId = p.totalFracciones > 1 ? p.id : null;
+    this.ventasSrv.anularVenta(p.billeteId, motivo, this.vendedorSrv.id, clienteId).subscribe({
+      next: (res) => {
+        this.anulandoIds.delete(p.billeteId);
+        const previo = this.billetes.find(x => x.id === p.billeteId);
+        if (previo) {
+          this.actualizarBillete(res
+            ? { ...previo, ...this.normalizarBillete(res) }
+            : { ...previo, estado: 'DISPONIBLE', clienteId: null, fraccionesVendidas: 0, ventasFraccion: [] });
+        }
+        this.compradores = this.compradores.filter(c => c.billeteId !== p.billeteId || c.id !== p.id);
+        Swal.fire({
+          title: 'Venta anulada',
+          text: fraccion
+            ? `Las fracciones (${fraccion}) del billete #${this.codigo(p)} volvieron a estar disponibles.`
+            : `El billete #${this.codigo(p)} volvió a estar disponible.`,
+          icon: 'success',
+          confirmButtonText: 'Perfecto'
+        });
+      },
+      error: (err) => {
+        this.anulandoIds.delete(p.billeteId);
+        Swal.fire({
+          title: err?.status === 409 ? 'No es posible anular' : 'Error',
+          text: err?.status === 409
+            ? (err?.error?.message || 'El sorteo ya cerró ventas.')
+            : 'No se pudo anular la venta. Intenta nuevamente.',
+          icon: err?.status === 409 ? 'warning' : 'error',
+          confirmButtonText: 'Cerrar'
+        });
+      }
+    });
+  }
+
+  // ============================================================
+  // Comprobante de venta (PDF con QR)
+  // ------------------------------------------------------------
+  // Emite el comprobante de los billetes vendidos y lo ofrece en el
+  // mismo aviso de éxito: descargar, imprimir o cerrar. Si el backend
+  // no lo registra, el aviso lo informa (la venta sí quedó hecha).
+  // ============================================================
+  private async ofrecerComprobante(
+    lineas: ComprobanteLinea[],
+    clienteId: number,
+    pago: Pago,
+    aviso: { title: string; text: string; icon: 'success' | 'warning' }
+  ) {
+    const cliente = this.cliente?.id === clienteId ? this.cliente : null;
+    // El dinero recibido ya se usó en esta venta
+    this.form.patchValue({ recibido: null });
+
+    let comprobante: Comprobante | null = null;
+    try {
+      comprobante = await firstValueFrom(this.comprobantesSrv.emitir({
+        clienteId,
+        clienteNombre: cliente?.nombre ?? `Cliente ${clienteId}`,
+        clienteCorreo: cliente?.correo ?? null,
+        vendedorId: this.vendedorSrv.id,
+        vendedorNombre: this.vendedorSrv.nombre,
+        lineas,
+        pago: this.pagoCobrado(pago, lineas.reduce((acc, l) => acc + l.precio, 0)),
+      }));
+    } catch {
+      // El backend no registró el comprobante: se informa en el aviso de la venta
+    }
+
+    const r = await Swal.fire({
+      ...aviso,
+      ...(comprobante ? {} : {
+        icon: 'warning' as const,
+        text: `${aviso.text} No fue posible emitir el comprobante; consulta la venta en el historial del cliente.`,
+      }),
+      footer: comprobante ? `Comprobante ${comprobante.codigo}` : undefined,
+      showDenyButton: !!comprobante,
+      showCancelButton: !!comprobante,
+      confirmButtonText: comprobante ? 'Descargar comprobante' : 'Perfecto',
+      denyButtonText: 'Imprimir',
+      cancelButtonText: 'Cerrar'
+    });
+    if (!comprobante || (!r.isConfirmed && !r.isDenied)) return;
+
+    try {
+      if (r.isConfirmed) await this.comprobantesSrv.descargar(comprobante);
+      else await this.comprobantesSrv.imprimir(comprobante);
+    } catch {
+      Swal.fire({
+        title: 'Error',
+        text: 'No fue posible generar el comprobante en PDF.',
+        icon: 'error',
+        confirmButtonText: 'Cerrar'
+      });
+    }
+  }
+
+  // ============================================================
+  // Forma de pago
+  // ============================================================
+
+  // Cambio a devolver en efectivo (null si no aplica o aún no se indicó lo recibido)
+  cambioPara(total: number): number | null {
+    const recibido = this.form.value.recibido;
+    if (this.form.value.metodoPago !== 'EFECTIVO' || recibido === null || recibido === undefined) return null;
+    return Number(recibido) - total;
+  }
+
+  // Total de la selección actual (única: las fracciones elegidas; múltiple: lo que queda de cada billete)
+  get totalSeleccion(): number {
+    if (this.ventaMultiple) return this.seleccionMultipleTotal;
+    if (!this.billeteSeleccionado) return 0;
+    return this.fraccionesSrv.precio(this.billeteSeleccionado, this.fraccionesAVender);
+  }
+
+  // Cambio (o faltante, si es negativo) de la selección actual
+  get cambioSeleccion(): number | null {
+    return this.cambioPara(this.totalSeleccion);
+  }
+
+  // Arma el pago de una venta; en efectivo exige que lo recibido cubra el total
+  private validarPago(total: number): Pago | null {
+    const metodo = this.form.value.metodoPago ?? 'EFECTIVO';
+    if (metodo !== 'EFECTIVO') return { metodo, recibido: null, cambio: null };
+
+    const cambio = this.cambioPara(total);
+    if (cambio === null || cambio < 0) {
+      Swal.fire({
+        title: 'Pago en efectivo',
+        text: `Indica el dinero recibido; debe cubrir el total de $${total}.`,
+        icon: 'warning',
+        confirmButtonText: 'Entendido'
+      });
+      return null;
+    }
+    return { metodo, recibido: Number(this.form.value.recibido), cambio };
+  }
+
+  // Pago efectivamente cobrado: si la venta fue parcial, el cambio se recalcula con lo vendido
+  private pagoCobrado(pago: Pago, total: number): Pago {
+    return pago.metodo === 'EFECTIVO' && pago.recibido != null
+      ? { ...pago, cambio: pago.recibido - total }
+      : pago;
+  }
+
+  // Línea de la forma de pago para los diálogos de confirmación
+  private resumenPago(pago: Pago): string {
+    const metodo = this.metodosPago.find(m => m.value === pago.metodo)?.label ?? pago.metodo;
+    return pago.metodo === 'EFECTIVO'
+      ? `<p><b>Pago:</b> ${metodo} · recibido $${pago.recibido} · cambio $${pago.cambio}</p>`
+      : `<p><b>Pago:</b> ${metodo}</p>`;
+  }
+
+  // Línea del comprobante para un billete vendido (o las fracciones vendidas de él).
+  // Recibe el billete como estaba antes de la venta: el precio de las fracciones
+  // depende de si la venta completa el billete (la última lleva el residuo).
+  private lineaComprobante(sorteo: CarritoItem['sorteo'], b: Billete, cantidad: number): ComprobanteLinea {
+    const total = this.fraccionesSrv.total(b);
+    return {
+      sorteoId: sorteo.id,
+      sorteoNombre: sorteo.nombre,
+      fechaSorteo: sorteo.fechaSorteo,
+      billeteId: b.id,
+      numero: Number(b.numero),
+      serie: b.serie ?? null,
+      cifras: b.cifras ?? null,
+      fracciones: total > 1 ? cantidad : null,
+      totalFracciones: total > 1 ? total : null,
+      precio: this.fraccionesSrv.precio(b, cantidad),
+    };
+  }
+
+  // ============================================================
+  // Carrito (billetes de varios sorteos, un solo pago)
+  // ============================================================
+
+  // Pasa la selección actual al carrito conservando sus reservas
+  agregarAlCarrito(): void {
+    if (!this.seleccionado) return;
+    const ids = this.ventaMultiple
+      ? Array.from(this.seleccionMultipleIds)
+      : (this.billeteSeleccionado ? [this.billeteSeleccionado.id] : []);
+    const billetes = ids
+      .map(id => this.billetes.find(x => x.id === id))
+      .filter((b): b is Billete => !!b && this.reservasSrv.esMia(b.id));
+    if (!billetes.length) return;
+
+    this.carritoSrv.cliente = this.cliente ?? this.carritoSrv.cliente;
+    this.carritoSrv.agregar(this.seleccionado, billetes);
+
+    // Se limpia la selección sin liberar: ahora las reservas son del carrito
+    this.billeteSeleccionado = null;
+    this.seleccionMultipleIds.clear();
+    this.form.patchValue({ billeteId: null });
+    this.ordenarPorEstado();
+    this.ventaMsg = `${billetes.length} billete(s) agregado(s) al carrito.`;
+  }
+
+  quitarDelCarrito(it: CarritoItem): void {
+    this.carritoSrv.quitar(it.billete.id);
+    this.marcarDisponibles([it.billete.id]);
+  }
+
+  vaciarCarrito(): void {
+    const ids = this.carritoSrv.items.map(it => it.billete.id);
+    this.carritoSrv.vaciar();
+    this.marcarDisponibles(ids);
+  }
+
+  // Devuelve a DISPONIBLE (o PARCIAL) en la vista los billetes cuya reserva se liberó
+  private marcarDisponibles(ids: number[]): void {
+    for (const id of ids) {
+      const b = this.billetes.find(x => x.id === id);
+      if (b?.estado === 'RESERVADO') {
+        this.actualizarBillete({ ...b, estado: this.fraccionesSrv.estadoLibre(b), reservadoHasta: null, reservadoPor: null });
+      }
+    }
+  }
+
+  async pagarCarrito() {
+    const items = this.carritoSrv.items;
+    if (!items.length || this.vendiendo) return;
+    const clienteId = this.form.value.clienteId;
+    if (!clienteId) {
+      Swal.fire({ title: 'Selecciona un cliente', icon: 'warning', confirmButtonText: 'Entendido' });
+      return;
+    }
+    if (!this.clienteMayorDeEdad()) return;
+
+    // Un sorteo que cerró mientras su billete esperaba en el carrito ya no se puede vender
+    const cerrados = items.filter(it => {
+      const s = this.sorteosActivos.find(x => x.id === it.sorteo.id);
+      return !s || !this.estadoSrv.puedeVender(s);
+    });
+    if (cerrados.length) {
+      cerrados.forEach(it => this.carritoSrv.quitar(it.billete.id));
+      Swal.fire({
+        title: 'Sorteo cerrado',
+        text: `Se quitaron del carrito ${cerrados.length} billete(s) de sorteos que ya no están activos. Revisa el carrito.`,
+        icon: 'warning',
+        confirmButtonText: 'Entendido'
+      });
+      return;
+    }
+
+    const pago = this.validarPago(this.carritoSrv.total);
+    if (!pago) return;
+
+    const cliente = this.cliente?.id === clienteId ? this.cliente : null;
+    const filas = items
+      .map(it => `<li>${escaparHtml(it.sorteo.nombre)}: #${this.codigo(it.billete)} ($${this.carritoSrv.precio(it)})</li>`)
+      .join('');
+    const confirm = await Swal.fire({
+      title: 'Confirmar pago del carrito',
+      html: `
+        <div style="text-align:left">
+          <p><b>Cliente:</b> ${escaparHtml(cliente?.nombre ?? clienteId)}</p>
+          <ul>${filas}</ul>
+          <p><b>Total:</b> $${this.carritoSrv.total}</p>
+          ${this.resumenPago(pago)}
+        </div>
+      `,
+      icon: 'question',
+      showCancelButton: true,
+      confirmButtonText: 'Pagar',
+      cancelButtonText: 'Cancelar'
+    });
+    if (!confirm.isConfirmed) return;
+
+    this.vendiendo = true;
+    this.ventaMsg = 'Procesando carrito...';
+    items.forEach(it => this.procesandoIds.add(it.billete.id));
+
+    const resultados = await firstValueFrom(this.carritoSrv.pagar(clienteId, pago));
+    const vendidos = resultados.filter(r => r.ok);
+    const fallidos = resultados.filter(r => !r.ok);
+
+    this.procesandoIds.clear();
+    this.aplicarEventosPendientes();
+    this.vendiendo = false;
+    this.ventaMsg = '';
+
+    const msg =
+      `Éxitos: ${vendidos.length}` +
+      `\nFallos: ${fallidos.length}` +
+      (fallidos.length
+        ? ` (${fallidos.map(r => `${r.item.sorteo.nombre} #${this.codigo(r.item.billete)}${r.error ? ` (${r.error})` : ''}`).join(', ')})`
+        : '');
+
+    if (vendidos.length) {
+      this.ofrecerComprobante(
+        vendidos.map(r => this.lineaComprobante(
+          r.item.sorteo,
+          r.item.billete,
+          this.fraccionesSrv.disponibles(r.item.billete)
+        )),
+        clienteId,
+        pago,
+        { title: fallidos.length ? 'Carrito pagado parcialmente' : 'Carrito pagado', text: msg, icon: fallidos.length ? 'warning' : 'success' }
+      );
+    } else {
+      Swal.fire({ title: 'No se vendió ningún billete', text: msg, icon: 'warning', confirmButtonText: 'Entendido' });
+    }
+
+    // Refrescar datos reales del sorteo en pantalla
+    if (this.seleccionado) {
+      this.cargarBilletes(this.seleccionado.id);
+      this.loadCompradores(this.seleccionado.id);
+    }
+  }
+
   // ============================================================
   // Carga de compradores del sorteo
-  // (se reutiliza billetesPorSorteo y se filtran los vendidos)
+  // (se reutiliza billetesPorSorteo y se filtran los que tienen
+  // fracciones vendidas; una fila por cliente y billete)
   // ============================================================
   private loadCompradores(sorteoId: number): void {
     this.cargandoCompradores = true;
@@ -543,15 +1267,8 @@ export class VentaBoletaComponent implements OnInit {
 
     this.sorteosSrv.billetesPorSorteo(sorteoId).subscribe({
       next: (billetes: Billete[]) => {
-        const vendidos = (billetes || []).filter(b => (b as any).estado === 'VENDIDO');
-        this.compradores = vendidos.map((b: any) => ({
-          id: b.cliente?.id ?? 0,
-          nombre: b.cliente?.nombre ?? '—',
-          correo: b.cliente?.correo ?? null,
-          numero: b.numero,
-          precio: Number(b.precio ?? 0),
-          fecha: b.fechaVenta ?? null,
-        }));
+        const vendidos = (billetes || []).filter(b => this.fraccionesSrv.tieneVentas(b));
+        this.compradores = vendidos.flatMap(b => this.aCompradores(b));
         this.compradores.sort((a, b) => {
           if (a.fecha && b.fecha) return new Date(b.fecha).getTime() - new Date(a.fecha).getTime();
           return Number(a.numero) - Number(b.numero);
@@ -564,6 +1281,24 @@ export class VentaBoletaComponent implements OnInit {
     });
   }
 
+  // Convierte un billete vendido (con cliente embebido o ventas por fracción) en filas del resumen
+  private aCompradores(b: Billete): CompradorItem[] {
+    const totalFracciones = this.fraccionesSrv.total(b);
+    return this.fraccionesSrv.ventas(b).map(v => ({
+      id: v.clienteId,
+      billeteId: b.id,
+      nombre: v.clienteNombre ?? '—',
+      correo: v.clienteCorreo ?? null,
+      numero: b.numero,
+      serie: b.serie ?? null,
+      cifras: b.cifras ?? this.seleccionado?.cifras ?? null,
+      fracciones: v.cantidad,
+      totalFracciones,
+      precio: Number(v.precio ?? 0),
+      fecha: v.fechaVenta ?? null,
+    }));
+  }
+
   // ============================================================
   // Getters útiles para plantilla
   // ============================================================
@@ -575,14 +1310,54 @@ export class VentaBoletaComponent implements OnInit {
 
   get totalVendido(): number {
     return this.billetes
-      .filter(b => b.estado === 'VENDIDO')
-      .reduce((acc, b) => acc + Number(b.precio || 0), 0);
+      .filter(b => this.fraccionesSrv.tieneVentas(b))
+      .reduce((acc, b) => acc + this.fraccionesSrv.precioVendidas(b), 0);
+  }
+
+  get parcialesCount(): number {
+    return this.billetes.reduce((acc, b) => acc + (b.estado === 'PARCIAL' ? 1 : 0), 0);
+  }
+
+  // Fracciones a vender del billete seleccionado (venta única)
+  get fraccionesAVender(): number {
+    if (!this.billeteSeleccionado) return 0;
+    if (!this.fraccionesSrv.esFraccionado(this.billeteSeleccionado)) return 1;
+    return Math.floor(Number(this.form.value.fracciones || 0));
+  }
+
+  // Opciones (1..disponibles) para el selector de fracciones
+  get opcionesFracciones(): number[] {
+    const n = this.billeteSeleccionado ? this.fraccionesSrv.disponibles(this.billeteSeleccionado) : 0;
+    return Array.from({ length: n }, (_, i) => i + 1);
   }
 
   get disponiblesCount(): number {
     return this.billetes.reduce((acc, b) => acc + (b.estado === 'DISPONIBLE' ? 1 : 0), 0);
   }
 
+  get reservadosCount(): number {
+    return this.billetes.reduce((acc, b) => acc + (b.estado === 'RESERVADO' ? 1 : 0), 0);
+  }
+
+  // Cuenta regresiva (mm:ss) de la reserva propia que vence primero
+  get tiempoReserva(): string {
+    const ids = this.ventaMultiple
+      ? Array.from(this.seleccionMultipleIds)
+      : (this.billeteSeleccionado ? [this.billeteSeleccionado.id] : []);
+    const restantes = ids
+      .filter(id => this.reservasSrv.esMia(id))
+      .map(id => this.reservasSrv.restanteMs(id, this.ahora));
+    if (!restantes.length) return '';
+    const seg = Math.ceil(Math.min(...restantes) / 1000);
+    return `${String(Math.floor(seg / 60)).padStart(2, '0')}:${String(seg % 60).padStart(2, '0')}`;
+  }
+
+  // True si la reserva propia más próxima vence en menos de un minuto
+  get reservaPorVencer(): boolean {
+    const t = this.tiempoReserva;
+    return !!t && t.startsWith('00:');
+  }
+
   get vendidosCount(): number {
     return this.billetes.reduce((acc, b) => acc + (b.estado === 'VENDIDO' ? 1 : 0), 0);
   }
@@ -591,7 +1366,7 @@ export class VentaBoletaComponent implements OnInit {
   get seleccionMultipleTotal(): number {
     return Array.from(this.seleccionMultipleIds).reduce((sum, id) => {
       const b = this.billetes.find(x => x.id === id);
-      return sum + (b ? Number(b.precio || 0) : 0);
+      return sum + (b ? this.fraccionesSrv.precio(b) : 0);
     }, 0);
   }
 }
@@ -0,0 +1,32 @@
+// ============================================================
+// Archivo: src/app/models/billete-evento.ts
+// Descripción:
+// Define el evento que el backend envía en tiempo real (SSE)
+// cada vez que cambia el estado de un billete de un sorteo:
+// reservas, ventas, liberaciones o anulaciones.
+// ============================================================
+
+import { Billete } from './billete';
+import { Cliente } from './cliente';
+
+/**
+ * Cambio de estado de un billete.
+ *
+ * Campos:
+ * - sorteoId: Sorteo al que pertenece el billete.
+ * - billete: Estado actual del billete (con su cliente y fecha de venta si fue vendido).
+ * - fecha: Momento en que ocurrió el cambio (ISO string).
+ */
+export interface BilleteEvento {
+  /** ID del sorteo del billete. */
+  sorteoId: number;
+
+  /** Billete con su estado actualizado. */
+  billete: Billete & {
+    cliente?: Cliente | null;
+    fechaVenta?: string | null;
+  };
+
+  /** Momento del cambio. */
+  fecha?: string | null;
+}
@@ -4,15 +4,32 @@
 // Define la interfaz y el tipo enumerado que representan a un
 // billete dentro del sistema de lotería. Este modelo incluye
 // información sobre su número, precio, estado, sorteo asociado
-// y cliente comprador (si aplica).
+// y cliente comprador (si aplica). En sorteos fraccionados, un
+// billete se vende por fracciones a uno o varios clientes.
 // ============================================================
 
 /**
  * Posibles estados de un billete.
  * - DISPONIBLE: el billete aún no ha sido vendido.
- * - VENDIDO: el billete ya fue adquirido por un cliente.
+ * - RESERVADO: un vendedor lo tiene apartado temporalmente mientras completa la venta.
+ * - PARCIAL: se vendieron algunas fracciones y quedan otras disponibles.
+ * - VENDIDO: el billete (todas sus fracciones) ya fue adquirido.
  */
-export type EstadoBillete = 'DISPONIBLE' | 'VENDIDO';
+export type EstadoBillete = 'DISPONIBLE' | 'RESERVADO' | 'PARCIAL' | 'VENDIDO';
+
+/**
+ * Venta de una o varias fracciones de un billete a un cliente.
+ * - cantidad: fracciones compradas por el cliente.
+ * - precio: valor pagado por esas fracciones.
+ */
+export interface VentaFraccion {
+  clienteId: number;
+  clienteNombre?: string;
+  clienteCorreo?: string | null;
+  cantidad: number;
+  precio: number;
+  fechaVenta?: string | null;
+}
 
 /**
  * Representa un billete emitido dentro de un sorteo.
@@ -20,11 +37,18 @@ export type EstadoBillete = 'DISPONIBLE' | 'VENDIDO';
  * Campos:
  * - id: Identificador único del billete.
  * - numero: Número del billete (numérico para permitir orden y comparación).
- * - precio: Valor de venta del billete.
- * - estado: Estado actual del billete ("DISPONIBLE" o "VENDIDO").
+ * - serie: Serie del billete (solo en sorteos que manejan series).
+ * - cifras: Cifras con que se muestra el número (las del sorteo, si el backend las incluye).
+ * - precio: Valor de venta del billete entero (todas sus fracciones).
+ * - fracciones / fraccionesVendidas: Fracciones en que se divide el billete y cuántas se vendieron.
+ * - ventasFraccion: Ventas por fracción (cliente y cantidad), si el billete está fraccionado.
+ * - estado: Estado actual del billete ("DISPONIBLE", "RESERVADO", "PARCIAL" o "VENDIDO").
  * - sorteoId: Identificador del sorteo al que pertenece.
  * - clienteId: Identificador del cliente comprador (si el billete fue vendido).
+ * - reservadoHasta / reservadoPor: Vencimiento y vendedor de la reserva (si está RESERVADO).
  * - sorteoNombre: Campo opcional con el nombre del sorteo (si el backend lo incluye).
+ * - ganador: Indica si el billete coincide con un número ganador del sorteo.
+ * - reembolsoPendiente: Indica si el billete vendido debe reembolsarse (sorteo cancelado).
  */
 export interface Billete {
   /** Identificador único del billete. */
@@ -33,9 +57,24 @@ export interface Billete {
   /** Número del billete (tipo number para facilitar ordenamiento). */
   numero: number;
 
-  /** Precio del billete. */
+  /** Serie del billete, si el sorteo maneja series. */
+  serie?: string | null;
+
+  /** Cifras del número en su sorteo (para mostrarlo con ceros a la izquierda). */
+  cifras?: number | null;
+
+  /** Precio del billete entero. */
   precio: number;
 
+  /** Fracciones en que se vende el billete (1 o sin definir = billete entero). */
+  fracciones?: number;
+
+  /** Fracciones ya vendidas. */
+  fraccionesVendidas?: number;
+
+  /** Ventas por fracción (un registro por cliente y venta). */
+  ventasFraccion?: VentaFraccion[];
+
   /** Estado actual del billete. */
   estado: EstadoBillete;
 
@@ -45,6 +84,18 @@ export interface Billete {
   /** ID del cliente que compró el billete (si aplica). */
   clienteId?: number | null;
 
+  /** Fecha/hora (ISO) en que vence la reserva, si el billete está RESERVADO. */
+  reservadoHasta?: string | null;
+
+  /** ID del vendedor que tiene la reserva, si el billete está RESERVADO. */
+  reservadoPor?: string | null;
+
   /** Nombre del sorteo, solo si el backend lo envía. */
   sorteoNombre?: string;
+
+  /** True si el billete resultó ganador (el backend lo marca al registrar el resultado). */
+  ganador?: boolean;
+
+  /** True si el billete fue vendido en un sorteo cancelado y debe reembolsarse al cliente. */
+  reembolsoPendiente?: boolean;
 }
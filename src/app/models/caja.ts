@@ -0,0 +1,84 @@
+// ============================================================
+// Archivo: src/app/models/caja.ts
+// Descripción:
+// Define las ventas registradas en caja y el cierre de caja del
+// vendedor: totales por método de pago y cuadre del efectivo.
+// ============================================================
+
+import { MetodoPago } from './pago';
+
+/**
+ * Venta registrada en caja (una por billete vendido).
+ *
+ * Campos:
+ * - billeteId / numero / serie / cifras / precio: Billete vendido.
+ * - sorteoId / sorteoNombre: Sorteo del billete.
+ * - fecha: Fecha/hora (ISO) de la venta.
+ * - vendedorId: Vendedor que realizó la venta.
+ * - metodo / recibido / cambio: Forma de pago.
+ * - anulada: True si la venta se anuló después (no suma en el cierre).
+ */
+export interface VentaCaja {
+  id?: number;
+  billeteId: number;
+  numero: number;
+  serie?: string | null;
+  cifras?: number | null;
+  precio: number;
+  sorteoId: number;
+  sorteoNombre?: string;
+  fecha: string;
+  vendedorId?: string | null;
+  metodo: MetodoPago;
+  recibido?: number | null;
+  cambio?: number | null;
+  anulada?: boolean;
+}
+
+/** Total de un método de pago dentro del cierre. */
+export interface TotalMetodo {
+  metodo: MetodoPago;
+  cantidad: number;
+  total: number;
+}
+
+/**
+ * Resumen del día de un vendedor.
+ *
+ * Campos:
+ * - porMetodo: Ventas y total por método de pago (todos los métodos, aunque sumen 0).
+ * - cantidad / total: Ventas vigentes del día y su valor.
+ * - anuladas: Ventas anuladas (no suman en los totales).
+ */
+export interface ResumenCaja {
+  porMetodo: TotalMetodo[];
+  cantidad: number;
+  total: number;
+  anuladas: number;
+}
+
+/**
+ * Cierre de caja registrado al final del turno.
+ *
+ * Campos:
+ * - fecha: Día del cierre ('yyyy-MM-dd').
+ * - vendedorId / vendedorNombre: Vendedor que cierra.
+ * - base: Efectivo con el que se abrió la caja.
+ * - esperadoEfectivo: base + ventas en efectivo.
+ * - contadoEfectivo: Efectivo contado físicamente.
+ * - diferencia: contado − esperado (negativo = faltante).
+ * - porMetodo: Totales por método de pago.
+ * - observaciones: Notas del vendedor.
+ */
+export interface CierreCaja {
+  id?: number;
+  fecha: string;
+  vendedorId: string;
+  vendedorNombre: string;
+  base: number;
+  esperadoEfectivo: number;
+  contadoEfectivo: number;
+  diferencia: number;
+  porMetodo: TotalMetodo[];
+  observaciones?: string | null;
+}
@@ -6,6 +6,23 @@
 // registrar, listar o consultar información de los clientes.
 // ============================================================
 
+/**
+ * Tipos de documento de identidad aceptados:
+ * - CC: Cédula de ciudadanía.
+ * - CE: Cédula de extranjería.
+ * - PA: Pasaporte.
+ * - PPT: Permiso por protección temporal.
+ */
+export type TipoDocumento = 'CC' | 'CE' | 'PA' | 'PPT';
+
+/** Tipos de documento con su etiqueta para los formularios. */
+export const TIPOS_DOCUMENTO: { value: TipoDocumento; label: string }[] = [
+  { value: 'CC', label: 'Cédula de ciudadanía' },
+  { value: 'CE', label: 'Cédula de extranjería' },
+  { value: 'PA', label: 'Pasaporte' },
+  { value: 'PPT', label: 'Permiso por protección temporal' },
+];
+
 /**
  * Representa a un cliente dentro del sistema de lotería.
  *
@@ -13,6 +30,12 @@
  * - id: Identificador único del cliente.
  * - nombre: Nombre completo del cliente.
  * - correo: Dirección de correo electrónico asociada al cliente.
+ * - tipoDocumento / numeroDocumento: Documento de identidad (único).
+ * - telefono: Teléfono de contacto.
+ * - fechaNacimiento: Fecha de nacimiento ('yyyy-MM-dd'); solo se vende
+ *   a mayores de edad.
+ * - activo: False si el cliente fue desactivado (no se le vende, pero
+ *   conserva su historial). Sin informar = activo.
  */
 export interface Cliente {
   /** Identificador único del cliente. */
@@ -23,4 +46,39 @@ export interface Cliente {
 
   /** Correo electrónico del cliente. */
   correo: string;
+
+  /** Tipo de documento de identidad. */
+  tipoDocumento?: TipoDocumento | null;
+
+  /** Número del documento de identidad. */
+  numeroDocumento?: string | null;
+
+  /** Teléfono de contacto. */
+  telefono?: string | null;
+
+  /** Fecha de nacimiento ('yyyy-MM-dd'). */
+  fechaNacimiento?: string | null;
+
+  /** Estado del cliente (false = desactivado). */
+  activo?: boolean;
+}
+
+/** True si al cliente se le puede vender (no fue desactivado). */
+export function clienteActivo(c: Pick<Cliente, 'activo'>): boolean {
+  return c.activo !== false;
+}
+
+/**
+ * Cliente del directorio, con su actividad de compra.
+ *
+ * Campos adicionales:
+ * - compras: Billetes (o fracciones) comprados, sin contar ventas anuladas.
+ * - ultimaCompra: Fecha de la última compra (null si nunca ha comprado).
+ */
+export interface ResumenCliente extends Cliente {
+  /** Cantidad de compras del cliente. */
+  compras: number;
+
+  /** Fecha (ISO) de la última compra. */
+  ultimaCompra?: string | null;
 }
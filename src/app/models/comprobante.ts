@@ -0,0 +1,64 @@
+// ============================================================
+// Archivo: src/app/models/comprobante.ts
+// Descripción:
+// Define las interfaces del comprobante de venta que se entrega al
+// cliente como prueba de compra (PDF imprimible con código QR).
+// ============================================================
+
+import { Pago } from './pago';
+
+/**
+ * Línea del comprobante: un billete vendido.
+ *
+ * Campos:
+ * - sorteoId / sorteoNombre / fechaSorteo: Sorteo al que pertenece el billete.
+ * - billeteId: Identificador del billete.
+ * - numero: Número del billete.
+ * - serie: Serie del billete (si el sorteo maneja series).
+ * - cifras: Cifras con que se imprime el número (las del sorteo).
+ * - fracciones / totalFracciones: Fracciones compradas del billete (solo si está fraccionado).
+ * - precio: Valor pagado por el billete.
+ */
+export interface ComprobanteLinea {
+  sorteoId: number;
+  sorteoNombre: string;
+  fechaSorteo?: string | null;
+  billeteId: number;
+  numero: number;
+  serie?: string | null;
+  cifras?: number | null;
+  fracciones?: number | null;
+  totalFracciones?: number | null;
+  precio: number;
+}
+
+/**
+ * Comprobante de una venta (uno o varios billetes para un mismo cliente).
+ *
+ * Campos:
+ * - codigo: Código corto del comprobante (emitido por el backend), impreso y usado para consultarlo.
+ * - fecha: Fecha/hora de la venta (ISO, asignada por el backend).
+ * - clienteId / clienteNombre / clienteCorreo: Cliente comprador.
+ * - vendedorId / vendedorNombre: Vendedor que realizó la venta.
+ * - lineas: Billetes vendidos.
+ * - total: Suma de los precios de las líneas.
+ * - pago: Forma de pago (en efectivo, con recibido y cambio).
+ * - firma: Firma (hex) del contenido del comprobante, calculada por el backend
+ *   con su clave secreta; no se puede recalcular en el navegador.
+ * - firmaValida: Al consultarlo, true si el backend verificó que la firma
+ *   corresponde al contenido guardado.
+ */
+export interface Comprobante {
+  codigo: string;
+  fecha: string;
+  clienteId: number;
+  clienteNombre: string;
+  clienteCorreo?: string | null;
+  vendedorId: string;
+  vendedorNombre: string;
+  lineas: ComprobanteLinea[];
+  total: number;
+  pago?: Pago | null;
+  firma: string;
+  firmaValida?: boolean;
+}
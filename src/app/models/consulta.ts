@@ -0,0 +1,49 @@
+// ============================================================
+// Archivo: src/app/models/consulta.ts
+// Descripción:
+// Define las respuestas de la consulta pública de billetes y
+// comprobantes. El backend las entrega sin datos personales: el
+// propietario ya viene enmascarado y el resultado sin ganadores.
+// ============================================================
+
+import { Billete } from './billete';
+import { Sorteo } from './sorteo';
+import { ResultadoSorteo } from './resultado';
+
+/** Billete tal como lo expone la consulta pública (sin ventas ni cliente). */
+export type BilletePublico = Pick<
+  Billete,
+  'id' | 'numero' | 'serie' | 'estado' | 'precio' | 'fracciones' | 'fraccionesVendidas' | 'sorteoId' | 'ganador'
+>;
+
+/**
+ * Estado público de un billete.
+ *
+ * Campos:
+ * - sorteo: Sorteo del billete (con su plan de premios).
+ * - billete: Número, serie, estado y fracciones vendidas.
+ * - propietario: Dueño(s) enmascarados por el backend (ej. "A** P**** · 1/2"), o null si no se ha vendido.
+ * - resultado: Números y serie ganadores, si el sorteo ya tiene resultado.
+ */
+export interface ConsultaBillete {
+  sorteo: Sorteo;
+  billete: BilletePublico;
+  propietario: string | null;
+  resultado: Pick<ResultadoSorteo, 'numeros' | 'serie'> | null;
+}
+
+/**
+ * Comprobante consultado por su código.
+ *
+ * Campos:
+ * - codigo / fecha / total: Datos impresos en el comprobante.
+ * - firmaValida: True si el backend verificó la firma del comprobante.
+ * - billetes: Estado actual de cada billete del comprobante.
+ */
+export interface ConsultaComprobante {
+  codigo: string;
+  fecha: string;
+  total: number;
+  firmaValida: boolean;
+  billetes: ConsultaBillete[];
+}
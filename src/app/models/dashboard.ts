@@ -0,0 +1,48 @@
+// ============================================================
+// Archivo: src/app/models/dashboard.ts
+// Descripción:
+// Estructuras del tablero de ventas: ventas agregadas por día y
+// mejores clientes de un período, calculadas por el backend.
+// ============================================================
+
+/**
+ * Ventas de un día.
+ *
+ * Campos:
+ * - fecha: Día ('yyyy-MM-dd').
+ * - cantidad: Billetes (o fracciones) vendidos ese día.
+ * - total: Valor vendido en COP (anuladas excluidas).
+ */
+export interface VentasDia {
+  fecha: string;
+  cantidad: number;
+  total: number;
+}
+
+/**
+ * Cliente con más compras en el período.
+ *
+ * Campos:
+ * - clienteId / nombre / correo: Cliente.
+ * - billetes: Billetes (o fracciones) comprados.
+ * - total: Valor comprado en COP.
+ */
+export interface TopCliente {
+  clienteId: number;
+  nombre: string;
+  correo?: string | null;
+  billetes: number;
+  total: number;
+}
+
+/**
+ * Estadísticas de ventas de un período.
+ *
+ * Campos:
+ * - porDia: Ventas por día (el backend puede omitir los días sin ventas).
+ * - topClientes: Clientes con mayor valor comprado, de mayor a menor.
+ */
+export interface EstadisticasVentas {
+  porDia: VentasDia[];
+  topClientes: TopCliente[];
+}
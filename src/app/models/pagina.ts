@@ -0,0 +1,28 @@
+// ============================================================
+// Archivo: src/app/models/pagina.ts
+// Descripción:
+// Estructura genérica de una respuesta paginada del backend:
+// los elementos de la página pedida y el total de resultados
+// que cumplen el filtro, para armar la navegación entre páginas.
+// ============================================================
+
+/**
+ * Página de resultados.
+ *
+ * Campos:
+ * - contenido: Elementos de la página.
+ * - total: Total de elementos que cumplen el filtro (todas las páginas).
+ * - pagina: Número de la página (empieza en 0).
+ * - tamano: Elementos por página.
+ */
+export interface Pagina<T> {
+  contenido: T[];
+  total: number;
+  pagina: number;
+  tamano: number;
+}
+
+/** Cantidad de páginas de un resultado (mínimo 1). */
+export function totalPaginas(p: Pick<Pagina<unknown>, 'total' | 'tamano'>): number {
+  return Math.max(1, Math.ceil(p.total / Math.max(1, p.tamano)));
+}
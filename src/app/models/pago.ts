@@ -0,0 +1,37 @@
+// ============================================================
+// Archivo: src/app/models/pago.ts
+// Descripción:
+// Define la forma de pago de una venta: el método usado por el
+// cliente y, para pagos en efectivo, el monto recibido y el cambio.
+// ============================================================
+
+/**
+ * Métodos de pago aceptados en el punto de venta.
+ * - EFECTIVO: pago en billetes/monedas (se registra recibido y cambio).
+ * - TARJETA: débito o crédito en datáfono.
+ * - TRANSFERENCIA: transferencia bancaria.
+ * - NEQUI: pago por la billetera Nequi.
+ */
+export type MetodoPago = 'EFECTIVO' | 'TARJETA' | 'TRANSFERENCIA' | 'NEQUI';
+
+/** Opciones de método de pago para selects y reportes (en orden de presentación). */
+export const METODOS_PAGO: { value: MetodoPago; label: string }[] = [
+  { value: 'EFECTIVO', label: 'Efectivo' },
+  { value: 'TARJETA', label: 'Tarjeta' },
+  { value: 'TRANSFERENCIA', label: 'Transferencia' },
+  { value: 'NEQUI', label: 'Nequi' },
+];
+
+/**
+ * Pago de una venta.
+ *
+ * Campos:
+ * - metodo: Método de pago usado.
+ * - recibido: Monto entregado por el cliente (solo EFECTIVO).
+ * - cambio: Cambio devuelto al cliente (solo EFECTIVO).
+ */
+export interface Pago {
+  metodo: MetodoPago;
+  recibido?: number | null;
+  cambio?: number | null;
+}
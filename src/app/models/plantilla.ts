@@ -0,0 +1,90 @@
+// ============================================================
+// Archivo: src/app/models/plantilla.ts
+// Descripción:
+// Define las plantillas de sorteo: la configuración guardada de
+// un sorteo que se repite (nombre, numeración, precio, fracciones
+// y premios) y, opcionalmente, su recurrencia semanal para
+// programar con anticipación los próximos sorteos.
+// ============================================================
+
+import { Premio } from './premio';
+
+/** Días de la semana para la recurrencia (0 = domingo … 6 = sábado). */
+export const DIAS_SEMANA: { value: number; label: string }[] = [
+  { value: 1, label: 'Lun' },
+  { value: 2, label: 'Mar' },
+  { value: 3, label: 'Mié' },
+  { value: 4, label: 'Jue' },
+  { value: 5, label: 'Vie' },
+  { value: 6, label: 'Sáb' },
+  { value: 0, label: 'Dom' },
+];
+
+/**
+ * Recurrencia semanal de una plantilla.
+ *
+ * Campos:
+ * - dias: Días de la semana en que se juega (0 = domingo … 6 = sábado).
+ * - hora: Hora del sorteo ('HH:mm', en la zona de la plantilla).
+ * - anticipacion: Cuántos de los próximos sorteos se dejan creados.
+ */
+export interface Recurrencia {
+  dias: number[];
+  hora: string;
+  anticipacion: number;
+}
+
+/**
+ * Plantilla de sorteo.
+ *
+ * Campos:
+ * - id: Identificador de la plantilla.
+ * - nombre: Nombre de la plantilla (ej. "Semanal del viernes").
+ * - patronNombre: Nombre de los sorteos creados; "{fecha}" se reemplaza
+ *   por la fecha del sorteo (ej. "Sorteo del viernes {fecha}").
+ * - zonaHoraria / minutosCierre: Zona y cierre de ventas del sorteo.
+ * - cifras / desde / hasta / series: Numeración de los billetes.
+ * - fracciones / precio: Fracciones por billete y precio del entero.
+ * - premios: Plan de premios.
+ * - recurrencia: Programación semanal (null = sin recurrencia).
+ */
+export interface PlantillaSorteo {
+  /** Identificador de la plantilla (asignado por el backend). */
+  id: number;
+
+  /** Nombre de la plantilla. */
+  nombre: string;
+
+  /** Patrón del nombre de cada sorteo ("{fecha}" = fecha del sorteo). */
+  patronNombre: string;
+
+  /** Zona horaria del sorteo (IANA). */
+  zonaHoraria: string;
+
+  /** Minutos antes del sorteo en que cierran las ventas. */
+  minutosCierre: number;
+
+  /** Cifras del número de billete. */
+  cifras: number;
+
+  /** Primer número a generar. */
+  desde: number;
+
+  /** Último número a generar. */
+  hasta: number;
+
+  /** Cantidad de series (0 = sin series). */
+  series: number;
+
+  /** Fracciones por billete (1 = entero). */
+  fracciones: number;
+
+  /** Precio del billete entero en COP. */
+  precio: number;
+
+  /** Plan de premios. */
+  premios: Premio[];
+
+  /** Recurrencia semanal (null o sin definir = sin recurrencia). */
+  recurrencia?: Recurrencia | null;
+}
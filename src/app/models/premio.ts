@@ -0,0 +1,70 @@
+// ============================================================
+// Archivo: src/app/models/premio.ts
+// Descripción:
+// Define el plan de premios de un sorteo: cada premio (nivel)
+// tiene un nombre, un valor y una regla de coincidencia contra
+// el resultado (premio mayor, secos y aproximaciones).
+// ============================================================
+
+import { Billete } from './billete';
+
+/**
+ * Reglas de coincidencia soportadas por el plan de premios.
+ * - MAYOR: el billete coincide exactamente con el número mayor (y su serie, si aplica).
+ * - SECO: el billete coincide con alguno de los números secos (números adicionales del resultado).
+ * - ULTIMAS_CIFRAS: las últimas N cifras coinciden con las del número mayor.
+ * - OTRA_SERIE: mismo número mayor, pero en una serie distinta a la ganadora.
+ */
+export type TipoPremio = 'MAYOR' | 'SECO' | 'ULTIMAS_CIFRAS' | 'OTRA_SERIE';
+
+/**
+ * Representa un nivel del plan de premios de un sorteo.
+ *
+ * Campos:
+ * - id: Identificador del premio (asignado por el backend).
+ * - nombre: Nombre visible del premio (ej. "Premio mayor", "Seco de 10 millones").
+ * - tipo: Regla de coincidencia contra el resultado.
+ * - cifras: Número de cifras a comparar (solo para ULTIMAS_CIFRAS).
+ * - valor: Monto del premio en COP.
+ */
+export interface Premio {
+  /** Identificador del premio (opcional al crear). */
+  id?: number;
+
+  /** Nombre del premio. */
+  nombre: string;
+
+  /** Regla de coincidencia. */
+  tipo: TipoPremio;
+
+  /** Cifras a comparar (solo ULTIMAS_CIFRAS). */
+  cifras?: number | null;
+
+  /** Valor del premio en COP. */
+  valor: number;
+}
+
+/**
+ * Parte de un premio que corresponde a un cliente: en billetes
+ * fraccionados el premio se reparte en proporción a las fracciones
+ * compradas (las fracciones no vendidas no cobran premio).
+ */
+export interface PagoPremio {
+  clienteId: number;
+  clienteNombre?: string;
+  clienteCorreo?: string | null;
+  /** Fracciones del cliente sobre el total del billete (ej. 2 de 3). */
+  fracciones: number;
+  totalFracciones: number;
+  /** Valor a pagar al cliente. */
+  valor: number;
+}
+
+/** Resultado de evaluar un billete contra el plan de premios. */
+export interface PremioObtenido {
+  /** Billete premiado. */
+  billete: Billete;
+
+  /** Premio de mayor valor que obtuvo el billete. */
+  premio: Premio;
+}
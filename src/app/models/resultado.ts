@@ -0,0 +1,52 @@
+// ============================================================
+// Archivo: src/app/models/resultado.ts
+// Descripción:
+// Define la interfaz que representa el resultado oficial de un
+// sorteo ya realizado: los números ganadores registrados por el
+// administrador y los billetes (con su cliente) que resultaron
+// ganadores.
+// ============================================================
+
+import { Billete } from './billete';
+import { Cliente } from './cliente';
+
+/**
+ * Billete ganador devuelto por el backend junto al resultado.
+ * Incluye el cliente comprador cuando el billete fue vendido.
+ */
+export type BilleteGanador = Billete & {
+  /** Cliente que compró el billete ganador (null si no se vendió). */
+  cliente?: Cliente | null;
+};
+
+/**
+ * Representa el resultado registrado para un sorteo.
+ *
+ * Campos:
+ * - id: Identificador único del resultado.
+ * - sorteoId: Identificador del sorteo al que pertenece.
+ * - numeros: Número(s) ganador(es) ingresados por el administrador. El primero
+ *   es el número mayor; los demás corresponden a los secos.
+ * - serie: Serie ganadora del número mayor (solo en sorteos con series).
+ * - fechaRegistro: Fecha en que se registró el resultado (ISO string).
+ * - ganadores: Billetes que coinciden con alguno de los números ganadores.
+ */
+export interface ResultadoSorteo {
+  /** Identificador único del resultado. */
+  id: number;
+
+  /** ID del sorteo al que pertenece el resultado. */
+  sorteoId: number;
+
+  /** Número(s) ganador(es) del sorteo: [mayor, ...secos]. */
+  numeros: number[];
+
+  /** Serie ganadora del número mayor (si aplica). */
+  serie?: string | null;
+
+  /** Fecha de registro del resultado. */
+  fechaRegistro?: string | null;
+
+  /** Billetes ganadores (vendidos o no). */
+  ganadores: BilleteGanador[];
+}
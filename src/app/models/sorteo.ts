@@ -7,14 +7,50 @@
 // operaciones de comunicación con el backend (API REST).
 // ============================================================
 
+import { Premio } from './premio';
+
+/**
+ * Ciclo de vida de un sorteo.
+ * - BORRADOR: creado, aún sin abrir a la venta (se están generando billetes o configurando).
+ * - ABIERTO: a la venta.
+ * - CERRADO: ventas cerradas, pendiente de jugarse / registrar el resultado.
+ * - JUGADO: resultado registrado.
+ * - CANCELADO: no se realizará; los billetes vendidos quedan para reembolso.
+ *
+ * Transiciones permitidas (ver EstadoSorteoService):
+ * BORRADOR → ABIERTO | CANCELADO
+ * ABIERTO  → CERRADO | CANCELADO
+ * CERRADO  → JUGADO  | CANCELADO
+ */
+export type EstadoSorteo = 'BORRADOR' | 'ABIERTO' | 'CERRADO' | 'JUGADO' | 'CANCELADO';
+
+/** Zonas horarias disponibles para programar un sorteo (IANA). */
+export const ZONAS_HORARIAS: { value: string; label: string }[] = [
+  { value: 'America/Bogota', label: 'Bogotá (UTC−5)' },
+  { value: 'America/Lima', label: 'Lima (UTC−5)' },
+  { value: 'America/Mexico_City', label: 'Ciudad de México (UTC−6)' },
+  { value: 'America/New_York', label: 'Nueva York (UTC−5/−4)' },
+  { value: 'Europe/Madrid', label: 'Madrid (UTC+1/+2)' },
+  { value: 'UTC', label: 'UTC' },
+];
+
 /**
  * Representa un sorteo del sistema de lotería.
  *
  * Campos:
  * - id: Identificador único del sorteo.
  * - nombre: Nombre descriptivo del sorteo (por ejemplo, "Sorteo de Navidad").
- * - fechaSorteo: Fecha programada para la realización del sorteo (en formato ISO string o 'yyyy-MM-dd').
+ * - fechaSorteo: Fecha y hora del sorteo ('yyyy-MM-ddTHH:mm:ss', hora de pared en zonaHoraria).
+ * - zonaHoraria: Zona horaria del sorteo (IANA, ej. 'America/Bogota').
+ * - minutosCierre: Minutos antes del sorteo en que cierran las ventas.
  * - totalBilletes: Cantidad total de billetes generados para este sorteo.
+ * - cifras / desde / hasta / series: Numeración con que se generaron los billetes.
+ * - precio: Precio base del billete entero al generarlos.
+ * - fracciones: Fracciones en que se vende cada billete (1 = billete entero).
+ * - premios: Plan de premios del sorteo (premio mayor, secos y aproximaciones).
+ * - estado: Estado del sorteo dentro de su ciclo de vida.
+ * - motivoCancelacion: Motivo registrado si el sorteo fue cancelado.
+ * - plantillaId: Plantilla con la que se creó el sorteo (si aplica).
  */
 export interface Sorteo {
   /** Identificador único del sorteo. */
@@ -23,9 +59,61 @@ export interface Sorteo {
   /** Nombre del sorteo (ejemplo: "Sorteo de Año Nuevo"). */
   nombre: string;
 
-  /** Fecha en la que se llevará a cabo el sorteo. */
+  /** Fecha y hora en la que se llevará a cabo el sorteo (en la zona del sorteo). */
   fechaSorteo: string;
 
+  /** Zona horaria del sorteo; si falta, se usa la zona por defecto del environment. */
+  zonaHoraria?: string;
+
+  /** Minutos antes del sorteo en que cierran las ventas; si falta, el valor del environment. */
+  minutosCierre?: number;
+
   /** Número total de billetes emitidos para el sorteo. */
   totalBilletes: number;
+
+  /** Cifras del número de billete (ej. 4 → "0007"); sin definir, el número se muestra tal cual. */
+  cifras?: number;
+
+  /** Primer número generado (sin definir en sorteos anteriores a guardarlo). */
+  desde?: number;
+
+  /** Último número generado (sin definir en sorteos anteriores a guardarlo). */
+  hasta?: number;
+
+  /** Cantidad de series del sorteo (0 o sin definir = sin series). */
+  series?: number;
+
+  /** Precio base del billete entero (sin definir en sorteos anteriores a guardarlo). */
+  precio?: number;
+
+  /** Fracciones por billete (1 o sin definir = se vende entero). */
+  fracciones?: number;
+
+  /** Plan de premios del sorteo (si el backend lo incluye). */
+  premios?: Premio[];
+
+  /** Estado del sorteo (BORRADOR, ABIERTO, CERRADO, JUGADO o CANCELADO). */
+  estado: EstadoSorteo;
+
+  /** Motivo registrado al cancelar el sorteo. */
+  motivoCancelacion?: string | null;
+
+  /** Plantilla con la que se creó el sorteo (recurrencias). */
+  plantillaId?: number | null;
+}
+
+/**
+ * Resumen de un sorteo para el listado: el sorteo con sus contadores
+ * de billetes y lo recaudado, calculados por el backend (sin descargar
+ * los billetes).
+ *
+ * Campos:
+ * - vendidos: Billetes vendidos por completo.
+ * - disponibles: Billetes con fracciones por vender (incluye reservados y parciales).
+ * - recaudado: Total vendido en COP (ventas anuladas excluidas).
+ */
+export interface ResumenSorteo extends Sorteo {
+  vendidos: number;
+  disponibles: number;
+  recaudado: number;
 }
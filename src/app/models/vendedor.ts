@@ -0,0 +1,22 @@
+// ============================================================
+// Archivo: src/app/models/vendedor.ts
+// Descripción:
+// Define la interfaz que identifica al vendedor que opera esta
+// estación (navegador). Se usa para atribuir reservas de billetes
+// y ventas al vendedor correspondiente.
+// ============================================================
+
+/**
+ * Representa al vendedor de la estación actual.
+ *
+ * Campos:
+ * - id: Identificador único de la estación/vendedor (generado localmente).
+ * - nombre: Nombre visible del vendedor.
+ */
+export interface Vendedor {
+  /** Identificador único del vendedor. */
+  id: string;
+
+  /** Nombre visible del vendedor. */
+  nombre: string;
+}
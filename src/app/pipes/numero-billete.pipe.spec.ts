@@ -0,0 +1,23 @@
+import { NumeroBilletePipe, formatearNumeroBillete } from './numero-billete.pipe';
+
+describe('NumeroBilletePipe', () => {
+  const pipe = new NumeroBilletePipe();
+
+  it('should pad the number to the sorteo digits', () => {
+    expect(formatearNumeroBillete(7, 4)).toBe('0007');
+    expect(pipe.transform(42, 3)).toBe('042');
+  });
+
+  it('should append the serie when the ticket has one', () => {
+    expect(pipe.transform({ numero: 7, serie: '045', cifras: 4 })).toBe('0007-045');
+  });
+
+  it('should prefer the given digits over the ticket ones', () => {
+    expect(pipe.transform({ numero: 7, cifras: 2 }, 5)).toBe('00007');
+  });
+
+  it('should leave the number as is without digits', () => {
+    expect(pipe.transform({ numero: 1375 })).toBe('1375');
+    expect(pipe.transform(null)).toBe('');
+  });
+});
@@ -0,0 +1,52 @@
+// ============================================================
+// Archivo: src/app/pipes/numero-billete.pipe.ts
+// Descripción:
+// Formato único del código de un billete en toda la aplicación
+// (grilla de venta, detalle, historial, resultados y comprobantes):
+// número con ceros a la izquierda según las cifras del sorteo y,
+// si aplica, la serie: 7 → "0007", serie 045 → "0007-045".
+// ============================================================
+
+import { Pipe, PipeTransform } from '@angular/core';
+
+/** Datos de un billete necesarios para formatear su código. */
+export type NumeroBillete = {
+  numero: number | string;
+  serie?: string | null;
+  cifras?: number | null;
+};
+
+/**
+ * Código visible de un billete: número con `cifras` dígitos y serie.
+ *
+ * @param numero Número del billete.
+ * @param cifras Cifras del número en su sorteo (sin definir: el número tal cual).
+ * @param serie Serie del billete (opcional).
+ * @returns string (ej. "0007" o "0007-045")
+ */
+export function formatearNumeroBillete(
+  numero: number | string,
+  cifras?: number | null,
+  serie?: string | null
+): string {
+  const texto = String(numero ?? '');
+  const num = cifras ? texto.padStart(cifras, '0') : texto;
+  return serie ? `${num}-${serie}` : num;
+}
+
+/**
+ * Pipe `numeroBillete`.
+ *
+ * Uso:
+ * - {{ billete | numeroBillete }}            → usa billete.cifras y billete.serie
+ * - {{ billete | numeroBillete:sorteo.cifras }} → cifras del sorteo
+ * - {{ 42 | numeroBillete:4 }}                → "0042" (números ganadores)
+ */
+@Pipe({ name: 'numeroBillete', standalone: true })
+export class NumeroBilletePipe implements PipeTransform {
+  transform(valor: NumeroBillete | number | string | null | undefined, cifras?: number | null): string {
+    if (valor === null || valor === undefined) return '';
+    if (typeof valor !== 'object') return formatearNumeroBillete(valor, cifras);
+    return formatearNumeroBillete(valor.numero, cifras ?? valor.cifras, valor.serie);
+  }
+}
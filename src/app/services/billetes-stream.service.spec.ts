@@ -0,0 +1,67 @@
+import { TestBed } from '@angular/core/testing';
+import { BilletesStreamService } from './billetes-stream.service';
+import { BilleteEvento } from '../models/billete-evento';
+
+/** EventSource mínimo controlado por la prueba. */
+class FakeEventSource {
+  static CLOSED = 2;
+  static ultima: FakeEventSource | null = null;
+
+  readyState = 0;
+  onopen: (() => void) | null = null;
+  onerror: (() => void) | null = null;
+  private listeners: Record<string, ((msg: { data: string }) => void)[]> = {};
+
+  constructor(public url: string) {
+    FakeEventSource.ultima = this;
+  }
+
+  addEventListener(tipo: string, fn: (msg: { data: string }) => void) {
+    (this.listeners[tipo] ??= []).push(fn);
+  }
+
+  emitir(tipo: string, data: string) {
+    (this.listeners[tipo] ?? []).forEach((fn) => fn({ data }));
+  }
+
+  close() {
+    this.readyState = FakeEventSource.CLOSED;
+  }
+}
+
+describe('BilletesStreamService', () => {
+  let service: BilletesStreamService;
+  const original = (window as any).EventSource;
+
+  beforeEach(() => {
+    (window as any).EventSource = FakeEventSource;
+    TestBed.configureTestingModule({});
+    service = TestBed.inject(BilletesStreamService);
+  });
+
+  afterEach(() => {
+    (window as any).EventSource = original;
+  });
+
+  it('should open the stream of the given sorteo and emit parsed events', () => {
+    const recibidos: BilleteEvento[] = [];
+    const sub = service.observar(3).subscribe((ev) => recibidos.push(ev));
+    const es = FakeEventSource.ultima!;
+
+    expect(es.url).toContain('/sorteos/3/billetes/stream');
+
+    es.onopen?.();
+    expect(service.estado$.value).toBe('CONECTADO');
+
+    const billete = { id: 42, numero: 7, precio: 10000, estado: 'VENDIDO', sorteoId: 3 };
+    es.emitir('billete', JSON.stringify({ sorteoId: 3, billete }));
+    es.emitir('billete', 'no-es-json');
+
+    expect(recibidos.length).toBe(1);
+    expect(recibidos[0].billete.id).toBe(42);
+
+    sub.unsubscribe();
+    expect(es.readyState).toBe(FakeEventSource.CLOSED);
+    expect(service.estado$.value).toBe('DESCONECTADO');
+  });
+});
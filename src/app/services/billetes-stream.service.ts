@@ -0,0 +1,83 @@
+// ============================================================
+// Archivo: src/app/services/billetes-stream.service.ts
+// Descripción:
+// Servicio que abre un canal en tiempo real (Server-Sent Events)
+// con los cambios de estado de los billetes de un sorteo, para que
+// la pantalla de venta vea al instante las reservas y ventas de
+// otros vendedores.
+// ============================================================
+
+import { Injectable } from '@angular/core';
+import { BehaviorSubject, Observable } from 'rxjs';
+import { environment } from '../environments/environment';
+import { BilleteEvento } from '../models/billete-evento';
+
+/** Estado de la conexión en tiempo real. */
+export type EstadoConexion = 'CONECTADO' | 'RECONECTANDO' | 'DESCONECTADO';
+
+/**
+ * Servicio del canal en tiempo real de billetes.
+ *
+ * Endpoint esperado (SSE):
+ * - GET  {streamUrl}/sorteos/{id}/billetes/stream
+ *     Eventos con nombre "billete" y data JSON: BilleteEvento
+ *
+ * Notas:
+ * - EventSource reintenta la conexión automáticamente; mientras lo hace
+ *   el estado pasa a RECONECTANDO.
+ * - El canal no repite los eventos emitidos sin conexión: quien lo use
+ *   debe recargar los billetes cada vez que estado$ vuelve a CONECTADO.
+ * - En desarrollo puede usarse el servidor local tools/stream-server.mjs
+ *   (ver environment.streamUrl).
+ */
+@Injectable({ providedIn: 'root' })
+export class BilletesStreamService {
+  /** URL base del canal en tiempo real. */
+  private readonly base = `${environment.streamUrl}/sorteos`;
+
+  /** Estado actual de la conexión (para indicadores en la UI). */
+  readonly estado$ = new BehaviorSubject<EstadoConexion>('DESCONECTADO');
+
+  // ============================================================
+  // OBSERVAR CAMBIOS DE BILLETES DE UN SORTEO
+  // ------------------------------------------------------------
+  // Abre la conexión al suscribirse y la cierra al desuscribirse.
+  // Los mensajes que no se puedan interpretar se descartan.
+  //
+  // @param sorteoId ID del sorteo.
+  // @returns Observable<BilleteEvento>
+  //
+  // Ejemplo:
+  // this.stream.observar(3).subscribe(ev => console.log(ev.billete.estado));
+  // ============================================================
+  observar(sorteoId: number): Observable<BilleteEvento> {
+    return new Observable<BilleteEvento>((subscriber) => {
+      if (typeof EventSource === 'undefined') {
+        this.estado$.next('DESCONECTADO');
+        subscriber.complete();
+        return;
+      }
+
+      const es = new EventSource(`${this.base}/${sorteoId}/billetes/stream`);
+      this.estado$.next('RECONECTANDO');
+
+      es.onopen = () => this.estado$.next('CONECTADO');
+      es.onerror = () =>
+        this.estado$.next(es.readyState === EventSource.CLOSED ? 'DESCONECTADO' : 'RECONECTANDO');
+
+      es.addEventListener('billete', (msg) => {
+        try {
+          const ev = JSON.parse((msg as MessageEvent<string>).data) as BilleteEvento;
+          if (ev?.billete?.id) subscriber.next(ev);
+        } catch {
+          // Mensaje mal formado: se ignora.
+        }
+      });
+
+      return () => {
+        es.close();
+        this.estado$.next('DESCONECTADO');
+      };
+    });
+  }
+}
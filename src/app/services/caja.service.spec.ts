@@ -0,0 +1,52 @@
+import { TestBed } from '@angular/core/testing';
+import { provideHttpClient } from '@angular/common/http';
+import { provideHttpClientTesting } from '@angular/common/http/testing';
+import { CajaService } from './caja.service';
+import { VentaCaja } from '../models/caja';
+
+describe('CajaService', () => {
+  let service: CajaService;
+
+  const venta = (billeteId: number, extra: Partial<VentaCaja> = {}): VentaCaja => ({
+    billeteId,
+    numero: billeteId,
+    precio: 10000,
+    sorteoId: 1,
+    fecha: '2025-01-10T10:00:00',
+    metodo: 'EFECTIVO',
+    ...extra,
+  });
+
+  beforeEach(() => {
+    TestBed.configureTestingModule({
+      providers: [provideHttpClient(), provideHttpClientTesting()],
+    });
+    service = TestBed.inject(CajaService);
+  });
+
+  it('should total the sales per payment method', () => {
+    const resumen = service.resumir([
+      venta(1),
+      venta(2, { precio: 5000 }),
+      venta(3, { metodo: 'NEQUI' }),
+    ]);
+
+    expect(resumen.porMetodo.find((m) => m.metodo === 'EFECTIVO')).toEqual({ metodo: 'EFECTIVO', cantidad: 2, total: 15000 });
+    expect(resumen.porMetodo.find((m) => m.metodo === 'NEQUI')?.total).toBe(10000);
+    expect(resumen.cantidad).toBe(3);
+    expect(resumen.total).toBe(25000);
+  });
+
+  it('should list every payment method even without sales', () => {
+    const resumen = service.resumir([]);
+    expect(resumen.porMetodo.map((m) => m.metodo)).toEqual(['EFECTIVO', 'TARJETA', 'TRANSFERENCIA', 'NEQUI']);
+    expect(resumen.total).toBe(0);
+  });
+
+  it('should leave cancelled sales out of the totals', () => {
+    const resumen = service.resumir([venta(1), venta(2, { anulada: true })]);
+    expect(resumen.total).toBe(10000);
+    expect(resumen.cantidad).toBe(1);
+    expect(resumen.anuladas).toBe(1);
+  });
+});
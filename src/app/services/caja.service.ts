@@ -0,0 +1,95 @@
+// ============================================================
+// Archivo: src/app/services/caja.service.ts
+// Descripción:
+// Servicio del cierre de caja: consulta las ventas del día de un
+// vendedor, las totaliza por método de pago y registra el cierre
+// con el cuadre del efectivo al final del turno.
+// ============================================================
+
+import { inject, Injectable } from '@angular/core';
+import { HttpClient, HttpParams } from '@angular/common/http';
+import { Observable } from 'rxjs';
+import { environment } from '../environments/environment';
+import { CierreCaja, ResumenCaja, VentaCaja } from '../models/caja';
+import { METODOS_PAGO } from '../models/pago';
+
+/**
+ * Servicio de caja.
+ *
+ * Endpoints esperados en el backend:
+ * - GET   {apiUrl}/caja/ventas?fecha=yyyy-MM-dd&vendedorId=...
+ *     Respuesta: VentaCaja[] (incluye las anuladas con anulada = true)
+ *
+ * - POST  {apiUrl}/caja/cierres
+ *     Body: CierreCaja
+ *     Respuesta: CierreCaja (con id)
+ */
+@Injectable({ providedIn: 'root' })
+export class CajaService {
+  /** Inyección de HttpClient mediante la función inject(). */
+  private readonly http = inject(HttpClient);
+
+  /** URL base del recurso de caja. */
+  private readonly base = `${environment.apiUrl}/caja`;
+
+  // ============================================================
+  // VENTAS DEL DÍA
+  // ------------------------------------------------------------
+  // Devuelve las ventas de una fecha, opcionalmente solo las de
+  // un vendedor.
+  //
+  // Método HTTP: GET
+  // URL: {apiUrl}/caja/ventas?fecha=yyyy-MM-dd&vendedorId=...
+  //
+  // @param fecha Día a consultar ('yyyy-MM-dd').
+  // @param vendedorId ID del vendedor (opcional; sin él, todas las ventas del día).
+  // @returns Observable<VentaCaja[]>
+  // ============================================================
+  ventasDelDia(fecha: string, vendedorId?: string | null): Observable<VentaCaja[]> {
+    let params = new HttpParams().set('fecha', fecha);
+    if (vendedorId) params = params.set('vendedorId', vendedorId);
+    return this.http.get<VentaCaja[]>(`${this.base}/ventas`, { params });
+  }
+
+  // ============================================================
+  // REGISTRAR CIERRE DE CAJA
+  // ------------------------------------------------------------
+  // Método HTTP: POST
+  // URL: {apiUrl}/caja/cierres
+  //
+  // @param cierre Totales del día y cuadre del efectivo.
+  // @returns Observable<CierreCaja>
+  // ============================================================
+  registrarCierre(cierre: CierreCaja): Observable<CierreCaja> {
+    return this.http.post<CierreCaja>(`${this.base}/cierres`, cierre);
+  }
+
+  // ============================================================
+  // RESUMEN POR MÉTODO DE PAGO
+  // ------------------------------------------------------------
+  // Totaliza las ventas vigentes por método (las anuladas solo se
+  // cuentan aparte). Siempre incluye todos los métodos de pago.
+  //
+  // @param ventas Ventas del día.
+  // @returns ResumenCaja
+  // ============================================================
+  resumir(ventas: VentaCaja[]): ResumenCaja {
+    const vigentes = ventas.filter((v) => !v.anulada);
+
+    const porMetodo = METODOS_PAGO.map(({ value }) => {
+      const delMetodo = vigentes.filter((v) => v.metodo === value);
+      return {
+        metodo: value,
+        cantidad: delMetodo.length,
+        total: delMetodo.reduce((acc, v) => acc + Number(v.precio || 0), 0),
+      };
+    });
+
+    return {
+      porMetodo,
+      cantidad: vigentes.length,
+      total: porMetodo.reduce((acc, m) => acc + m.total, 0),
+      anuladas: ventas.length - vigentes.length,
+    };
+  }
+}
@@ -0,0 +1,155 @@
+// ============================================================
+// Archivo: src/app/services/carrito.service.ts
+// Descripción:
+// Servicio del carrito de venta: acumula billetes de varios sorteos
+// para un mismo cliente y los vende en un solo pago, con una única
+// confirmación y un único comprobante. Los billetes del carrito
+// conservan su reserva (RESERVADO) mientras el vendedor cambia de
+// sorteo; si una reserva vence, el billete sale del carrito.
+// ============================================================
+
+import { inject, Injectable } from '@angular/core';
+import { BehaviorSubject, Observable, catchError, forkJoin, map, of } from 'rxjs';
+import { Billete } from '../models/billete';
+import { Cliente } from '../models/cliente';
+import { Sorteo } from '../models/sorteo';
+import { Pago } from '../models/pago';
+import { ReservasService } from './reservas.service';
+import { FraccionesService } from './fracciones.service';
+import { VentasService, VentaLoteItem } from './ventas.service';
+
+/** Billete agregado al carrito, con los datos del sorteo para mostrarlo y facturarlo. */
+export interface CarritoItem {
+  sorteo: Pick<Sorteo, 'id' | 'nombre' | 'fechaSorteo'>;
+  billete: Billete;
+}
+
+/** Resultado del pago de un billete del carrito. */
+export type CarritoResultado = VentaLoteItem & { item: CarritoItem };
+
+/**
+ * Servicio del carrito de venta (estado en memoria, compartido por la app).
+ *
+ * Notas:
+ * - El pago se hace con una venta por lote por cada sorteo del carrito
+ *   (POST {apiUrl}/ventas/lote en modo PARCIAL), en paralelo.
+ * - Los billetes vendidos salen del carrito; los fallidos también, y
+ *   su reserva se libera.
+ * - El método de pago va en todos los lotes; el recibido y el cambio
+ *   (efectivo) corresponden al carrito completo y solo se envían en el
+ *   primer lote para no duplicarlos en caja.
+ * - De los billetes fraccionados se venden todas las fracciones que
+ *   quedan; su precio en el carrito es el de esas fracciones.
+ */
+@Injectable({ providedIn: 'root' })
+export class CarritoService {
+  /** Inyección de dependencias. */
+  private readonly reservas = inject(ReservasService);
+  private readonly ventas = inject(VentasService);
+  private readonly fracciones = inject(FraccionesService);
+
+  /** Billetes del carrito, en el orden en que se agregaron. */
+  private readonly itemsSubject = new BehaviorSubject<CarritoItem[]>([]);
+  readonly items$ = this.itemsSubject.asObservable();
+
+  /** Cliente al que se le venderá el carrito (se recuerda al volver a la venta). */
+  cliente: Cliente | null = null;
+
+  constructor() {
+    // Una reserva vencida ya no garantiza el billete: se quita del carrito
+    this.reservas.expiradas$.subscribe((r) => this.quitar(r.billeteId, false));
+  }
+
+  /** Billetes actuales del carrito. */
+  get items(): CarritoItem[] {
+    return this.itemsSubject.value;
+  }
+
+  /** Suma de los precios del carrito (fracciones disponibles de cada billete). */
+  get total(): number {
+    return this.items.reduce((acc, it) => acc + this.precio(it), 0);
+  }
+
+  /** Precio de un billete del carrito: el de las fracciones que le quedan. */
+  precio(it: CarritoItem): number {
+    return this.fracciones.precio(it.billete);
+  }
+
+  /** True si el billete está en el carrito. */
+  contiene(billeteId: number): boolean {
+    return this.items.some((it) => it.billete.id === billeteId);
+  }
+
+  /** Agrega billetes (ya reservados por este vendedor) al carrito; ignora repetidos. */
+  agregar(sorteo: CarritoItem['sorteo'], billetes: Billete[]): void {
+    const nuevos = billetes
+      .filter((b) => !this.contiene(b.id))
+      .map((b) => ({ sorteo: { id: sorteo.id, nombre: sorteo.nombre, fechaSorteo: sorteo.fechaSorteo }, billete: b }));
+    if (nuevos.length) this.itemsSubject.next([...this.items, ...nuevos]);
+  }
+
+  /** Quita un billete del carrito y, por defecto, libera su reserva. */
+  quitar(billeteId: number, liberar = true): void {
+    if (!this.contiene(billeteId)) return;
+    this.itemsSubject.next(this.items.filter((it) => it.billete.id !== billeteId));
+    if (liberar) this.reservas.liberar([billeteId]).subscribe();
+  }
+
+  /** Vacía el carrito liberando todas sus reservas. */
+  vaciar(): void {
+    const ids = this.items.map((it) => it.billete.id);
+    this.itemsSubject.next([]);
+    this.reservas.liberar(ids).subscribe();
+  }
+
+  // ============================================================
+  // PAGAR CARRITO
+  // ------------------------------------------------------------
+  // Vende todos los billetes del carrito al cliente indicado: una
+  // venta por lote por sorteo, en paralelo. Devuelve el resultado
+  // por billete; un error general de un sorteo marca sus billetes
+  // como fallidos sin afectar a los demás sorteos.
+  //
+  // @param clienteId ID del cliente comprador.
+  // @param pago Forma de pago del carrito completo.
+  // @returns Observable<CarritoResultado[]>
+  // ============================================================
+  pagar(clienteId: number, pago?: Pago): Observable<CarritoResultado[]> {
+    const items = this.items;
+    if (!items.length) return of([]);
+
+    const porSorteo = new Map<number, CarritoItem[]>();
+    for (const it of items) porSorteo.set(it.sorteo.id, [...(porSorteo.get(it.sorteo.id) ?? []), it]);
+
+    const lotes = Array.from(porSorteo.entries()).map(([sorteoId, grupo], i) =>
+      this.ventas
+        .venderLote({
+          sorteoId,
+          clienteId,
+          billeteIds: grupo.map((it) => it.billete.id),
+          modo: 'PARCIAL',
+          pago: pago && i > 0 ? { metodo: pago.metodo } : pago,
+        })
+        .pipe(
+          map((res) => res.resultados),
+          catchError(() =>
+            of(grupo.map((it) => ({ billeteId: it.billete.id, ok: false, error: 'Error de comunicación' })))
+          ),
+          map((resultados) =>
+            resultados.map((r) => ({ ...r, item: grupo.find((it) => it.billete.id === r.billeteId)! }))
+          )
+        )
+    );
+
+    return forkJoin(lotes).pipe(
+      map((grupos) => {
+        const resultados = grupos.flat();
+        this.reservas.confirmar(resultados.filter((r) => r.ok).map((r) => r.billeteId));
+        this.reservas.liberar(resultados.filter((r) => !r.ok).map((r) => r.billeteId)).subscribe();
+        const pagados = new Set(resultados.map((r) => r.billeteId));
+        this.itemsSubject.next(this.items.filter((it) => !pagados.has(it.billete.id)));
+        return resultados;
+      })
+    );
+  }
+}
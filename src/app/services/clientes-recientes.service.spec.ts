@@ -0,0 +1,39 @@
+import { TestBed } from '@angular/core/testing';
+import { ClientesRecientesService } from './clientes-recientes.service';
+
+describe('ClientesRecientesService', () => {
+  const cliente = (id: number) => ({ id, nombre: `Cliente ${id}`, correo: `c${id}@correo.com` });
+
+  beforeEach(() => localStorage.removeItem('loteria.clientesRecientes'));
+
+  it('should keep the last chosen client first, without repeating it', () => {
+    const service = TestBed.inject(ClientesRecientesService);
+    service.agregar(cliente(1));
+    service.agregar(cliente(2));
+    service.agregar(cliente(1));
+
+    expect(service.lista.map((c) => c.id)).toEqual([1, 2]);
+  });
+
+  it('should remember at most five clients across reloads', () => {
+    const service = TestBed.inject(ClientesRecientesService);
+    [1, 2, 3, 4, 5, 6].forEach((id) => service.agregar(cliente(id)));
+
+    expect(new ClientesRecientesService().lista.map((c) => c.id)).toEqual([6, 5, 4, 3, 2]);
+  });
+
+  it('should store only the id and name of each client', () => {
+    const service = TestBed.inject(ClientesRecientesService);
+    const completo = { ...cliente(1), numeroDocumento: '1020304050', telefono: '3001234567', fechaNacimiento: '1990-05-01' };
+    service.agregar(completo);
+
+    expect(JSON.parse(localStorage.getItem('loteria.clientesRecientes')!)).toEqual([{ id: 1, nombre: 'Cliente 1' }]);
+  });
+
+  it('should drop the extra data saved by earlier versions', () => {
+    localStorage.setItem('loteria.clientesRecientes', JSON.stringify([{ ...cliente(1), telefono: '3001234567' }]));
+
+    expect(new ClientesRecientesService().lista).toEqual([{ id: 1, nombre: 'Cliente 1' }]);
+    expect(JSON.parse(localStorage.getItem('loteria.clientesRecientes')!)).toEqual([{ id: 1, nombre: 'Cliente 1' }]);
+  });
+});
@@ -0,0 +1,81 @@
+// ============================================================
+// Archivo: src/app/services/clientes-recientes.service.ts
+// Descripción:
+// Recuerda los últimos clientes a los que se les vendió en esta
+// estación, para elegirlos de nuevo sin buscarlos. La lista vive
+// en localStorage y se conserva entre recargas de la página.
+// ============================================================
+
+import { Injectable } from '@angular/core';
+import { Cliente } from '../models/cliente';
+
+/** Cliente reciente: solo lo necesario para mostrarlo y volver a consultarlo. */
+export type ClienteReciente = Pick<Cliente, 'id' | 'nombre'>;
+
+/**
+ * Servicio de clientes recientes.
+ *
+ * No realiza llamadas HTTP: guarda solo el ID y el nombre del cliente
+ * (sin documento, teléfono ni fecha de nacimiento, porque localStorage
+ * queda en el equipo). Quien lo use para vender debe consultar el
+ * cliente completo (pudo cambiar o ser desactivado desde otra estación).
+ */
+@Injectable({ providedIn: 'root' })
+export class ClientesRecientesService {
+  /** Clave de almacenamiento local. */
+  private readonly storageKey = 'loteria.clientesRecientes';
+
+  /** Cantidad máxima de clientes recordados. */
+  private readonly maximo = 5;
+
+  /** Clientes recientes, el último elegido primero. */
+  private actuales: ClienteReciente[];
+
+  constructor() {
+    // Se vuelve a guardar para borrar los datos completos que guardaban versiones anteriores
+    this.actuales = this.leer();
+    this.guardar();
+  }
+
+  /** Clientes recientes, el último elegido primero. */
+  get lista(): ClienteReciente[] {
+    return this.actuales;
+  }
+
+  /** Pone al cliente de primero en la lista (sin repetirlo) y la persiste. */
+  agregar(cliente: ClienteReciente): void {
+    const reciente: ClienteReciente = { id: cliente.id, nombre: cliente.nombre };
+    this.actuales = [reciente, ...this.actuales.filter((c) => c.id !== cliente.id)].slice(0, this.maximo);
+    this.guardar();
+  }
+
+  /** Quita al cliente de la lista (ej. si fue desactivado). */
+  quitar(clienteId: number): void {
+    this.actuales = this.actuales.filter((c) => c.id !== clienteId);
+    this.guardar();
+  }
+
+  private leer(): ClienteReciente[] {
+    try {
+      const raw = localStorage.getItem(this.storageKey);
+      const lista = raw ? (JSON.parse(raw) as ClienteReciente[]) : [];
+      return Array.isArray(lista)
+        ? lista
+            .filter((c) => c?.id)
+            .slice(0, this.maximo)
+            .map((c) => ({ id: c.id, nombre: c.nombre }))
+        : [];
+    } catch {
+      // Almacenamiento no disponible o corrupto: sin clientes recientes.
+      return [];
+    }
+  }
+
+  private guardar(): void {
+    try {
+      localStorage.setItem(this.storageKey, JSON.stringify(this.actuales));
+    } catch {
+      // Sin persistencia: la lista solo dura mientras la página esté abierta.
+    }
+  }
+}
@@ -0,0 +1,88 @@
+import { TestBed } from '@angular/core/testing';
+import { provideHttpClient } from '@angular/common/http';
+import { HttpTestingController, provideHttpClientTesting } from '@angular/common/http/testing';
+import { ClientesService, edad } from './clientes.service';
+
+describe('ClientesService', () => {
+  let service: ClientesService;
+  let http: HttpTestingController;
+
+  beforeEach(() => {
+    TestBed.configureTestingModule({
+      providers: [provideHttpClient(), provideHttpClientTesting()],
+    });
+    service = TestBed.inject(ClientesService);
+    http = TestBed.inject(HttpTestingController);
+  });
+
+  afterEach(() => http.verify());
+
+  it('should query the directory with the search, order and page', () => {
+    service.directorio({ q: ' ana ', orden: 'compras', direccion: 'desc', pagina: 2, tamano: 20 }).subscribe((p) => {
+      expect(p.total).toBe(41);
+    });
+
+    const req = http.expectOne((r) => r.url.endsWith('/clientes/resumen'));
+    expect(req.request.params.get('q')).toBe('ana');
+    expect(req.request.params.get('orden')).toBe('compras');
+    expect(req.request.params.get('pagina')).toBe('2');
+    req.flush({ contenido: [], total: 41, pagina: 2, tamano: 20 });
+  });
+
+  it('should not send an empty search', () => {
+    service.directorio({ q: '  ', pagina: 0 }).subscribe();
+
+    const req = http.expectOne((r) => r.url.endsWith('/clientes/resumen'));
+    expect(req.request.params.keys()).toEqual(['pagina']);
+    req.flush({ contenido: [], total: 0, pagina: 0, tamano: 20 });
+  });
+
+  it('should deactivate a client without deleting it', () => {
+    service.desactivar(7).subscribe((c) => expect(c.activo).toBeFalse());
+
+    const req = http.expectOne((r) => r.url.endsWith('/clientes/7/desactivar'));
+    expect(req.request.method).toBe('POST');
+    req.flush({ id: 7, nombre: 'Ana', correo: 'ana@correo.com', activo: false });
+  });
+
+  it('should compute the age turned on the reference date', () => {
+    expect(edad('2007-10-19', '2025-10-19')).toBe(18);
+    expect(edad('2007-10-20', '2025-10-19')).toBe(17);
+    expect(edad('2008-02-29', '2026-02-28')).toBe(17);
+    expect(edad('', '2025-10-19')).toBeNull();
+    expect(edad('2030-01-01', '2025-10-19')).toBeNull();
+  });
+
+  it('should turn a year older on the birthday, not the day before', () => {
+    expect(edad('2007-10-19', '2025-10-18')).toBe(17);
+    expect(edad('2007-10-19', '2025-10-19')).toBe(18);
+    expect(edad('2007-12-31', '2025-12-30')).toBe(17);
+    expect(edad('2007-01-01', '2025-01-01')).toBe(18);
+  });
+
+  it('should age a February 29 birth date on March 1 of common years', () => {
+    expect(edad('2008-02-29', '2026-02-28')).toBe(17);
+    expect(edad('2008-02-29', '2026-03-01')).toBe(18);
+    expect(edad('2008-02-29', '2028-02-28')).toBe(19);
+    expect(edad('2008-02-29', '2028-02-29')).toBe(20);
+  });
+
+  it('should return null for a missing or invalid birth date', () => {
+    expect(edad(null, '2025-10-19')).toBeNull();
+    expect(edad(undefined, '2025-10-19')).toBeNull();
+    expect(edad('', '2025-10-19')).toBeNull();
+    expect(edad('19/10/2007', '2025-10-19')).toBeNull();
+    expect(edad('2007-13-01', '2025-10-19')).toBeNull();
+    expect(edad('2007-02-30', '2025-10-19')).toBeNull();
+    expect(edad('2007-02-29', '2025-10-19')).toBeNull();
+  });
+
+  it('should check the document by type and number', () => {
+    service.existeDocumento('CC', '1020304050').subscribe((existe) => expect(existe).toBeTrue());
+
+    const req = http.expectOne((r) => r.url.endsWith('/clientes/existe'));
+    expect(req.request.params.get('tipoDocumento')).toBe('CC');
+    expect(req.request.params.get('numeroDocumento')).toBe('1020304050');
+    req.flush({ existe: true });
+  });
+});
@@ -2,25 +2,88 @@
 // Archivo: src/app/services/clientes.service.ts
 // Descripción:
 // Servicio Angular encargado de la gestión de clientes en el
-// sistema de lotería. Permite crear, listar y consultar clientes,
-// así como obtener los billetes vendidos y verificar la existencia
-// de un correo electrónico registrado.
+// sistema de lotería. Permite crear, editar, desactivar, listar y
+// consultar clientes (también como directorio paginado), así como
+// obtener los billetes
+// vendidos y verificar la existencia de un correo electrónico
+// registrado.
 // ============================================================
 
 import { inject, Injectable } from '@angular/core';
-import { HttpClient } from '@angular/common/http';
+import { HttpClient, HttpParams } from '@angular/common/http';
 import { environment } from '../environments/environment';
-import { Cliente } from '../models/cliente';
+import { Cliente, ResumenCliente, TipoDocumento } from '../models/cliente';
 import { Billete } from '../models/billete';
+import { Pagina } from '../models/pagina';
 import { Observable, of, map, catchError } from 'rxjs';
 
 /**
  * Estructura del cuerpo para crear un nuevo cliente.
- * Contiene únicamente los campos básicos requeridos.
+ * Incluye los datos de identificación que exige la regulación.
  */
 export type ClienteCreate = {
   nombre: string;
   correo: string;
+  tipoDocumento: TipoDocumento;
+  numeroDocumento: string;
+  telefono: string;
+  fechaNacimiento: string;
+};
+
+/** Edad mínima para comprar lotería. */
+export const EDAD_MINIMA = 18;
+
+/**
+ * Edad cumplida en años a una fecha dada.
+ *
+ * @param fechaNacimiento Fecha de nacimiento ('yyyy-MM-dd').
+ * @param hoy Fecha de referencia ('yyyy-MM-dd').
+ * @returns number (null si la fecha de nacimiento falta o no es válida)
+ */
+export function edad(fechaNacimiento: string | null | undefined, hoy: string): number | null {
+  const nac = partesFecha(fechaNacimiento);
+  const ref = partesFecha(hoy);
+  if (!nac || !ref) return null;
+
+  const [ay, am, ad] = nac;
+  const [hy, hm, hd] = ref;
+  const anos = hy - ay - (hm < am || (hm === am && hd < ad) ? 1 : 0);
+  return anos >= 0 ? anos : null;
+}
+
+/** Año, mes y día de una fecha 'yyyy-MM-dd' (null si falta o no existe, ej. '2007-02-30'). */
+function partesFecha(fecha: string | null | undefined): [number, number, number] | null {
+  const m = /^(\d{4})-(\d{2})-(\d{2})/.exec(fecha ?? '');
+  if (!m) return null;
+  const [y, mes, d] = [Number(m[1]), Number(m[2]), Number(m[3])];
+  const f = new Date(Date.UTC(y, mes - 1, d));
+  return f.getUTCFullYear() === y && f.getUTCMonth() === mes - 1 && f.getUTCDate() === d ? [y, mes, d] : null;
+}
+
+/**
+ * Estructura del cuerpo para corregir los datos de un cliente.
+ * Un correo o documento nuevo debe seguir siendo único (ver
+ * existeCorreo y existeDocumento).
+ */
+export type ClienteUpdate = ClienteCreate;
+
+/** Criterios de orden del directorio de clientes. */
+export type OrdenClientes = 'nombre' | 'correo' | 'compras' | 'ultimaCompra';
+
+/**
+ * Filtros del directorio de clientes. Los vacíos no se envían.
+ * - q: texto a buscar en el nombre, el correo o el número de documento.
+ * - activo: true = solo activos, false = solo desactivados (vacío = todos).
+ * - orden / direccion: criterio y sentido del orden.
+ * - pagina / tamano: página pedida (desde 0) y clientes por página.
+ */
+export type FiltroClientes = {
+  q?: string;
+  activo?: boolean | null;
+  orden?: OrdenClientes;
+  direccion?: 'asc' | 'desc';
+  pagina?: number;
+  tamano?: number;
 };
 
 /**
@@ -29,9 +92,15 @@ export type ClienteCreate = {
  * Endpoints esperados en el backend:
  * - POST   {apiUrl}/clientes
  * - GET    {apiUrl}/clientes
+ * - GET    {apiUrl}/clientes/resumen?q=..&activo=..&orden=..&direccion=..&pagina=..&tamano=..
+ * - GET    {apiUrl}/clientes/{id}
+ * - PUT    {apiUrl}/clientes/{id}
+ * - POST   {apiUrl}/clientes/{id}/desactivar
+ * - POST   {apiUrl}/clientes/{id}/activar
  * - GET    {apiUrl}/clientes/correo/{correo}
  * - GET    {apiUrl}/clientes/{id}/billetes
  * - GET    {apiUrl}/clientes/existe?correo={correo}
+ * - GET    {apiUrl}/clientes/existe?tipoDocumento=..&numeroDocumento=..
  */
 @Injectable({ providedIn: 'root' })
 export class ClientesService {
@@ -48,19 +117,72 @@ export class ClientesService {
   //
   // Método HTTP: POST
   // URL: {apiUrl}/clientes
-  // Body: { nombre, correo }
+  // Body: ClienteCreate
   //
   // @param payload Datos del cliente.
   // @returns Observable<Cliente>
   //
   // Ejemplo:
-  // this.clientesService.crear({ nombre: 'Juan', correo: 'juan@ejemplo.com' })
+  // this.clientesService.crear({ nombre: 'Juan', correo: 'juan@ejemplo.com', tipoDocumento: 'CC',
+  //   numeroDocumento: '1020304050', telefono: '3001234567', fechaNacimiento: '1990-05-14' })
   //   .subscribe(c => console.log('Cliente creado:', c));
   // ============================================================
   crear(payload: ClienteCreate): Observable<Cliente> {
     return this.http.post<Cliente>(this.base, payload);
   }
 
+  // ============================================================
+  // OBTENER CLIENTE POR ID
+  // ------------------------------------------------------------
+  // Método HTTP: GET
+  // URL: {apiUrl}/clientes/{id}
+  //
+  // @param id ID del cliente.
+  // @returns Observable<Cliente>
+  // ============================================================
+  obtener(id: number): Observable<Cliente> {
+    return this.http.get<Cliente>(`${this.base}/${id}`);
+  }
+
+  // ============================================================
+  // ACTUALIZAR CLIENTE
+  // ------------------------------------------------------------
+  // Corrige los datos de un cliente. Sus compras y su historial no
+  // cambian. El backend rechaza un correo o un documento que ya
+  // pertenezca a otro cliente.
+  //
+  // Método HTTP: PUT
+  // URL: {apiUrl}/clientes/{id}
+  // Body: ClienteUpdate
+  //
+  // @param id ID del cliente.
+  // @param payload Datos corregidos.
+  // @returns Observable<Cliente>
+  // ============================================================
+  actualizar(id: number, payload: ClienteUpdate): Observable<Cliente> {
+    return this.http.put<Cliente>(`${this.base}/${id}`, payload);
+  }
+
+  // ============================================================
+  // DESACTIVAR / REACTIVAR CLIENTE
+  // ------------------------------------------------------------
+  // Un cliente desactivado deja de aparecer en la venta, pero no se
+  // elimina: conserva sus billetes, comprobantes e historial.
+  //
+  // Método HTTP: POST
+  // URL: {apiUrl}/clientes/{id}/desactivar  |  {apiUrl}/clientes/{id}/activar
+  //
+  // @param id ID del cliente.
+  // @returns Observable<Cliente> (con su nuevo estado)
+  // ============================================================
+  desactivar(id: number): Observable<Cliente> {
+    return this.http.post<Cliente>(`${this.base}/${id}/desactivar`, {});
+  }
+
+  activar(id: number): Observable<Cliente> {
+    return this.http.post<Cliente>(`${this.base}/${id}/activar`, {});
+  }
+
   // ============================================================
   // LISTAR CLIENTES
   // ------------------------------------------------------------
@@ -78,6 +200,31 @@ export class ClientesService {
     return this.http.get<Cliente[]>(this.base);
   }
 
+  // ============================================================
+  // DIRECTORIO DE CLIENTES
+  // ------------------------------------------------------------
+  // Página de clientes con su cantidad de compras. La búsqueda, el
+  // orden y la paginación se resuelven en el backend.
+  //
+  // Método HTTP: GET
+  // URL: {apiUrl}/clientes/resumen?q=..&activo=..&orden=..&direccion=..&pagina=..&tamano=..
+  //
+  // @param filtro Búsqueda, orden y página.
+  // @returns Observable<Pagina<ResumenCliente>>
+  //
+  // Ejemplo (los que más compran primero):
+  // this.clientesService.directorio({ orden: 'compras', direccion: 'desc' })
+  //   .subscribe(p => console.log(p.total, p.contenido));
+  // ============================================================
+  directorio(filtro: FiltroClientes = {}): Observable<Pagina<ResumenCliente>> {
+    let params = new HttpParams();
+    for (const [clave, valor] of Object.entries(filtro)) {
+      const texto = typeof valor === 'string' ? valor.trim() : valor;
+      if (texto !== undefined && texto !== null && texto !== '') params = params.set(clave, String(texto));
+    }
+    return this.http.get<Pagina<ResumenCliente>>(`${this.base}/resumen`, { params });
+  }
+
   // ============================================================
   // BUSCAR CLIENTE POR CORREO
   // ------------------------------------------------------------
@@ -147,4 +294,27 @@ export class ClientesService {
         catchError(() => of(false))
       );
   }
+
+  // ============================================================
+  // VERIFICAR EXISTENCIA DE DOCUMENTO
+  // ------------------------------------------------------------
+  // Comprueba si un documento de identidad ya está registrado.
+  //
+  // Método HTTP: GET
+  // URL: {apiUrl}/clientes/existe?tipoDocumento=..&numeroDocumento=..
+  //
+  // @param tipo Tipo de documento.
+  // @param numero Número del documento.
+  // @returns Observable<boolean> (true si existe, false si no)
+  // ============================================================
+  existeDocumento(tipo: TipoDocumento, numero: string): Observable<boolean> {
+    if (!tipo || !numero) return of(false);
+
+    return this.http
+      .get<{ existe: boolean }>(`${this.base}/existe`, { params: { tipoDocumento: tipo, numeroDocumento: numero } })
+      .pipe(
+        map((res) => !!res.existe),
+        catchError(() => of(false))
+      );
+  }
 }
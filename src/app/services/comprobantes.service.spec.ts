@@ -0,0 +1,62 @@
+import { TestBed } from '@angular/core/testing';
+import { provideHttpClient } from '@angular/common/http';
+import { HttpTestingController, provideHttpClientTesting } from '@angular/common/http/testing';
+import { ComprobantesService, ComprobanteDatos } from './comprobantes.service';
+import { Comprobante } from '../models/comprobante';
+
+describe('ComprobantesService', () => {
+  let service: ComprobantesService;
+  let http: HttpTestingController;
+
+  const datos: ComprobanteDatos = {
+    clienteId: 7,
+    clienteNombre: 'Ana',
+    vendedorId: 'v1',
+    vendedorNombre: 'Caja 1',
+    lineas: [{ sorteoId: 3, sorteoNombre: 'Navidad', billeteId: 42, numero: 7, precio: 10000 }],
+  };
+
+  beforeEach(() => {
+    TestBed.configureTestingModule({
+      providers: [provideHttpClient(), provideHttpClientTesting()],
+    });
+    service = TestBed.inject(ComprobantesService);
+    http = TestBed.inject(HttpTestingController);
+  });
+
+  afterEach(() => http.verify());
+
+  it('should return the receipt issued by the backend, with its code and signature', () => {
+    const emitido: Comprobante = {
+      ...datos,
+      codigo: 'LT-3F9A1C0B7D',
+      fecha: '2025-10-17T20:00:00Z',
+      total: 10000,
+      firma: 'ab'.repeat(32),
+    };
+    let comprobante: Comprobante | undefined;
+    service.emitir(datos).subscribe((c) => (comprobante = c));
+
+    const req = http.expectOne((r) => r.url.endsWith('/comprobantes'));
+    expect(req.request.method).toBe('POST');
+    expect(req.request.body.codigo).toBeUndefined();
+    req.flush(emitido);
+    expect(comprobante).toEqual(emitido);
+  });
+
+  it('should report a failed registration instead of returning an unsaved receipt', () => {
+    let fallo = false;
+    service.emitir(datos).subscribe({ next: () => fail('no debe emitir'), error: () => (fallo = true) });
+
+    http.expectOne((r) => r.url.endsWith('/comprobantes')).flush(null, { status: 500, statusText: 'Server Error' });
+    expect(fallo).toBeTrue();
+  });
+
+  it('should return null only when the code does not exist (404)', () => {
+    let comprobante: Comprobante | null | undefined;
+    service.obtener(' lt-3f9a1c0b7d ').subscribe((c) => (comprobante = c));
+
+    http.expectOne((r) => r.url.endsWith('/comprobantes/LT-3F9A1C0B7D')).flush(null, { status: 404, statusText: 'Not Found' });
+    expect(comprobante).toBeNull();
+  });
+});
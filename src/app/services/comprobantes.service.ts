@@ -0,0 +1,208 @@
+// ============================================================
+// Archivo: src/app/services/comprobantes.service.ts
+// Descripción:
+// Servicio que registra el comprobante de una venta en el backend
+// (que le asigna código y firma) y genera el PDF imprimible (con
+// código QR) que se entrega al cliente como prueba de compra.
+// ============================================================
+
+import { inject, Injectable } from '@angular/core';
+import { HttpClient, HttpErrorResponse } from '@angular/common/http';
+import { Observable, catchError, of, throwError } from 'rxjs';
+import { environment } from '../environments/environment';
+import { Comprobante, ComprobanteLinea } from '../models/comprobante';
+import { METODOS_PAGO } from '../models/pago';
+import { formatearNumeroBillete } from '../pipes/numero-billete.pipe';
+
+/** Datos de la venta necesarios para emitir un comprobante. */
+export type ComprobanteDatos = Pick<
+  Comprobante,
+  'clienteId' | 'clienteNombre' | 'clienteCorreo' | 'vendedorId' | 'vendedorNombre'
+> & { lineas: ComprobanteLinea[]; pago?: Comprobante['pago'] };
+
+/**
+ * Servicio de comprobantes de venta.
+ *
+ * Endpoints esperados en el backend:
+ * - POST  {apiUrl}/comprobantes
+ *     Body: ComprobanteDatos
+ *     Respuesta: Comprobante (el backend asigna fecha, total, código y
+ *     firma, y lo guarda para poder consultarlo luego por su código)
+ * - GET   {apiUrl}/comprobantes/{codigo}
+ *     Respuesta: Comprobante con firmaValida (404 si no existe)
+ *
+ * Notas:
+ * - jsPDF y qrcode se cargan con import() dinámico para no engordar
+ *   el bundle inicial; solo se descargan al generar el primer PDF.
+ * - El QR contiene { codigo, clienteId, billetes: [{ sorteoId, billeteId }], firma }.
+ */
+@Injectable({ providedIn: 'root' })
+export class ComprobantesService {
+  /** Inyección de dependencias. */
+  private readonly http = inject(HttpClient);
+
+  /** URL base del recurso de comprobantes. */
+  private readonly base = `${environment.apiUrl}/comprobantes`;
+
+  /** Formato de moneda usado en el PDF. */
+  private readonly moneda = new Intl.NumberFormat('es-CO', {
+    style: 'currency',
+    currency: 'COP',
+    maximumFractionDigits: 0,
+  });
+
+  // ============================================================
+  // EMITIR COMPROBANTE
+  // ------------------------------------------------------------
+  // Registra el comprobante en el backend, que calcula el total y
+  // emite su código y firma. Si el registro falla, el error se
+  // propaga: no se entrega un comprobante que el backend no guardó.
+  //
+  // Método HTTP: POST
+  // URL: {apiUrl}/comprobantes
+  //
+  // @param datos Cliente, vendedor y billetes vendidos.
+  // @returns Observable<Comprobante>
+  //
+  // Ejemplo:
+  // this.comprobantes.emitir({ clienteId: 7, clienteNombre: 'Ana', vendedorId, vendedorNombre,
+  //   lineas: [{ sorteoId: 3, sorteoNombre: 'Navidad', billeteId: 42, numero: 7, precio: 10000 }] })
+  // ============================================================
+  emitir(datos: ComprobanteDatos): Observable<Comprobante> {
+    return this.http.post<Comprobante>(this.base, {
+      ...datos,
+      clienteCorreo: datos.clienteCorreo ?? null,
+      pago: datos.pago ?? null,
+    });
+  }
+
+  // ============================================================
+  // CONSULTAR COMPROBANTE POR CÓDIGO
+  // ------------------------------------------------------------
+  // Devuelve el comprobante registrado con ese código (con la firma
+  // ya verificada por el backend), o null si no existe (404). Los
+  // demás errores se propagan.
+  //
+  // Método HTTP: GET
+  // URL: {apiUrl}/comprobantes/{codigo}
+  //
+  // @param codigo Código impreso en el comprobante (ej. "LT-3F9A1C0B7D").
+  // @returns Observable<Comprobante | null>
+  // ============================================================
+  obtener(codigo: string): Observable<Comprobante | null> {
+    return this.http
+      .get<Comprobante>(`${this.base}/${encodeURIComponent(codigo.trim().toUpperCase())}`)
+      .pipe(
+        catchError((err: HttpErrorResponse) => (err?.status === 404 ? of(null) : throwError(() => err)))
+      );
+  }
+
+  // ============================================================
+  // PDF
+  // ============================================================
+
+  /** Descarga el PDF del comprobante. */
+  async descargar(c: Comprobante): Promise<void> {
+    const doc = await this.generarPdf(c);
+    doc.save(`comprobante-${c.codigo}.pdf`);
+  }
+
+  /** Abre el PDF del comprobante en una pestaña nueva con el diálogo de impresión. */
+  async imprimir(c: Comprobante): Promise<void> {
+    const doc = await this.generarPdf(c);
+    doc.autoPrint();
+    window.open(doc.output('bloburl'), '_blank');
+  }
+
+  /** Formato de tirilla (80 mm de ancho) con una fila por billete y el QR al final. */
+  private async generarPdf(c: Comprobante) {
+    const [{ jsPDF }, QRCode] = await Promise.all([import('jspdf'), import('qrcode')]);
+
+    const ancho = 80;
+    const margen = 5;
+    const alto = 125 + c.lineas.length * 5;
+    const doc = new jsPDF({ unit: 'mm', format: [ancho, alto] });
+    const centro = ancho / 2;
+    let y = 10;
+
+    doc.setFont('helvetica', 'bold').setFontSize(12);
+    doc.text('Comprobante de venta', centro, y, { align: 'center' });
+    y += 5;
+    doc.setFont('helvetica', 'normal').setFontSize(8);
+    doc.text(`N.º ${c.codigo}`, centro, y, { align: 'center' });
+    y += 7;
+
+    const campo = (etiqueta: string, valor: string) => {
+      doc.setFont('helvetica', 'bold').text(etiqueta, margen, y);
+      doc.setFont('helvetica', 'normal').text(valor, margen + 17, y);
+      y += 4.5;
+    };
+    campo('Fecha:', new Date(c.fecha).toLocaleString('es-CO'));
+    campo('Cliente:', c.clienteNombre);
+    if (c.clienteCorreo) campo('Correo:', c.clienteCorreo);
+    campo('Vendedor:', c.vendedorNombre);
+
+    y += 1;
+    doc.line(margen, y, ancho - margen, y);
+    y += 4;
+    doc.setFont('helvetica', 'bold');
+    doc.text('Sorteo', margen, y);
+    doc.text('Billete', 48, y, { align: 'right' });
+    doc.text('Precio', ancho - margen, y, { align: 'right' });
+    y += 4.5;
+
+    doc.setFont('helvetica', 'normal');
+    for (const l of c.lineas) {
+      const sorteo = doc.splitTextToSize(l.sorteoNombre, 30)[0] as string;
+      const fraccion = l.totalFracciones ? ` ${l.fracciones}/${l.totalFracciones}` : '';
+      const numero = `#${formatearNumeroBillete(l.numero, l.cifras, l.serie)}${fraccion}`;
+      doc.text(sorteo, margen, y);
+      doc.text(numero, 48, y, { align: 'right' });
+      doc.text(this.moneda.format(l.precio), ancho - margen, y, { align: 'right' });
+      y += 5;
+    }
+
+    doc.line(margen, y - 2, ancho - margen, y - 2);
+    y += 2;
+    doc.setFont('helvetica', 'bold').setFontSize(10);
+    doc.text('Total', margen, y);
+    doc.text(this.moneda.format(c.total), ancho - margen, y, { align: 'right' });
+    y += 5;
+
+    if (c.pago) {
+      const metodo = METODOS_PAGO.find((m) => m.value === c.pago!.metodo)?.label ?? c.pago.metodo;
+      doc.setFont('helvetica', 'normal').setFontSize(8);
+      doc.text(`Pago: ${metodo}`, margen, y);
+      if (c.pago.metodo === 'EFECTIVO' && c.pago.recibido != null) {
+        doc.text(
+          `Recibido ${this.moneda.format(c.pago.recibido)} · Cambio ${this.moneda.format(c.pago.cambio ?? 0)}`,
+          ancho - margen, y, { align: 'right' }
+        );
+      }
+      y += 5;
+    }
+
+    const qr = await QRCode.toDataURL(this.contenidoQr(c), { margin: 1, width: 240 });
+    doc.addImage(qr, 'PNG', centro - 20, y, 40, 40);
+    y += 44;
+
+    doc.setFont('courier', 'normal').setFontSize(5.5);
+    const mitad = Math.ceil(c.firma.length / 2);
+    doc.text(c.firma.slice(0, mitad), centro, y, { align: 'center' });
+    doc.text(c.firma.slice(mitad), centro, y + 2.5, { align: 'center' });
+
+    return doc;
+  }
+
+  // ============================================================
+  // QR
+  // ============================================================
+  private contenidoQr(c: Comprobante): string {
+    return JSON.stringify({
+      codigo: c.codigo,
+      clienteId: c.clienteId,
+      billetes: c.lineas.map((l) => ({ sorteoId: l.sorteoId, billeteId: l.billeteId })),
+      firma: c.firma,
+    });
+  }
+}
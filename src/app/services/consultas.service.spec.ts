@@ -0,0 +1,50 @@
+import { TestBed } from '@angular/core/testing';
+import { provideHttpClient } from '@angular/common/http';
+import { HttpTestingController, provideHttpClientTesting } from '@angular/common/http/testing';
+import { ConsultasService } from './consultas.service';
+import { ConsultaBillete } from '../models/consulta';
+
+describe('ConsultasService', () => {
+  let service: ConsultasService;
+  let http: HttpTestingController;
+
+  beforeEach(() => {
+    TestBed.configureTestingModule({
+      providers: [provideHttpClient(), provideHttpClientTesting()],
+    });
+    service = TestBed.inject(ConsultasService);
+    http = TestBed.inject(HttpTestingController);
+  });
+
+  afterEach(() => http.verify());
+
+  it('should look up a single ticket by sorteo, number and serie', () => {
+    service.billete(3, 42, '045').subscribe();
+
+    const req = http.expectOne((r) => r.url.endsWith('/consultas/billete'));
+    expect(req.request.params.get('sorteoId')).toBe('3');
+    expect(req.request.params.get('numero')).toBe('42');
+    expect(req.request.params.get('serie')).toBe('045');
+    req.flush(null);
+  });
+
+  it('should omit the serie when the ticket has none', () => {
+    service.billete(3, 42).subscribe();
+
+    const req = http.expectOne((r) => r.url.endsWith('/consultas/billete'));
+    expect(req.request.params.has('serie')).toBeFalse();
+    req.flush(null);
+  });
+
+  it('should return null for an unknown ticket and propagate other errors', () => {
+    let consulta: ConsultaBillete | null | undefined;
+    let fallo = false;
+    service.billete(3, 42).subscribe((c) => (consulta = c));
+    service.comprobante('lt-3f9a1c0b7d').subscribe({ error: () => (fallo = true) });
+
+    http.expectOne((r) => r.url.endsWith('/consultas/billete')).flush(null, { status: 404, statusText: 'Not Found' });
+    http.expectOne((r) => r.url.endsWith('/consultas/comprobantes/LT-3F9A1C0B7D')).flush(null, { status: 500, statusText: 'Server Error' });
+    expect(consulta).toBeNull();
+    expect(fallo).toBeTrue();
+  });
+});
@@ -0,0 +1,73 @@
+// ============================================================
+// Archivo: src/app/services/consultas.service.ts
+// Descripción:
+// Servicio de la consulta pública de billetes: busca un billete
+// por sorteo + número + serie, o los billetes de un comprobante
+// por su código. Las respuestas llegan ya enmascaradas desde el
+// backend; esta pantalla no descarga los billetes del sorteo.
+// ============================================================
+
+import { inject, Injectable } from '@angular/core';
+import { HttpClient, HttpErrorResponse, HttpParams } from '@angular/common/http';
+import { Observable, catchError, of, throwError } from 'rxjs';
+import { environment } from '../environments/environment';
+import { ConsultaBillete, ConsultaComprobante } from '../models/consulta';
+
+/**
+ * Servicio de consultas públicas.
+ *
+ * Endpoints esperados en el backend:
+ * - GET   {apiUrl}/consultas/billete?sorteoId=3&numero=42&serie=045
+ *     Respuesta: ConsultaBillete (404 si no existe)
+ *
+ * - GET   {apiUrl}/consultas/comprobantes/{codigo}
+ *     Respuesta: ConsultaComprobante (404 si no existe)
+ */
+@Injectable({ providedIn: 'root' })
+export class ConsultasService {
+  /** Inyección de HttpClient mediante la función inject(). */
+  private readonly http = inject(HttpClient);
+
+  /** URL base del recurso de consultas. */
+  private readonly base = `${environment.apiUrl}/consultas`;
+
+  // ============================================================
+  // CONSULTAR UN BILLETE
+  // ------------------------------------------------------------
+  // Devuelve el estado público de un billete, o null si no existe
+  // (404). Los demás errores se propagan.
+  //
+  // Método HTTP: GET
+  // URL: {apiUrl}/consultas/billete?sorteoId=...&numero=...&serie=...
+  //
+  // @param sorteoId ID del sorteo.
+  // @param numero Número del billete.
+  // @param serie Serie del billete (solo en sorteos con series).
+  // @returns Observable<ConsultaBillete | null>
+  // ============================================================
+  billete(sorteoId: number, numero: number, serie?: string | null): Observable<ConsultaBillete | null> {
+    let params = new HttpParams().set('sorteoId', sorteoId).set('numero', numero);
+    if (serie) params = params.set('serie', serie);
+    return this.http
+      .get<ConsultaBillete>(`${this.base}/billete`, { params })
+      .pipe(catchError((err: HttpErrorResponse) => (err?.status === 404 ? of(null) : throwError(() => err))));
+  }
+
+  // ============================================================
+  // CONSULTAR UN COMPROBANTE
+  // ------------------------------------------------------------
+  // Devuelve el comprobante con el estado de sus billetes y su firma
+  // verificada por el backend, o null si el código no existe (404).
+  //
+  // Método HTTP: GET
+  // URL: {apiUrl}/consultas/comprobantes/{codigo}
+  //
+  // @param codigo Código impreso en el comprobante (ej. "LT-3F9A1C0B7D").
+  // @returns Observable<ConsultaComprobante | null>
+  // ============================================================
+  comprobante(codigo: string): Observable<ConsultaComprobante | null> {
+    return this.http
+      .get<ConsultaComprobante>(`${this.base}/comprobantes/${encodeURIComponent(codigo.trim().toUpperCase())}`)
+      .pipe(catchError((err: HttpErrorResponse) => (err?.status === 404 ? of(null) : throwError(() => err))));
+  }
+}
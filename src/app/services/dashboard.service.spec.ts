@@ -0,0 +1,40 @@
+import { TestBed } from '@angular/core/testing';
+import { provideHttpClient } from '@angular/common/http';
+import { provideHttpClientTesting } from '@angular/common/http/testing';
+import { DashboardService } from './dashboard.service';
+
+describe('DashboardService', () => {
+  let service: DashboardService;
+
+  beforeEach(() => {
+    TestBed.configureTestingModule({
+      providers: [provideHttpClient(), provideHttpClientTesting()],
+    });
+    service = TestBed.inject(DashboardService);
+  });
+
+  it('should fill the days without sales with zero', () => {
+    const dias = service.completarDias(
+      [{ fecha: '2025-10-02', cantidad: 3, total: 30000 }],
+      '2025-10-01',
+      '2025-10-03'
+    );
+    expect(dias.map((d) => [d.fecha, d.total])).toEqual([
+      ['2025-10-01', 0],
+      ['2025-10-02', 30000],
+      ['2025-10-03', 0],
+    ]);
+  });
+
+  it('should compute the sell-through of a sorteo', () => {
+    expect(service.porcentajeVendido({ vendidos: 1, disponibles: 2 })).toBe(33.3);
+    expect(service.porcentajeVendido({ vendidos: 0, disponibles: 0 })).toBe(0);
+  });
+
+  it('should round the chart scale up to a readable value', () => {
+    expect(service.escala(83_000)).toBe(100_000);
+    expect(service.escala(1_800)).toBe(2_000);
+    expect(service.escala(2_100)).toBe(2_500);
+    expect(service.escala(0)).toBe(1);
+  });
+});
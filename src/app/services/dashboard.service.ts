@@ -0,0 +1,91 @@
+// ============================================================
+// Archivo: src/app/services/dashboard.service.ts
+// Descripción:
+// Servicio del tablero de ventas. Consulta las estadísticas de
+// ventas de un período y prepara los datos de los gráficos: días
+// sin ventas en cero, porcentaje vendido de cada sorteo y escalas
+// redondeadas para los ejes. Los gráficos se dibujan en la propia
+// aplicación (SVG), sin servicios externos.
+// ============================================================
+
+import { Injectable } from '@angular/core';
+import { HttpClient, HttpParams } from '@angular/common/http';
+import { Observable } from 'rxjs';
+import { environment } from '../environments/environment';
+import { EstadisticasVentas, VentasDia } from '../models/dashboard';
+import { ResumenSorteo } from '../models/sorteo';
+
+/**
+ * Servicio del tablero.
+ *
+ * Endpoints esperados en el backend:
+ * - GET {apiUrl}/ventas/estadisticas?desde=yyyy-MM-dd&hasta=yyyy-MM-dd&top=10
+ *     Respuesta: EstadisticasVentas
+ *
+ * Los contadores por sorteo (vendidos / disponibles / recaudado) son
+ * los del resumen de SorteosService, los mismos del listado de sorteos.
+ */
+@Injectable({ providedIn: 'root' })
+export class DashboardService {
+  /** URL base del recurso de ventas. */
+  private readonly base = `${environment.apiUrl}/ventas`;
+
+  constructor(private http: HttpClient) {}
+
+  // ============================================================
+  // ESTADÍSTICAS DE VENTAS
+  // ------------------------------------------------------------
+  // Ventas por día y mejores clientes entre dos fechas (inclusive).
+  //
+  // Método HTTP: GET
+  // URL: {apiUrl}/ventas/estadisticas?desde=..&hasta=..&top=..
+  //
+  // @param desde Primer día ('yyyy-MM-dd').
+  // @param hasta Último día ('yyyy-MM-dd').
+  // @param top Cantidad de clientes a devolver.
+  // @returns Observable<EstadisticasVentas>
+  // ============================================================
+  estadisticas(desde: string, hasta: string, top = 10): Observable<EstadisticasVentas> {
+    const params = new HttpParams().set('desde', desde).set('hasta', hasta).set('top', String(top));
+    return this.http.get<EstadisticasVentas>(`${this.base}/estadisticas`, { params });
+  }
+
+  // ============================================================
+  // SERIE DIARIA COMPLETA
+  // ------------------------------------------------------------
+  // Un registro por cada día del período, en orden; los días que
+  // el backend no informa quedan en cero.
+  //
+  // @param porDia Ventas por día informadas.
+  // @param desde Primer día ('yyyy-MM-dd').
+  // @param hasta Último día ('yyyy-MM-dd').
+  // @returns VentasDia[]
+  // ============================================================
+  completarDias(porDia: VentasDia[], desde: string, hasta: string): VentasDia[] {
+    const informados = new Map(porDia.map((d) => [d.fecha.slice(0, 10), d]));
+    const dias: VentasDia[] = [];
+    const fin = new Date(`${hasta}T00:00:00Z`).getTime();
+    for (let t = new Date(`${desde}T00:00:00Z`).getTime(); t <= fin; t += 86_400_000) {
+      const fecha = new Date(t).toISOString().slice(0, 10);
+      dias.push(informados.get(fecha) ?? { fecha, cantidad: 0, total: 0 });
+    }
+    return dias;
+  }
+
+  /** Porcentaje vendido de un sorteo (0..100; 0 si no tiene billetes). */
+  porcentajeVendido(s: Pick<ResumenSorteo, 'vendidos' | 'disponibles'>): number {
+    const total = s.vendidos + s.disponibles;
+    return total > 0 ? Math.round((s.vendidos / total) * 1000) / 10 : 0;
+  }
+
+  /**
+   * Máximo "redondo" para el eje de un gráfico (1, 2, 2.5 o 5 por una
+   * potencia de 10), mayor o igual que el valor: 83_000 → 100_000.
+   */
+  escala(valor: number): number {
+    if (!(valor > 0)) return 1;
+    const potencia = 10 ** Math.floor(Math.log10(valor));
+    const paso = [1, 2, 2.5, 5, 10].find((p) => p * potencia >= valor) ?? 10;
+    return paso * potencia;
+  }
+}
@@ -0,0 +1,80 @@
+import { TestBed } from '@angular/core/testing';
+import { provideHttpClient } from '@angular/common/http';
+import { provideHttpClientTesting } from '@angular/common/http/testing';
+import { EstadoSorteoService } from './estado-sorteo.service';
+import { EstadoSorteo } from '../models/sorteo';
+
+describe('EstadoSorteoService', () => {
+  let service: EstadoSorteoService;
+
+  // 15 jun 2025, 12:00 m. en Bogotá (UTC−5)
+  const ahora = new Date('2025-06-15T17:00:00Z');
+  const sorteo = (estado: EstadoSorteo, fechaSorteo = '2025-06-20T22:30:00', minutosCierre = 60) => ({
+    estado,
+    fechaSorteo,
+    zonaHoraria: 'America/Bogota',
+    minutosCierre,
+  });
+
+  beforeEach(() => {
+    TestBed.configureTestingModule({
+      providers: [provideHttpClient(), provideHttpClientTesting()],
+    });
+    service = TestBed.inject(EstadoSorteoService);
+  });
+
+  it('should only allow selling an ABIERTO sorteo', () => {
+    expect(service.puedeVender(sorteo('ABIERTO'), ahora)).toBeTrue();
+    for (const e of ['BORRADOR', 'CERRADO', 'JUGADO', 'CANCELADO'] as EstadoSorteo[]) {
+      expect(service.puedeVender(sorteo(e), ahora)).withContext(e).toBeFalse();
+    }
+  });
+
+  it('should treat an ABIERTO sorteo as CERRADO once its cutoff has passed', () => {
+    const s = sorteo('ABIERTO', '2025-06-14T22:30:00');
+    expect(service.estado(s, ahora)).toBe('CERRADO');
+    expect(service.puedeVender(s, ahora)).toBeFalse();
+    expect(service.puedeRegistrarResultado(s, ahora)).toBeTrue();
+  });
+
+  it('should close sales the configured minutes before the draw, in the sorteo timezone', () => {
+    // Sorteo a las 12:45 p. m. de Bogotá con cierre 60 min antes → cerró a las 11:45
+    expect(service.puedeVender(sorteo('ABIERTO', '2025-06-15T12:45:00'), ahora)).toBeFalse();
+    // Con cierre 30 min antes → cierra a las 12:15, aún abierto
+    expect(service.puedeVender(sorteo('ABIERTO', '2025-06-15T12:45:00', 30), ahora)).toBeTrue();
+    expect(service.minutosParaCierre(sorteo('ABIERTO', '2025-06-15T12:45:00', 30), ahora)).toBe(15);
+  });
+
+  it('should respect an explicit offset in the draw datetime', () => {
+    const s = sorteo('ABIERTO', '2025-06-15T18:30:00Z', 60);
+    expect(service.cierreVentas(s).toISOString()).toBe('2025-06-15T17:30:00.000Z');
+    expect(service.puedeVender(s, ahora)).toBeTrue();
+  });
+
+  it('should only allow editing BORRADOR or ABIERTO sorteos', () => {
+    expect(service.puedeEditar(sorteo('BORRADOR'), ahora)).toBeTrue();
+    expect(service.puedeEditar(sorteo('ABIERTO'), ahora)).toBeTrue();
+    expect(service.puedeEditar(sorteo('CERRADO'), ahora)).toBeFalse();
+    expect(service.puedeEditar(sorteo('JUGADO'), ahora)).toBeFalse();
+  });
+
+  it('should not allow leaving a final state', () => {
+    expect(service.puedeCancelar(sorteo('JUGADO'), ahora)).toBeFalse();
+    expect(service.puedeCancelar(sorteo('CANCELADO'), ahora)).toBeFalse();
+    expect(service.puedeTransicionar('JUGADO', 'ABIERTO')).toBeFalse();
+    expect(service.puedeTransicionar('CANCELADO', 'ABIERTO')).toBeFalse();
+  });
+
+  it('should follow the allowed transitions', () => {
+    expect(service.puedeTransicionar('BORRADOR', 'ABIERTO')).toBeTrue();
+    expect(service.puedeTransicionar('ABIERTO', 'CERRADO')).toBeTrue();
+    expect(service.puedeTransicionar('CERRADO', 'JUGADO')).toBeTrue();
+    expect(service.puedeTransicionar('BORRADOR', 'JUGADO')).toBeFalse();
+    expect(service.puedeTransicionar('CERRADO', 'ABIERTO')).toBeFalse();
+  });
+
+  it('should hide the sales detail of a BORRADOR sorteo', () => {
+    expect(service.puedeVerDetalle(sorteo('BORRADOR'), ahora)).toBeFalse();
+    expect(service.puedeVerDetalle(sorteo('CANCELADO'), ahora)).toBeTrue();
+  });
+});
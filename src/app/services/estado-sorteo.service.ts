@@ -0,0 +1,161 @@
+// ============================================================
+// Archivo: src/app/services/estado-sorteo.service.ts
+// Descripción:
+// Política compartida del ciclo de vida de los sorteos. Es el
+// único lugar que decide si un sorteo se puede vender, editar,
+// cancelar, ver en detalle o registrar su resultado, para que
+// todas las pantallas coincidan en qué significa "activo".
+// No realiza llamadas HTTP: trabaja sobre el sorteo ya cargado.
+// ============================================================
+
+import { Injectable } from '@angular/core';
+import { environment } from '../environments/environment';
+import { EstadoSorteo, Sorteo } from '../models/sorteo';
+import { RelojService } from './reloj.service';
+
+/** Datos mínimos de un sorteo necesarios para evaluar su estado. */
+type SorteoEvaluable = Pick<Sorteo, 'estado' | 'fechaSorteo' | 'zonaHoraria' | 'minutosCierre'>;
+
+/** Transiciones permitidas entre estados (los estados finales no tienen salida). */
+const TRANSICIONES: Record<EstadoSorteo, EstadoSorteo[]> = {
+  BORRADOR: ['ABIERTO', 'CANCELADO'],
+  ABIERTO: ['CERRADO', 'CANCELADO'],
+  CERRADO: ['JUGADO', 'CANCELADO'],
+  JUGADO: [],
+  CANCELADO: [],
+};
+
+/** Nombre visible de cada estado. */
+const ETIQUETAS: Record<EstadoSorteo, string> = {
+  BORRADOR: 'Borrador',
+  ABIERTO: 'Abierto',
+  CERRADO: 'Cerrado',
+  JUGADO: 'Jugado',
+  CANCELADO: 'Cancelado',
+};
+
+/**
+ * Servicio de política de estados del sorteo.
+ *
+ * Reglas:
+ * - El estado lo define el backend; la fecha solo se usa para cerrar
+ *   un sorteo ABIERTO cuyo cierre de ventas ya pasó, mientras el
+ *   backend registra la transición a CERRADO.
+ * - El cierre de ventas es la fecha/hora del sorteo (en su zona
+ *   horaria) menos sus minutos de cierre, comparado al minuto con
+ *   la hora del servidor (RelojService), no con la del equipo.
+ * - Solo se vende (y se anulan ventas) en sorteos ABIERTOS.
+ * - Solo se editan sorteos en BORRADOR o ABIERTOS.
+ * - El resultado solo se registra en sorteos CERRADOS.
+ */
+@Injectable({ providedIn: 'root' })
+export class EstadoSorteoService {
+  constructor(private reloj: RelojService) {}
+
+  // ============================================================
+  // ESTADO EFECTIVO
+  // ------------------------------------------------------------
+  // Estado del sorteo a la fecha indicada: el del backend, salvo
+  // un sorteo ABIERTO cuyo cierre de ventas ya pasó (CERRADO).
+  //
+  // @param s Sorteo a evaluar.
+  // @param ahora Momento de referencia (por defecto, la hora del servidor).
+  // @returns EstadoSorteo
+  // ============================================================
+  estado(s: SorteoEvaluable, ahora: Date = this.reloj.ahora()): EstadoSorteo {
+    if (s.estado === 'ABIERTO' && ahora.getTime() >= this.cierreVentas(s).getTime()) {
+      return 'CERRADO';
+    }
+    return s.estado;
+  }
+
+  /** True si se pueden vender (y reservar) billetes del sorteo. */
+  puedeVender(s: SorteoEvaluable, ahora?: Date): boolean {
+    return this.estado(s, ahora) === 'ABIERTO';
+  }
+
+  /** True si se pueden anular ventas del sorteo (mientras siga abierto). */
+  puedeAnular(s: SorteoEvaluable, ahora?: Date): boolean {
+    return this.puedeVender(s, ahora);
+  }
+
+  /** True si se puede editar o reprogramar el sorteo. */
+  puedeEditar(s: SorteoEvaluable, ahora?: Date): boolean {
+    const e = this.estado(s, ahora);
+    return e === 'BORRADOR' || e === 'ABIERTO';
+  }
+
+  /** True si el sorteo se puede cancelar. */
+  puedeCancelar(s: SorteoEvaluable, ahora?: Date): boolean {
+    return this.puedeTransicionar(this.estado(s, ahora), 'CANCELADO');
+  }
+
+  /** True si el sorteo tiene ventas para mostrar en detalle (todo menos BORRADOR). */
+  puedeVerDetalle(s: SorteoEvaluable, ahora?: Date): boolean {
+    return this.estado(s, ahora) !== 'BORRADOR';
+  }
+
+  /** True si ya se puede registrar el resultado del sorteo. */
+  puedeRegistrarResultado(s: SorteoEvaluable, ahora?: Date): boolean {
+    return this.estado(s, ahora) === 'CERRADO';
+  }
+
+  /** True si el sorteo ya no admite ventas (CERRADO, JUGADO o CANCELADO). */
+  esFinalizado(s: SorteoEvaluable, ahora?: Date): boolean {
+    const e = this.estado(s, ahora);
+    return e === 'CERRADO' || e === 'JUGADO' || e === 'CANCELADO';
+  }
+
+  // ============================================================
+  // TRANSICIONES
+  // ------------------------------------------------------------
+  // Indica si el paso de un estado a otro está permitido.
+  //
+  // @param de Estado actual.
+  // @param a Estado destino.
+  // @returns boolean
+  // ============================================================
+  puedeTransicionar(de: EstadoSorteo, a: EstadoSorteo): boolean {
+    return TRANSICIONES[de].includes(a);
+  }
+
+  /** Nombre visible de un estado. */
+  etiqueta(estado: EstadoSorteo): string {
+    return ETIQUETAS[estado];
+  }
+
+  // ============================================================
+  // FECHAS DEL SORTEO
+  // ============================================================
+
+  /** Instante en que se juega el sorteo. */
+  fechaSorteo(s: SorteoEvaluable): Date {
+    return this.reloj.instante(s.fechaSorteo, this.zona(s));
+  }
+
+  /** Instante en que cierran las ventas: hora del sorteo menos sus minutos de cierre. */
+  cierreVentas(s: SorteoEvaluable): Date {
+    const minutos = s.minutosCierre ?? environment.minutosCierre;
+    return new Date(this.fechaSorteo(s).getTime() - minutos * 60_000);
+  }
+
+  /** Minutos enteros que faltan para el cierre de ventas (0 si ya cerró). */
+  minutosParaCierre(s: SorteoEvaluable, ahora: Date = this.reloj.ahora()): number {
+    return Math.max(0, Math.floor((this.cierreVentas(s).getTime() - ahora.getTime()) / 60_000));
+  }
+
+  /** Fecha y hora del sorteo en su zona horaria, para mostrar (ej. "24 dic 2025, 10:30 p. m."). */
+  formatearFecha(s: SorteoEvaluable): string {
+    return this.reloj.formatear(this.fechaSorteo(s), this.zona(s));
+  }
+
+  /** Hora de cierre de ventas en la zona del sorteo, para mostrar. */
+  formatearCierre(s: SorteoEvaluable): string {
+    return this.reloj.formatear(this.cierreVentas(s), this.zona(s));
+  }
+
+  /** Zona horaria del sorteo (o la zona por defecto). */
+  zona(s: Pick<Sorteo, 'zonaHoraria'>): string {
+    return s.zonaHoraria || environment.zonaHoraria;
+  }
+}
@@ -0,0 +1,56 @@
+import { TestBed } from '@angular/core/testing';
+import { FraccionesService } from './fracciones.service';
+import { Billete } from '../models/billete';
+
+describe('FraccionesService', () => {
+  let service: FraccionesService;
+
+  const billete = (extra: Partial<Billete> = {}): Billete => ({
+    id: 1,
+    numero: 42,
+    precio: 10000,
+    estado: 'DISPONIBLE',
+    sorteoId: 1,
+    fracciones: 3,
+    ...extra,
+  });
+
+  beforeEach(() => {
+    TestBed.configureTestingModule({});
+    service = TestBed.inject(FraccionesService);
+  });
+
+  it('should price each fraction rounded to cents', () => {
+    expect(service.precioFraccion(billete())).toBe(3333.33);
+    expect(service.precio(billete(), 1)).toBe(3333.33);
+    expect(service.precio(billete(), 2)).toBe(6666.66);
+  });
+
+  it('should give the rounding remainder to the last fraction', () => {
+    expect(service.precio(billete({ estado: 'PARCIAL', fraccionesVendidas: 2 }), 1)).toBe(3333.34);
+    expect(service.precio(billete({ estado: 'PARCIAL', fraccionesVendidas: 1 }))).toBe(6666.67);
+  });
+
+  it('should collect the full price when the fractions are sold one by one', () => {
+    let b = billete();
+    let cobrado = 0;
+    while (service.disponibles(b) > 0) {
+      cobrado += service.precio(b, 1);
+      b = service.conVenta(b, 1);
+    }
+    expect(cobrado).toBe(10000);
+    expect(service.precioVendidas(b)).toBe(10000);
+  });
+
+  it('should price the whole ticket when it has no fractions', () => {
+    const entero = billete({ fracciones: undefined });
+    expect(service.total(entero)).toBe(1);
+    expect(service.precio(entero)).toBe(10000);
+  });
+
+  it('should value only the fractions already sold', () => {
+    expect(service.precioVendidas(billete())).toBe(0);
+    expect(service.precioVendidas(billete({ estado: 'PARCIAL', fraccionesVendidas: 2 }))).toBe(6666.66);
+    expect(service.precioVendidas(billete({ estado: 'VENDIDO' }))).toBe(10000);
+  });
+});
@@ -0,0 +1,173 @@
+// ============================================================
+// Archivo: src/app/services/fracciones.service.ts
+// Descripción:
+// Reglas de los billetes fraccionados: cuántas fracciones tiene
+// un billete, cuántas quedan, cuánto vale cada una y quién las
+// compró. Un billete sin fracciones se trata como una sola
+// fracción, así las pantallas no distinguen entre ambos casos.
+// No realiza llamadas HTTP: trabaja sobre el billete ya cargado.
+// ============================================================
+
+import { Injectable } from '@angular/core';
+import { Billete, EstadoBillete, VentaFraccion } from '../models/billete';
+import { Cliente } from '../models/cliente';
+
+/** Datos de un billete necesarios para calcular sus fracciones. */
+type BilleteFraccionable = Pick<Billete, 'estado' | 'precio' | 'fracciones' | 'fraccionesVendidas' | 'ventasFraccion'>;
+
+/** Billete con el cliente comprador embebido (billetes enteros del backend). */
+type BilleteConCliente = Billete & {
+  cliente?: Pick<Cliente, 'id' | 'nombre' | 'correo'> | null;
+  fechaVenta?: string | null;
+};
+
+/**
+ * Servicio de fracciones.
+ *
+ * Reglas:
+ * - El precio del billete es el del entero; cada fracción vale
+ *   precio / fracciones redondeado a centavos, y la última fracción
+ *   lleva el residuo (vender las 3 fracciones de un billete de 10.000
+ *   cobra 3.333,33 + 3.333,33 + 3.333,34).
+ * - Un billete con algunas fracciones vendidas queda PARCIAL y se
+ *   puede seguir vendiendo hasta agotarlas (VENDIDO).
+ * - Si el backend no informa las fracciones vendidas ni sus ventas
+ *   por fracción, un billete VENDIDO las tiene todas vendidas.
+ */
+@Injectable({ providedIn: 'root' })
+export class FraccionesService {
+  /** Fracciones en que se divide el billete (mínimo 1). */
+  total(b: Pick<Billete, 'fracciones'>): number {
+    return Math.max(1, Math.floor(Number(b.fracciones ?? 1)) || 1);
+  }
+
+  /** Fracciones vendidas del billete (informadas, o sumadas de sus ventas por fracción). */
+  vendidas(b: BilleteFraccionable): number {
+    if (b.fraccionesVendidas != null) return Math.min(this.total(b), Number(b.fraccionesVendidas));
+    if (b.ventasFraccion?.length) {
+      return Math.min(this.total(b), b.ventasFraccion.reduce((acc, v) => acc + Number(v.cantidad || 0), 0));
+    }
+    return b.estado === 'VENDIDO' ? this.total(b) : 0;
+  }
+
+  /** Fracciones que aún se pueden vender. */
+  disponibles(b: BilleteFraccionable): number {
+    return this.total(b) - this.vendidas(b);
+  }
+
+  /** True si el billete se vende por fracciones. */
+  esFraccionado(b: Pick<Billete, 'fracciones'>): boolean {
+    return this.total(b) > 1;
+  }
+
+  /** True si el billete tiene al menos una fracción vendida (PARCIAL o VENDIDO). */
+  tieneVentas(b: BilleteFraccionable): boolean {
+    return this.vendidas(b) > 0;
+  }
+
+  /** Valor de una fracción del billete (redondeado a centavos). */
+  precioFraccion(b: BilleteFraccionable): number {
+    return Math.round((Number(b.precio || 0) / this.total(b)) * 100) / 100;
+  }
+
+  /**
+   * Valor de `cantidad` fracciones; por defecto, de todas las que
+   * quedan disponibles (lo que se cobra al vender el resto del billete).
+   * Si la venta incluye la última fracción, lleva el residuo del redondeo.
+   */
+  precio(b: BilleteFraccionable, cantidad: number = this.disponibles(b)): number {
+    const total = this.total(b);
+    return this.parte(Number(b.precio || 0), total, cantidad, this.vendidas(b) + cantidad >= total);
+  }
+
+  /** Valor de las fracciones ya vendidas del billete (lo cobrado hasta ahora). */
+  precioVendidas(b: BilleteFraccionable): number {
+    const total = this.total(b);
+    const vendidas = this.vendidas(b);
+    return this.parte(Number(b.precio || 0), total, vendidas, vendidas >= total);
+  }
+
+  // ============================================================
+  // PARTE DE UN VALOR POR FRACCIONES
+  // ------------------------------------------------------------
+  // Cada fracción vale valor / total redondeado a centavos; la parte
+  // que incluye la última fracción lleva el residuo, así la suma de
+  // todas las partes da el valor exacto (precio del billete o premio).
+  //
+  // @param valor Valor del billete entero.
+  // @param total Fracciones del billete.
+  // @param cantidad Fracciones de la parte.
+  // @param incluyeUltima True si la parte completa el billete.
+  // @returns number (redondeado a centavos)
+  //
+  // Ejemplo:
+  // this.fracciones.parte(10000, 3, 1, true); // 3333.34
+  // ============================================================
+  parte(valor: number, total: number, cantidad: number, incluyeUltima: boolean): number {
+    if (cantidad >= total) return valor;
+    const fraccion = Math.round((valor / total) * 100) / 100;
+    const parte = incluyeUltima ? valor - fraccion * (total - cantidad) : fraccion * cantidad;
+    return Math.round(parte * 100) / 100;
+  }
+
+  // ============================================================
+  // CAMBIOS DE ESTADO EN LA VISTA
+  // ============================================================
+
+  /** Estado de un billete al quedar libre (sin reserva): PARCIAL si ya tiene fracciones vendidas. */
+  estadoLibre(b: BilleteFraccionable): EstadoBillete {
+    return this.tieneVentas(b) ? 'PARCIAL' : 'DISPONIBLE';
+  }
+
+  /**
+   * Copia del billete tras vender `cantidad` fracciones (actualización
+   * optimista de la vista mientras responde el backend).
+   */
+  conVenta<T extends BilleteFraccionable>(b: T, cantidad: number = this.disponibles(b)): T {
+    const vendidas = Math.min(this.total(b), this.vendidas(b) + cantidad);
+    return {
+      ...b,
+      fraccionesVendidas: vendidas,
+      estado: vendidas >= this.total(b) ? 'VENDIDO' : 'PARCIAL',
+    };
+  }
+
+  // ============================================================
+  // COMPRADORES
+  // ------------------------------------------------------------
+  // Ventas del billete por cliente. Para un billete entero vendido
+  // sin detalle de fracciones, devuelve una única venta con el
+  // cliente embebido por el backend.
+  //
+  // @param b Billete (con ventasFraccion o con cliente embebido).
+  // @returns VentaFraccion[]
+  // ============================================================
+  ventas(b: BilleteConCliente): VentaFraccion[] {
+    if (b.ventasFraccion?.length) return b.ventasFraccion;
+    if (b.estado !== 'VENDIDO') return [];
+    return [{
+      clienteId: b.cliente?.id ?? b.clienteId ?? 0,
+      clienteNombre: b.cliente?.nombre,
+      clienteCorreo: b.cliente?.correo ?? null,
+      cantidad: this.total(b),
+      precio: Number(b.precio || 0),
+      fechaVenta: b.fechaVenta ?? null,
+    }];
+  }
+
+  /** Compradores del billete para mostrar (ej. "Ana (1/3), Luis (2/3)"; en enteros, solo el nombre). */
+  compradores(b: BilleteConCliente): string {
+    const total = this.total(b);
+    return this.ventas(b)
+      .map((v) => {
+        const fraccion = this.etiqueta(v.cantidad, total);
+        return `${v.clienteNombre ?? '—'}${fraccion ? ` (${fraccion})` : ''}`;
+      })
+      .join(', ');
+  }
+
+  /** Texto de fracciones para mostrar (ej. "2/3"); vacío si el billete es entero. */
+  etiqueta(cantidad: number, total: number): string {
+    return total > 1 ? `${cantidad}/${total}` : '';
+  }
+}
@@ -0,0 +1,57 @@
+import { TestBed } from '@angular/core/testing';
+import { provideHttpClient } from '@angular/common/http';
+import { HttpTestingController, provideHttpClientTesting } from '@angular/common/http/testing';
+import { GeneracionBilletesService, ProgresoGeneracion, lotesGeneracion } from './generacion-billetes.service';
+import { OpcionesGeneracion } from './sorteos.service';
+
+describe('GeneracionBilletesService', () => {
+  let service: GeneracionBilletesService;
+  let http: HttpTestingController;
+
+  const opciones: OpcionesGeneracion = { cifras: 4, desde: 0, hasta: 2499, series: 0, precio: 10000 };
+
+  beforeEach(() => {
+    localStorage.removeItem('loteria.generacion');
+    TestBed.configureTestingModule({
+      providers: [provideHttpClient(), provideHttpClientTesting()],
+    });
+    service = TestBed.inject(GeneracionBilletesService);
+    http = TestBed.inject(HttpTestingController);
+  });
+
+  afterEach(() => {
+    http.verify();
+    localStorage.removeItem('loteria.generacion');
+  });
+
+  it('should split the numbering in batches without splitting a number across series', () => {
+    expect(lotesGeneracion(opciones, 1000).map((l) => [l.desde, l.hasta])).toEqual([
+      [0, 999],
+      [1000, 1999],
+      [2000, 2499],
+    ]);
+    const conSeries = lotesGeneracion({ ...opciones, hasta: 99, series: 30 }, 100);
+    expect(conSeries.length).toBe(34);
+    expect([conSeries[0].desde, conSeries[0].hasta]).toEqual([0, 2]);
+    expect([conSeries[33].desde, conSeries[33].hasta]).toEqual([99, 99]);
+  });
+
+  it('should report real progress and resume from the first unconfirmed batch', () => {
+    const vistos: ProgresoGeneracion[] = [];
+    const sub = service.iniciar(7, { ...opciones, hasta: 1499 }).subscribe((p) => vistos.push(p));
+
+    http.expectOne((r) => r.url.endsWith('/sorteos/7/billetes') && r.params.get('desde') === '0').flush([]);
+    sub.unsubscribe();
+
+    expect(vistos.map((p) => p.generados)).toEqual([0, 500]);
+    expect(service.pendiente(7)?.lotesCompletados).toBe(1);
+
+    let completo = false;
+    service.reanudar(7).subscribe({ complete: () => (completo = true) });
+    http.expectOne((r) => r.params.get('desde') === '500').flush([]);
+    http.expectOne((r) => r.params.get('desde') === '1000').flush([]);
+
+    expect(completo).toBeTrue();
+    expect(service.pendiente(7)).toBeNull();
+  });
+});
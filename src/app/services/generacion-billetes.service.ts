@@ -0,0 +1,193 @@
+// ============================================================
+// Archivo: src/app/services/generacion-billetes.service.ts
+// Descripción:
+// Generación de los billetes de un sorteo por lotes. En lugar de
+// un único POST con miles de billetes (que puede agotar el tiempo
+// de espera), la numeración se parte en lotes que se envían uno
+// tras otro, informando el progreso real. El avance se guarda en
+// localStorage para poder reanudar tras un fallo, una cancelación
+// o una recarga de la página.
+// ============================================================
+
+import { Injectable } from '@angular/core';
+import { Observable, concatMap, defer, from, map, retry, startWith, tap, throwError } from 'rxjs';
+import { environment } from '../environments/environment';
+import { OpcionesGeneracion, SorteosService, cantidadBilletes } from './sorteos.service';
+
+/**
+ * Trabajo de generación pendiente de un sorteo.
+ *
+ * Campos:
+ * - sorteoId: Sorteo al que pertenecen los billetes.
+ * - opciones: Numeración completa a generar.
+ * - lotesCompletados: Lotes ya confirmados por el backend.
+ * - generados / total: Billetes generados y esperados.
+ */
+export interface TrabajoGeneracion {
+  sorteoId: number;
+  opciones: OpcionesGeneracion;
+  lotesCompletados: number;
+  generados: number;
+  total: number;
+}
+
+/** Avance de una generación en curso. */
+export interface ProgresoGeneracion {
+  sorteoId: number;
+  generados: number;
+  total: number;
+  lote: number;
+  lotes: number;
+}
+
+/**
+ * Parte una numeración en lotes de como máximo `tamano` billetes.
+ * Cada lote es un subrango [desde..hasta] con todas las series, de
+ * modo que un número nunca queda repartido entre dos lotes.
+ *
+ * @param opciones Numeración completa (cifras, rango, series y precio).
+ * @param tamano Billetes por lote (mínimo, las series de un número).
+ * @returns OpcionesGeneracion[] (en orden de números)
+ */
+export function lotesGeneracion(opciones: OpcionesGeneracion, tamano: number = environment.loteBilletes): OpcionesGeneracion[] {
+  const series = Math.max(1, Math.floor(opciones.series || 0));
+  const paso = Math.max(1, Math.floor(tamano / series));
+  const hasta = Math.floor(opciones.hasta);
+  const lotes: OpcionesGeneracion[] = [];
+  for (let desde = Math.floor(opciones.desde); desde <= hasta; desde += paso) {
+    lotes.push({ ...opciones, desde, hasta: Math.min(hasta, desde + paso - 1) });
+  }
+  return lotes;
+}
+
+/**
+ * Servicio de generación de billetes por lotes.
+ *
+ * Reglas:
+ * - Los lotes se envían en orden, de a uno; un lote que falla se
+ *   reintenta dos veces antes de detener la generación.
+ * - Un lote solo cuenta como completado cuando el backend lo confirma.
+ *   Al reanudar se reenvía el lote interrumpido: el backend omite los
+ *   números que ya existen en el sorteo, así que reenviarlo es seguro.
+ * - Cancelar es dejar de suscribirse: el trabajo queda guardado para
+ *   reanudarlo o descartarlo después.
+ */
+@Injectable({ providedIn: 'root' })
+export class GeneracionBilletesService {
+  /** Clave de almacenamiento local de los trabajos pendientes. */
+  private readonly storageKey = 'loteria.generacion';
+
+  constructor(private sorteosSrv: SorteosService) {}
+
+  // ============================================================
+  // INICIAR GENERACIÓN
+  // ------------------------------------------------------------
+  // Registra el trabajo del sorteo y genera sus billetes desde el
+  // primer lote. Emite el progreso al empezar y tras cada lote.
+  //
+  // @param sorteoId ID del sorteo (recién creado, en BORRADOR).
+  // @param opciones Numeración completa y precio.
+  // @returns Observable<ProgresoGeneracion>
+  // ============================================================
+  iniciar(sorteoId: number, opciones: OpcionesGeneracion): Observable<ProgresoGeneracion> {
+    return defer(() => {
+      const trabajo: TrabajoGeneracion = {
+        sorteoId,
+        opciones,
+        lotesCompletados: 0,
+        generados: 0,
+        total: cantidadBilletes(opciones),
+      };
+      this.guardar(trabajo);
+      return this.ejecutar(trabajo);
+    });
+  }
+
+  // ============================================================
+  // REANUDAR GENERACIÓN
+  // ------------------------------------------------------------
+  // Continúa un trabajo guardado desde el primer lote sin confirmar.
+  //
+  // @param sorteoId ID del sorteo.
+  // @returns Observable<ProgresoGeneracion> (error si no hay trabajo pendiente)
+  // ============================================================
+  reanudar(sorteoId: number): Observable<ProgresoGeneracion> {
+    return defer(() => {
+      const trabajo = this.pendiente(sorteoId);
+      return trabajo
+        ? this.ejecutar(trabajo)
+        : throwError(() => new Error(`No hay generación pendiente para el sorteo ${sorteoId}`));
+    });
+  }
+
+  /** Trabajo pendiente del sorteo (null si no tiene o ya terminó). */
+  pendiente(sorteoId: number): TrabajoGeneracion | null {
+    return this.leer()[sorteoId] ?? null;
+  }
+
+  /** Olvida el trabajo pendiente del sorteo (al descartarlo o cancelarlo). */
+  descartar(sorteoId: number): void {
+    const trabajos = this.leer();
+    delete trabajos[sorteoId];
+    this.escribir(trabajos);
+  }
+
+  /** Porcentaje entero de billetes generados (0..100). */
+  porcentaje(p: Pick<ProgresoGeneracion, 'generados' | 'total'>): number {
+    return p.total > 0 ? Math.floor((p.generados / p.total) * 100) : 100;
+  }
+
+  /** Envía los lotes pendientes del trabajo, uno tras otro, guardando el avance. */
+  private ejecutar(trabajo: TrabajoGeneracion): Observable<ProgresoGeneracion> {
+    const lotes = lotesGeneracion(trabajo.opciones);
+    let actual = { ...trabajo };
+    const progreso = (): ProgresoGeneracion => ({
+      sorteoId: actual.sorteoId,
+      generados: actual.generados,
+      total: actual.total,
+      lote: actual.lotesCompletados,
+      lotes: lotes.length,
+    });
+
+    return from(lotes.slice(trabajo.lotesCompletados)).pipe(
+      concatMap((lote) =>
+        this.sorteosSrv.generarBilletes(trabajo.sorteoId, lote).pipe(
+          retry({ count: 2, delay: 1000 }),
+          map(() => {
+            actual = {
+              ...actual,
+              lotesCompletados: actual.lotesCompletados + 1,
+              generados: Math.min(actual.total, actual.generados + cantidadBilletes(lote)),
+            };
+            this.guardar(actual);
+            return progreso();
+          })
+        )
+      ),
+      startWith(progreso()),
+      tap({ complete: () => this.descartar(trabajo.sorteoId) })
+    );
+  }
+
+  private guardar(trabajo: TrabajoGeneracion): void {
+    this.escribir({ ...this.leer(), [trabajo.sorteoId]: trabajo });
+  }
+
+  private leer(): Record<number, TrabajoGeneracion> {
+    try {
+      const raw = localStorage.getItem(this.storageKey);
+      return raw ? (JSON.parse(raw) as Record<number, TrabajoGeneracion>) : {};
+    } catch {
+      // Almacenamiento no disponible o corrupto: sin trabajos pendientes.
+      return {};
+    }
+  }
+
+  private escribir(trabajos: Record<number, TrabajoGeneracion>): void {
+    try {
+      localStorage.setItem(this.storageKey, JSON.stringify(trabajos));
+    } catch {
+      // Sin persistencia: el avance solo dura mientras la página esté abierta.
+    }
+  }
+}
@@ -0,0 +1,66 @@
+import { TestBed } from '@angular/core/testing';
+import { provideHttpClient } from '@angular/common/http';
+import { provideHttpClientTesting } from '@angular/common/http/testing';
+import { PlantillasService } from './plantillas.service';
+import { PlantillaSorteo } from '../models/plantilla';
+import { Sorteo } from '../models/sorteo';
+
+describe('PlantillasService', () => {
+  let service: PlantillasService;
+
+  // Miércoles 15 oct 2025, 12:00 m. en Bogotá (UTC−5)
+  const ahora = new Date('2025-10-15T17:00:00Z');
+  const plantilla: PlantillaSorteo = {
+    id: 4,
+    nombre: 'Semanal',
+    patronNombre: 'Sorteo del viernes {fecha}',
+    zonaHoraria: 'America/Bogota',
+    minutosCierre: 60,
+    cifras: 4,
+    desde: 0,
+    hasta: 999,
+    series: 0,
+    fracciones: 1,
+    precio: 10000,
+    premios: [{ id: 9, nombre: 'Premio mayor', tipo: 'MAYOR', valor: 1_000_000 }],
+    recurrencia: { dias: [5], hora: '21:00', anticipacion: 3 },
+  };
+
+  beforeEach(() => {
+    TestBed.configureTestingModule({
+      providers: [provideHttpClient(), provideHttpClientTesting()],
+    });
+    service = TestBed.inject(PlantillasService);
+  });
+
+  it('should list the next draws of a weekly recurrence', () => {
+    expect(service.proximasFechas(plantilla, ahora)).toEqual([
+      '2025-10-17T21:00',
+      '2025-10-24T21:00',
+      '2025-10-31T21:00',
+    ]);
+  });
+
+  it('should skip today once its sales cutoff has passed', () => {
+    const miercoles = { ...plantilla, recurrencia: { dias: [3], hora: '12:30', anticipacion: 1 } };
+    expect(service.proximasFechas(miercoles, ahora)).toEqual(['2025-10-22T12:30']);
+  });
+
+  it('should only return the dates without a sorteo from the template', () => {
+    const sorteos = [
+      { id: 1, plantillaId: 4, fechaSorteo: '2025-10-17T21:00:00', estado: 'ABIERTO' },
+      { id: 2, plantillaId: 4, fechaSorteo: '2025-10-24T21:00:00', estado: 'CANCELADO' },
+      { id: 3, plantillaId: 7, fechaSorteo: '2025-10-31T21:00:00', estado: 'ABIERTO' },
+    ] as Sorteo[];
+    expect(service.pendientes(plantilla, sorteos, ahora)).toEqual(['2025-10-31T21:00']);
+  });
+
+  it('should build the sorteo from the name pattern without the prize ids', () => {
+    const s = service.aSorteo(plantilla, '2025-10-17T21:00');
+    expect(s.nombre).toBe('Sorteo del viernes 17/10/2025');
+    expect(s.fechaSorteo).toBe('2025-10-17T21:00:00');
+    expect(s.plantillaId).toBe(4);
+    expect([s.desde, s.hasta, s.precio]).toEqual([0, 999, 10000]);
+    expect(s.premios).toEqual([{ nombre: 'Premio mayor', tipo: 'MAYOR', valor: 1_000_000 }]);
+  });
+});
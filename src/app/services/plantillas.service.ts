@@ -0,0 +1,171 @@
+// ============================================================
+// Archivo: src/app/services/plantillas.service.ts
+// Descripción:
+// Servicio de plantillas de sorteo: las guarda en el backend y
+// calcula, a partir de su recurrencia semanal, qué sorteos
+// próximos faltan por crear. Con él, el sorteo que se repite
+// cada semana no se vuelve a digitar a mano.
+// ============================================================
+
+import { Injectable } from '@angular/core';
+import { HttpClient } from '@angular/common/http';
+import { Observable } from 'rxjs';
+import { environment } from '../environments/environment';
+import { PlantillaSorteo } from '../models/plantilla';
+import { Sorteo } from '../models/sorteo';
+import { RelojService } from './reloj.service';
+import { OpcionesGeneracion, SorteoCreate } from './sorteos.service';
+
+/** Datos para crear o actualizar una plantilla (sin id). */
+export type PlantillaCreate = Omit<PlantillaSorteo, 'id'>;
+
+/**
+ * Servicio de plantillas y recurrencias.
+ *
+ * Endpoints esperados:
+ * - GET    {apiUrl}/plantillas
+ * - POST   {apiUrl}/plantillas
+ * - PUT    {apiUrl}/plantillas/{id}
+ * - DELETE {apiUrl}/plantillas/{id}
+ *
+ * Reglas de la recurrencia:
+ * - Los próximos sorteos son las siguientes fechas de los días de la
+ *   recurrencia, a su hora y en su zona, cuyo cierre de ventas aún no
+ *   ha pasado (hora del servidor).
+ * - Una fecha ya está programada si existe un sorteo de la plantilla
+ *   a esa fecha y hora, en cualquier estado: un sorteo cancelado no
+ *   se vuelve a crear.
+ */
+@Injectable({ providedIn: 'root' })
+export class PlantillasService {
+  /** URL base del recurso de plantillas en el backend */
+  private readonly base = `${environment.apiUrl}/plantillas`;
+
+  constructor(private http: HttpClient, private reloj: RelojService) {}
+
+  // ============================================================
+  // LISTAR PLANTILLAS
+  // ------------------------------------------------------------
+  // Método HTTP: GET
+  // URL: {apiUrl}/plantillas
+  //
+  // @returns Observable<PlantillaSorteo[]>
+  // ============================================================
+  listar(): Observable<PlantillaSorteo[]> {
+    return this.http.get<PlantillaSorteo[]>(this.base);
+  }
+
+  // ============================================================
+  // CREAR PLANTILLA
+  // ------------------------------------------------------------
+  // Método HTTP: POST
+  // URL: {apiUrl}/plantillas
+  // Body: PlantillaCreate
+  //
+  // @param payload Configuración del sorteo y recurrencia.
+  // @returns Observable<PlantillaSorteo>
+  // ============================================================
+  crear(payload: PlantillaCreate): Observable<PlantillaSorteo> {
+    return this.http.post<PlantillaSorteo>(this.base, payload);
+  }
+
+  // ============================================================
+  // ACTUALIZAR PLANTILLA
+  // ------------------------------------------------------------
+  // Método HTTP: PUT
+  // URL: {apiUrl}/plantillas/{id}
+  // Body: PlantillaCreate
+  //
+  // @param id ID de la plantilla.
+  // @param payload Nueva configuración.
+  // @returns Observable<PlantillaSorteo>
+  // ============================================================
+  actualizar(id: number, payload: PlantillaCreate): Observable<PlantillaSorteo> {
+    return this.http.put<PlantillaSorteo>(`${this.base}/${id}`, payload);
+  }
+
+  // ============================================================
+  // ELIMINAR PLANTILLA
+  // ------------------------------------------------------------
+  // Los sorteos ya creados con la plantilla no se modifican.
+  //
+  // Método HTTP: DELETE
+  // URL: {apiUrl}/plantillas/{id}
+  //
+  // @param id ID de la plantilla.
+  // @returns Observable<void>
+  // ============================================================
+  eliminar(id: number): Observable<void> {
+    return this.http.delete<void>(`${this.base}/${id}`);
+  }
+
+  // ============================================================
+  // PRÓXIMAS FECHAS DE LA RECURRENCIA
+  // ------------------------------------------------------------
+  // Siguientes fechas ('yyyy-MM-ddTHH:mm', hora de pared en la zona
+  // de la plantilla) en que se juega, hasta completar su anticipación.
+  //
+  // @param p Plantilla con recurrencia.
+  // @param ahora Momento de referencia (por defecto, la hora del servidor).
+  // @returns string[] (vacío si la plantilla no tiene recurrencia)
+  // ============================================================
+  proximasFechas(p: PlantillaSorteo, ahora: Date = this.reloj.ahora()): string[] {
+    const r = p.recurrencia;
+    if (!r?.dias?.length || !r.hora || !(r.anticipacion > 0)) return [];
+
+    const [y, m, d] = this.reloj.enZona(ahora, p.zonaHoraria).slice(0, 10).split('-').map(Number);
+    const fechas: string[] = [];
+    // Una semana de margen por cada sorteo pedido basta para encontrarlos todos
+    for (let i = 0; fechas.length < r.anticipacion && i <= 7 * (r.anticipacion + 1); i++) {
+      const dia = new Date(Date.UTC(y, m - 1, d + i));
+      if (!r.dias.includes(dia.getUTCDay())) continue;
+
+      const fechaHora = `${dia.toISOString().slice(0, 10)}T${r.hora}`;
+      const cierre = this.reloj.instante(fechaHora, p.zonaHoraria).getTime() - p.minutosCierre * 60_000;
+      if (cierre > ahora.getTime()) fechas.push(fechaHora);
+    }
+    return fechas;
+  }
+
+  /** Próximas fechas de la plantilla que aún no tienen sorteo creado. */
+  pendientes(p: PlantillaSorteo, sorteos: Sorteo[], ahora?: Date): string[] {
+    const programadas = new Set(
+      sorteos.filter((s) => s.plantillaId === p.id).map((s) => s.fechaSorteo.slice(0, 16))
+    );
+    return this.proximasFechas(p, ahora).filter((f) => !programadas.has(f));
+  }
+
+  // ============================================================
+  // SORTEO A PARTIR DE LA PLANTILLA
+  // ============================================================
+
+  /** Nombre del sorteo según el patrón (ej. "Sorteo del viernes 24/10/2025"). */
+  nombreSorteo(p: Pick<PlantillaSorteo, 'patronNombre' | 'nombre'>, fechaHora: string): string {
+    const [y, m, d] = fechaHora.slice(0, 10).split('-');
+    const patron = p.patronNombre?.trim() || p.nombre;
+    return patron.replaceAll('{fecha}', `${d}/${m}/${y}`);
+  }
+
+  /** Cuerpo para crear el sorteo de la plantilla a la fecha indicada. */
+  aSorteo(p: PlantillaSorteo, fechaHora: string): SorteoCreate {
+    return {
+      nombre: this.nombreSorteo(p, fechaHora).slice(0, 80),
+      fechaSorteo: `${fechaHora}:00`,
+      zonaHoraria: p.zonaHoraria,
+      minutosCierre: p.minutosCierre,
+      cifras: p.cifras,
+      desde: p.desde,
+      hasta: p.hasta,
+      series: p.series,
+      fracciones: p.fracciones,
+      precio: p.precio,
+      premios: p.premios.map(({ id, ...premio }) => premio),
+      plantillaId: p.id,
+    };
+  }
+
+  /** Numeración y precio de los billetes de la plantilla. */
+  opciones(p: PlantillaSorteo): OpcionesGeneracion {
+    return { cifras: p.cifras, desde: p.desde, hasta: p.hasta, series: p.series, precio: p.precio };
+  }
+}
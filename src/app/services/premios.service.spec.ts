@@ -0,0 +1,112 @@
+import { TestBed } from '@angular/core/testing';
+import { PremiosService } from './premios.service';
+import { Premio } from '../models/premio';
+import { Billete } from '../models/billete';
+
+describe('PremiosService', () => {
+  let service: PremiosService;
+
+  const plan: Premio[] = [
+    { nombre: 'Premio mayor', tipo: 'MAYOR', valor: 1_000_000 },
+    { nombre: 'Seco', tipo: 'SECO', valor: 100_000 },
+    { nombre: 'Tres últimas', tipo: 'ULTIMAS_CIFRAS', cifras: 3, valor: 20_000 },
+    { nombre: 'Otra serie', tipo: 'OTRA_SERIE', valor: 50_000 },
+  ];
+
+  const billete = (numero: number, extra: Partial<Billete> = {}): Billete => ({
+    id: numero,
+    numero,
+    precio: 10000,
+    estado: 'VENDIDO',
+    sorteoId: 1,
+    ...extra,
+  });
+
+  beforeEach(() => {
+    TestBed.configureTestingModule({});
+    service = TestBed.inject(PremiosService);
+  });
+
+  it('should award the premio mayor on an exact match', () => {
+    const premio = service.evaluarBillete(billete(4321), { numeros: [4321] }, plan);
+    expect(premio?.tipo).toBe('MAYOR');
+  });
+
+  it('should award a seco when the number matches a secondary number', () => {
+    const premio = service.evaluarBillete(billete(77), { numeros: [4321, 77] }, plan);
+    expect(premio?.tipo).toBe('SECO');
+  });
+
+  it('should award an aproximación on matching last digits', () => {
+    const premio = service.evaluarBillete(billete(1321), { numeros: [4321] }, plan);
+    expect(premio?.tipo).toBe('ULTIMAS_CIFRAS');
+  });
+
+  it('should distinguish the winning series from a different one', () => {
+    const resultado = { numeros: [4321], serie: '045' };
+    expect(service.evaluarBillete(billete(4321, { serie: '045' }), resultado, plan)?.tipo).toBe('MAYOR');
+    expect(service.evaluarBillete(billete(4321, { serie: '046' }), resultado, plan)?.tipo).toBe('OTRA_SERIE');
+  });
+
+  it('should return null when nothing matches or there is no result', () => {
+    expect(service.evaluarBillete(billete(5555), { numeros: [4321] }, plan)).toBeNull();
+    expect(service.evaluarBillete(billete(4321), null, plan)).toBeNull();
+    expect(service.evaluarBillete(billete(4321), { numeros: [4321] }, [])).toBeNull();
+  });
+
+  it('should only evaluate sold tickets and sort by prize value', () => {
+    const billetes = [
+      billete(1321),
+      billete(4321),
+      billete(321, { estado: 'DISPONIBLE' }),
+    ];
+    const premiados = service.evaluarSorteo(billetes, { numeros: [4321] }, plan);
+    expect(premiados.map((p) => p.billete.numero)).toEqual([4321, 1321]);
+    expect(service.totalPremios(premiados)).toBe(1_020_000);
+  });
+
+  it('should split the prize among the fractions sold', () => {
+    const fraccionado = billete(4321, {
+      estado: 'PARCIAL',
+      fracciones: 3,
+      fraccionesVendidas: 2,
+      ventasFraccion: [
+        { clienteId: 7, cantidad: 1, precio: 3333.33 },
+        { clienteId: 9, cantidad: 1, precio: 3333.33 },
+      ],
+    });
+    const premiados = service.evaluarSorteo([fraccionado], { numeros: [4321] }, plan);
+    expect(service.repartirPremio(premiados[0]).map((p) => [p.clienteId, p.valor])).toEqual([
+      [7, 333_333.33],
+      [9, 333_333.33],
+    ]);
+    expect(Math.round(service.totalPremios(premiados))).toBe(666_667);
+  });
+
+  it('should give the rounding remainder to the sale that completes the ticket', () => {
+    const fraccionado = billete(4321, {
+      fracciones: 3,
+      ventasFraccion: [
+        { clienteId: 7, cantidad: 1, precio: 3333.33 },
+        { clienteId: 9, cantidad: 1, precio: 3333.33 },
+        { clienteId: 11, cantidad: 1, precio: 3333.34 },
+      ],
+    });
+    const premiados = service.evaluarSorteo([fraccionado], { numeros: [4321] }, plan);
+    const pagos = service.repartirPremio(premiados[0]);
+    expect(pagos.map((p) => p.valor)).toEqual([333_333.33, 333_333.33, 333_333.34]);
+    expect(pagos.reduce((acc, p) => acc + p.valor, 0)).toBe(1_000_000);
+    expect(service.totalPremios(premiados)).toBe(1_000_000);
+  });
+
+  it('should match the total to the sum of the payments of a partial ticket', () => {
+    const fraccionado = billete(4321, {
+      estado: 'PARCIAL',
+      fracciones: 3,
+      ventasFraccion: [{ clienteId: 7, cantidad: 2, precio: 6666.66 }],
+    });
+    const premiados = service.evaluarSorteo([fraccionado], { numeros: [4321] }, plan);
+    expect(service.repartirPremio(premiados[0]).map((p) => p.valor)).toEqual([666_666.66]);
+    expect(service.totalPremios(premiados)).toBe(666_666.66);
+  });
+});
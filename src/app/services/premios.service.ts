@@ -0,0 +1,148 @@
+// ============================================================
+// Archivo: src/app/services/premios.service.ts
+// Descripción:
+// Servicio que evalúa los billetes de un sorteo contra su plan
+// de premios una vez se conoce el resultado. No realiza llamadas
+// HTTP: trabaja sobre el resultado y los billetes ya cargados.
+// En billetes fraccionados, reparte cada premio entre los
+// clientes según las fracciones que compraron.
+// ============================================================
+
+import { Injectable } from '@angular/core';
+import { Billete } from '../models/billete';
+import { PagoPremio, Premio, PremioObtenido } from '../models/premio';
+import { ResultadoSorteo } from '../models/resultado';
+import { FraccionesService } from './fracciones.service';
+
+/** Datos mínimos de un billete necesarios para evaluarlo. */
+type BilleteEvaluable = Pick<Billete, 'numero'> & { serie?: string | null };
+
+/**
+ * Servicio de evaluación de premios.
+ *
+ * Reglas (ver TipoPremio):
+ * - Un billete puede coincidir con varias reglas; se le asigna
+ *   únicamente el premio de mayor valor (los premios no se acumulan).
+ * - Solo los billetes vendidos (o parcialmente vendidos) reciben premio
+ *   al evaluar un sorteo.
+ * - El premio de un billete fraccionado se divide entre sus fracciones:
+ *   cada cliente cobra la parte de las fracciones que compró y las
+ *   fracciones no vendidas no se pagan.
+ */
+@Injectable({ providedIn: 'root' })
+export class PremiosService {
+  constructor(private fracciones: FraccionesService) {}
+
+  // ============================================================
+  // EVALUAR UN BILLETE
+  // ------------------------------------------------------------
+  // Devuelve el premio de mayor valor que obtiene el billete, o
+  // null si no coincide con ninguna regla del plan.
+  //
+  // @param billete Billete a evaluar (número y serie).
+  // @param resultado Resultado registrado del sorteo.
+  // @param plan Plan de premios del sorteo.
+  // @returns Premio | null
+  // ============================================================
+  evaluarBillete(
+    billete: BilleteEvaluable,
+    resultado: Pick<ResultadoSorteo, 'numeros' | 'serie'> | null,
+    plan: Premio[] | null | undefined
+  ): Premio | null {
+    if (!resultado || !resultado.numeros?.length || !plan?.length) return null;
+
+    const ganadores = plan.filter((p) => this.coincide(billete, resultado, p));
+    if (!ganadores.length) return null;
+    return ganadores.reduce((max, p) => (Number(p.valor) > Number(max.valor) ? p : max));
+  }
+
+  // ============================================================
+  // EVALUAR LOS BILLETES VENDIDOS DE UN SORTEO
+  // ------------------------------------------------------------
+  // Evalúa cada billete con fracciones vendidas y devuelve solo los premiados,
+  // ordenados por valor del premio (descendente).
+  //
+  // @param billetes Billetes del sorteo.
+  // @param resultado Resultado registrado del sorteo.
+  // @param plan Plan de premios del sorteo.
+  // @returns PremioObtenido[]
+  // ============================================================
+  evaluarSorteo(
+    billetes: Billete[],
+    resultado: Pick<ResultadoSorteo, 'numeros' | 'serie'> | null,
+    plan: Premio[] | null | undefined
+  ): PremioObtenido[] {
+    const premiados: PremioObtenido[] = [];
+    for (const b of billetes ?? []) {
+      if (!this.fracciones.tieneVentas(b)) continue;
+      const premio = this.evaluarBillete(b, resultado, plan);
+      if (premio) premiados.push({ billete: b, premio });
+    }
+    return premiados.sort((a, b) => Number(b.premio.valor) - Number(a.premio.valor));
+  }
+
+  // ============================================================
+  // REPARTIR UN PREMIO POR FRACCIONES
+  // ------------------------------------------------------------
+  // Parte del premio que cobra cada cliente del billete:
+  // valor × fracciones compradas / fracciones del billete, a centavos.
+  // La venta que completa el billete lleva el residuo del redondeo.
+  //
+  // @param premiado Billete premiado y su premio.
+  // @returns PagoPremio[] (uno por venta del billete)
+  // ============================================================
+  repartirPremio(premiado: PremioObtenido): PagoPremio[] {
+    const total = this.fracciones.total(premiado.billete);
+    const valor = Number(premiado.premio.valor || 0);
+    let acumuladas = 0;
+    return this.fracciones.ventas(premiado.billete).map((v) => {
+      acumuladas += v.cantidad;
+      return {
+        clienteId: v.clienteId,
+        clienteNombre: v.clienteNombre,
+        clienteCorreo: v.clienteCorreo ?? null,
+        fracciones: v.cantidad,
+        totalFracciones: total,
+        valor: this.fracciones.parte(valor, total, v.cantidad, acumuladas >= total),
+      };
+    });
+  }
+
+  /** Total a pagar por una lista de premios obtenidos (solo las fracciones vendidas). */
+  totalPremios(premiados: PremioObtenido[]): number {
+    return premiados.reduce((acc, p) => {
+      const total = this.fracciones.total(p.billete);
+      const vendidas = this.fracciones.vendidas(p.billete);
+      return acc + this.fracciones.parte(Number(p.premio.valor || 0), total, vendidas, vendidas >= total);
+    }, 0);
+  }
+
+  /** True si el billete cumple la regla del premio. */
+  private coincide(
+    billete: BilleteEvaluable,
+    resultado: Pick<ResultadoSorteo, 'numeros' | 'serie'>,
+    premio: Premio
+  ): boolean {
+    const numero = Number(billete.numero);
+    const [mayor, ...secos] = resultado.numeros.map(Number);
+    const serieBillete = billete.serie ?? null;
+    const serieGanadora = resultado.serie ?? null;
+
+    switch (premio.tipo) {
+      case 'MAYOR':
+        return numero === mayor && (!serieGanadora || serieBillete === serieGanadora);
+      case 'SECO':
+        return secos.includes(numero);
+      case 'ULTIMAS_CIFRAS': {
+        const cifras = Number(premio.cifras ?? 0);
+        if (cifras < 1) return false;
+        const mod = 10 ** cifras;
+        return numero % mod === mayor % mod;
+      }
+      case 'OTRA_SERIE':
+        return numero === mayor && !!serieGanadora && !!serieBillete && serieBillete !== serieGanadora;
+      default:
+        return false;
+    }
+  }
+}
@@ -0,0 +1,146 @@
+// ============================================================
+// Archivo: src/app/services/reloj.service.ts
+// Descripción:
+// Reloj de la aplicación sincronizado con el servidor y
+// utilidades de zona horaria para las fechas de los sorteos.
+// - La hora "actual" no depende del reloj del equipo del vendedor:
+//   se corrige con el desfase respecto a la hora del backend.
+// - Las fechas/hora de los sorteos se interpretan en la zona
+//   horaria del sorteo (ej. America/Bogota), no en la del navegador.
+// ============================================================
+
+import { Injectable } from '@angular/core';
+import { HttpClient } from '@angular/common/http';
+import { environment } from '../environments/environment';
+
+/** Respuesta del endpoint de hora del servidor. */
+interface HoraServidor {
+  ahora: string;
+}
+
+/**
+ * Servicio de reloj y zonas horarias.
+ *
+ * Endpoint esperado:
+ * - GET {apiUrl}/tiempo → { ahora: string (ISO con zona) }
+ *
+ * Notas:
+ * - Se sincroniza una vez al crearse; si el backend no responde, se
+ *   usa el reloj del equipo (desfase 0).
+ * - Una fecha/hora sin zona explícita (ej. '2025-12-24T22:30:00' o
+ *   '2025-12-24') se toma como hora de pared en la zona indicada.
+ */
+@Injectable({ providedIn: 'root' })
+export class RelojService {
+  /** Diferencia (ms) entre la hora del servidor y la del equipo. */
+  private desfaseMs = 0;
+
+  constructor(private http: HttpClient) {
+    this.sincronizar();
+  }
+
+  // ============================================================
+  // SINCRONIZAR CON EL SERVIDOR
+  // ------------------------------------------------------------
+  // Calcula el desfase con la hora del backend, compensando la
+  // mitad del tiempo de ida y vuelta de la petición.
+  //
+  // Método HTTP: GET
+  // URL: {apiUrl}/tiempo
+  // ============================================================
+  sincronizar(): void {
+    const inicio = Date.now();
+    this.http.get<HoraServidor>(`${environment.apiUrl}/tiempo`).subscribe({
+      next: (res) => {
+        const servidor = new Date(res?.ahora).getTime();
+        if (Number.isNaN(servidor)) return;
+        const fin = Date.now();
+        this.desfaseMs = servidor + (fin - inicio) / 2 - fin;
+      },
+      error: () => (this.desfaseMs = 0),
+    });
+  }
+
+  /** Hora actual según el servidor. */
+  ahora(): Date {
+    return new Date(Date.now() + this.desfaseMs);
+  }
+
+  // ============================================================
+  // CONVERSIONES DE ZONA HORARIA
+  // ============================================================
+
+  /**
+   * Instante que representa una fecha/hora del sorteo.
+   * Si el texto trae zona ('Z' o '±HH:mm') se respeta; si no, se
+   * interpreta como hora de pared en `zona`.
+   */
+  instante(fechaHora: string, zona: string = environment.zonaHoraria): Date {
+    if (/(Z|[+-]\d{2}:?\d{2})$/i.test(fechaHora)) return new Date(fechaHora);
+
+    const [fecha, hora = '00:00'] = fechaHora.split('T');
+    const [y, m, d] = fecha.split('-').map(Number);
+    const [hh, mi, ss = 0] = hora.split(':').map((p) => Math.trunc(Number(p)));
+    const comoUtc = Date.UTC(y, m - 1, d, hh, mi, ss);
+
+    // El desfase de la zona depende del instante (horario de verano):
+    // se calcula dos veces para ajustar cerca de los cambios de hora.
+    let t = comoUtc - this.desfaseZona(zona, new Date(comoUtc));
+    t = comoUtc - this.desfaseZona(zona, new Date(t));
+    return new Date(t);
+  }
+
+  /** Hora de pared de un instante en la zona indicada, formato 'yyyy-MM-ddTHH:mm'. */
+  enZona(instante: Date, zona: string = environment.zonaHoraria): string {
+    const p = this.partes(instante, zona);
+    const dos = (n: number) => String(n).padStart(2, '0');
+    return `${p.year}-${dos(p.month)}-${dos(p.day)}T${dos(p.hour)}:${dos(p.minute)}`;
+  }
+
+  /** Texto legible de un instante en la zona indicada (ej. "24 dic 2025, 10:30 p. m."). */
+  formatear(instante: Date, zona: string = environment.zonaHoraria): string {
+    return new Intl.DateTimeFormat('es-CO', {
+      dateStyle: 'medium',
+      timeStyle: 'short',
+      timeZone: zona,
+    }).format(instante);
+  }
+
+  // ============================================================
+  // Utilidades
+  // ============================================================
+
+  /** Milisegundos que la zona va por delante de UTC en un instante dado. */
+  private desfaseZona(zona: string, instante: Date): number {
+    const p = this.partes(instante, zona);
+    const pared = Date.UTC(p.year, p.month - 1, p.day, p.hour, p.minute, p.second);
+    return pared - Math.floor(instante.getTime() / 1000) * 1000;
+  }
+
+  /** Componentes de fecha/hora de un instante en una zona. */
+  private partes(instante: Date, zona: string) {
+    const valores: Record<string, number> = {};
+    new Intl.DateTimeFormat('en-US', {
+      timeZone: zona,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      second: '2-digit',
+    })
+      .formatToParts(instante)
+      .forEach((p) => {
+        if (p.type !== 'literal') valores[p.type] = Number(p.value);
+      });
+    return {
+      year: valores['year'],
+      month: valores['month'],
+      day: valores['day'],
+      hour: valores['hour'] % 24,
+      minute: valores['minute'],
+      second: valores['second'],
+    };
+  }
+}
@@ -0,0 +1,177 @@
+// ============================================================
+// Archivo: src/app/services/reservas.service.ts
+// Descripción:
+// Servicio para apartar temporalmente billetes (estado RESERVADO)
+// mientras un vendedor completa la venta. Además de llamar al
+// backend, lleva el registro local de las reservas activas de este
+// vendedor y avisa cuando alguna vence, para liberar la selección.
+// ============================================================
+
+import { inject, Injectable } from '@angular/core';
+import { HttpClient } from '@angular/common/http';
+import { Observable, Subject, of, catchError, map, tap } from 'rxjs';
+import { environment } from '../environments/environment';
+import { Billete } from '../models/billete';
+import { VendedorService } from './vendedor.service';
+import { RelojService } from './reloj.service';
+
+/** Reserva activa de este vendedor (registro local). */
+export interface ReservaActiva {
+  billeteId: number;
+  sorteoId: number;
+  /** Instante de vencimiento (epoch ms). */
+  expira: number;
+}
+
+/**
+ * Servicio de reservas de billetes.
+ *
+ * Endpoints esperados en el backend:
+ * - POST  {apiUrl}/reservas
+ *     Body: { sorteoId, billeteId, vendedorId, minutos }
+ *     Respuesta: Billete (estado "RESERVADO", con reservadoHasta y reservadoPor)
+ *     409 si el billete ya está reservado por otro vendedor o vendido.
+ *
+ * - POST  {apiUrl}/reservas/liberar
+ *     Body: { vendedorId, billeteIds }
+ *     (se usa POST para poder enviarlo también con navigator.sendBeacon al salir)
+ *
+ * Notas:
+ * - La venta de un billete reservado consume la reserva en el backend;
+ *   en el front basta con llamar a confirmar() para dejar de seguirla.
+ */
+@Injectable({ providedIn: 'root' })
+export class ReservasService {
+  /** Inyección de dependencias. */
+  private readonly http = inject(HttpClient);
+  private readonly vendedor = inject(VendedorService);
+  private readonly reloj = inject(RelojService);
+
+  /** URL base del recurso de reservas. */
+  private readonly base = `${environment.apiUrl}/reservas`;
+
+  /** Reservas activas de este vendedor, por ID de billete. */
+  private readonly activas = new Map<number, ReservaActiva>();
+
+  /** Temporizadores de vencimiento por ID de billete. */
+  private readonly timers = new Map<number, ReturnType<typeof setTimeout>>();
+
+  /** Emite cada reserva que vence sin haberse vendido ni liberado. */
+  private readonly expiradasSubject = new Subject<ReservaActiva>();
+  readonly expiradas$ = this.expiradasSubject.asObservable();
+
+  // ============================================================
+  // RESERVAR BILLETE
+  // ------------------------------------------------------------
+  // Aparta un billete para este vendedor durante
+  // environment.reservaMinutos minutos.
+  //
+  // Método HTTP: POST
+  // URL: {apiUrl}/reservas
+  //
+  // @param sorteoId ID del sorteo.
+  // @param billeteId ID del billete.
+  // @returns Observable<Billete> con el billete en estado RESERVADO.
+  // ============================================================
+  reservar(sorteoId: number, billeteId: number): Observable<Billete> {
+    const body = {
+      sorteoId,
+      billeteId,
+      vendedorId: this.vendedor.id,
+      minutos: environment.reservaMinutos,
+    };
+    return this.http.post<Billete>(this.base, body).pipe(
+      tap((b) => this.seguir(sorteoId, billeteId, b?.reservadoHasta ?? null))
+    );
+  }
+
+  // ============================================================
+  // LIBERAR RESERVAS
+  // ------------------------------------------------------------
+  // Devuelve los billetes indicados a DISPONIBLE. El registro local
+  // se limpia de inmediato; los fallos del backend se ignoran porque
+  // la reserva vencerá sola.
+  //
+  // Método HTTP: POST
+  // URL: {apiUrl}/reservas/liberar
+  //
+  // @param billeteIds IDs de billetes a liberar.
+  // ============================================================
+  liberar(billeteIds: number[]): Observable<void> {
+    const ids = billeteIds.filter((id) => this.activas.has(id));
+    ids.forEach((id) => this.olvidar(id));
+    if (!ids.length) return of(void 0);
+
+    return this.http
+      .post<void>(`${this.base}/liberar`, { vendedorId: this.vendedor.id, billeteIds: ids })
+      .pipe(
+        map(() => void 0),
+        catchError(() => of(void 0))
+      );
+  }
+
+  /** Libera todas las reservas activas de este vendedor, salvo las indicadas (p. ej. las del carrito). */
+  liberarTodas(excepto: number[] = []): Observable<void> {
+    return this.liberar(Array.from(this.activas.keys()).filter((id) => !excepto.includes(id)));
+  }
+
+  /**
+   * Libera todas las reservas al cerrar o recargar la página.
+   * Usa navigator.sendBeacon porque una petición normal se cancela al descargar la página.
+   */
+  liberarAlSalir(): void {
+    const ids = Array.from(this.activas.keys());
+    if (!ids.length) return;
+    ids.forEach((id) => this.olvidar(id));
+
+    const body = JSON.stringify({ vendedorId: this.vendedor.id, billeteIds: ids });
+    if (typeof navigator !== 'undefined' && navigator.sendBeacon) {
+      navigator.sendBeacon(`${this.base}/liberar`, new Blob([body], { type: 'application/json' }));
+    }
+  }
+
+  /** Deja de seguir reservas que ya se convirtieron en venta. */
+  confirmar(billeteIds: number[]): void {
+    billeteIds.forEach((id) => this.olvidar(id));
+  }
+
+  /** True si el billete está reservado por este vendedor. */
+  esMia(billeteId: number): boolean {
+    return this.activas.has(billeteId);
+  }
+
+  /** Milisegundos restantes de la reserva de un billete (0 si no hay reserva), según la hora del servidor. */
+  restanteMs(billeteId: number, ahora = this.reloj.ahora().getTime()): number {
+    const r = this.activas.get(billeteId);
+    return r ? Math.max(r.expira - ahora, 0) : 0;
+  }
+
+  // ============================================================
+  // Registro local
+  // ============================================================
+  private seguir(sorteoId: number, billeteId: number, reservadoHasta: string | null): void {
+    this.olvidar(billeteId);
+
+    // reservadoHasta viene del servidor: se compara contra su hora, no la del equipo
+    const ahora = this.reloj.ahora().getTime();
+    const porDefecto = ahora + environment.reservaMinutos * 60_000;
+    const expira = reservadoHasta ? Date.parse(reservadoHasta) || porDefecto : porDefecto;
+    const reserva: ReservaActiva = { billeteId, sorteoId, expira };
+    this.activas.set(billeteId, reserva);
+
+    this.timers.set(
+      billeteId,
+      setTimeout(() => {
+        this.olvidar(billeteId);
+        this.expiradasSubject.next(reserva);
+      }, Math.max(expira - ahora, 0))
+    );
+  }
+
+  private olvidar(billeteId: number): void {
+    const t = this.timers.get(billeteId);
+    if (t) clearTimeout(t);
+    this.timers.delete(billeteId);
+    this.activas.delete(billeteId);
+  }
+}
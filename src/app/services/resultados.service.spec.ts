@@ -0,0 +1,35 @@
+import { TestBed } from '@angular/core/testing';
+import { provideHttpClient } from '@angular/common/http';
+import { HttpTestingController, provideHttpClientTesting } from '@angular/common/http/testing';
+import { ResultadosService } from './resultados.service';
+
+describe('ResultadosService', () => {
+  let service: ResultadosService;
+  let http: HttpTestingController;
+
+  beforeEach(() => {
+    TestBed.configureTestingModule({
+      providers: [provideHttpClient(), provideHttpClientTesting()],
+    });
+    service = TestBed.inject(ResultadosService);
+    http = TestBed.inject(HttpTestingController);
+  });
+
+  afterEach(() => http.verify());
+
+  it('should return null when the sorteo has no result yet (404)', () => {
+    let resultado: unknown = undefined;
+    service.obtener(3).subscribe((r) => (resultado = r));
+
+    http.expectOne((r) => r.url.endsWith('/sorteos/3/resultado')).flush(null, { status: 404, statusText: 'Not Found' });
+    expect(resultado).toBeNull();
+  });
+
+  it('should propagate server errors instead of reporting no result', () => {
+    let fallo = false;
+    service.obtener(3).subscribe({ error: () => (fallo = true) });
+
+    http.expectOne((r) => r.url.endsWith('/sorteos/3/resultado')).flush(null, { status: 500, statusText: 'Server Error' });
+    expect(fallo).toBeTrue();
+  });
+});
@@ -0,0 +1,83 @@
+// ============================================================
+// Archivo: src/app/services/resultados.service.ts
+// Descripción:
+// Servicio encargado de registrar y consultar los resultados de
+// los sorteos ya realizados. Al registrar un resultado, el backend
+// marca como ganador(es) el/los billete(s) que coinciden con los
+// números ingresados y los devuelve junto a su cliente comprador.
+// ============================================================
+
+import { inject, Injectable } from '@angular/core';
+import { HttpClient, HttpErrorResponse } from '@angular/common/http';
+import { Observable, of, catchError, throwError } from 'rxjs';
+import { environment } from '../environments/environment';
+import { ResultadoSorteo } from '../models/resultado';
+
+/**
+ * Servicio de resultados de sorteos.
+ *
+ * Endpoints esperados en el backend:
+ * - GET    {apiUrl}/sorteos/{id}/resultado
+ * - POST   {apiUrl}/sorteos/{id}/resultado
+ */
+@Injectable({ providedIn: 'root' })
+export class ResultadosService {
+  /** Inyección de HttpClient mediante la función inject(). */
+  private readonly http = inject(HttpClient);
+
+  /** URL base del recurso de sorteos. */
+  private readonly base = `${environment.apiUrl}/sorteos`;
+
+  // ============================================================
+  // OBTENER RESULTADO DE UN SORTEO
+  // ------------------------------------------------------------
+  // Devuelve el resultado registrado para un sorteo, o null si
+  // todavía no se ha registrado (el backend responde 404). Cualquier
+  // otro error (red, 5xx) se propaga: no significa "sin resultado".
+  //
+  // Método HTTP: GET
+  // URL: {apiUrl}/sorteos/{id}/resultado
+  //
+  // @param sorteoId ID del sorteo.
+  // @returns Observable<ResultadoSorteo | null>
+  //
+  // Ejemplo:
+  // this.resultadosService.obtener(3)
+  //   .subscribe(r => console.log('Resultado:', r));
+  // ============================================================
+  obtener(sorteoId: number): Observable<ResultadoSorteo | null> {
+    return this.http
+      .get<ResultadoSorteo>(`${this.base}/${sorteoId}/resultado`)
+      .pipe(
+        catchError((err: HttpErrorResponse) => (err?.status === 404 ? of(null) : throwError(() => err)))
+      );
+  }
+
+  // ============================================================
+  // REGISTRAR RESULTADO DE UN SORTEO
+  // ------------------------------------------------------------
+  // Registra el/los número(s) ganador(es) de un sorteo finalizado.
+  // El primer número es el mayor y los demás son secos. El backend
+  // marca los billetes coincidentes como ganadores.
+  //
+  // Método HTTP: POST
+  // URL: {apiUrl}/sorteos/{id}/resultado
+  // Body: { numeros: number[], serie?: string | null }
+  //
+  // @param sorteoId ID del sorteo.
+  // @param numeros Número(s) ganador(es): [mayor, ...secos].
+  // @param serie Serie ganadora del número mayor (opcional).
+  // @returns Observable<ResultadoSorteo>
+  //
+  // Ejemplo:
+  // this.resultadosService.registrar(3, [42])
+  //   .subscribe(r => console.log('Ganadores:', r.ganadores));
+  // ============================================================
+  registrar(
+    sorteoId: number,
+    numeros: number[],
+    serie: string | null = null
+  ): Observable<ResultadoSorteo> {
+    return this.http.post<ResultadoSorteo>(`${this.base}/${sorteoId}/resultado`, { numeros, serie });
+  }
+}
@@ -0,0 +1,35 @@
+import { TestBed } from '@angular/core/testing';
+import { provideHttpClient } from '@angular/common/http';
+import { HttpTestingController, provideHttpClientTesting } from '@angular/common/http/testing';
+import { SorteosService, cantidadBilletes } from './sorteos.service';
+
+describe('SorteosService', () => {
+  let service: SorteosService;
+  let http: HttpTestingController;
+
+  beforeEach(() => {
+    TestBed.configureTestingModule({
+      providers: [provideHttpClient(), provideHttpClientTesting()],
+    });
+    service = TestBed.inject(SorteosService);
+    http = TestBed.inject(HttpTestingController);
+  });
+
+  afterEach(() => http.verify());
+
+  it('should count the tickets of a numbering as range times series', () => {
+    expect(cantidadBilletes({ desde: 0, hasta: 99, series: 0 })).toBe(100);
+    expect(cantidadBilletes({ desde: 0, hasta: 99, series: 5 })).toBe(500);
+    expect(cantidadBilletes({ desde: 10, hasta: 5, series: 0 })).toBe(0);
+  });
+
+  it('should only send the filters that have a value', () => {
+    service.resumen({ q: '  navidad ', estado: '', desde: '2025-12-01', orden: 'recaudado', pagina: 0, tamano: 12 }).subscribe();
+
+    const req = http.expectOne((r) => r.url.endsWith('/sorteos/resumen'));
+    expect(req.request.params.keys().sort()).toEqual(['desde', 'orden', 'pagina', 'q', 'tamano']);
+    expect(req.request.params.get('q')).toBe('navidad');
+    expect(req.request.params.get('pagina')).toBe('0');
+    req.flush({ contenido: [], total: 0, pagina: 0, tamano: 12 });
+  });
+});
@@ -3,16 +3,137 @@
 // Descripción:
 // Servicio encargado de interactuar con el backend para la
 // gestión de sorteos y sus billetes asociados. Incluye métodos
-// para listar, crear y consultar sorteos, así como para generar
-// y obtener billetes de cada sorteo.
+// para listar, crear, editar, cancelar y consultar sorteos, así
+// como para generar y obtener billetes de cada sorteo.
 // ============================================================
 
 import { Injectable } from '@angular/core';
 import { HttpClient, HttpParams } from '@angular/common/http';
 import { Observable } from 'rxjs';
 import { environment } from '../environments/environment';
-import { Sorteo } from '../models/sorteo';
+import { EstadoSorteo, ResumenSorteo, Sorteo } from '../models/sorteo';
+import { Pagina } from '../models/pagina';
 import { Billete } from '../models/billete';
+import { Premio } from '../models/premio';
+
+/**
+ * Estructura del cuerpo para crear un nuevo sorteo.
+ * La numeración y el precio base quedan guardados en el sorteo (para
+ * clonarlo sin descargar sus billetes).
+ * El plan de premios es opcional (un sorteo puede crearse sin premios definidos).
+ */
+export type SorteoCreate = {
+  nombre: string;
+  fechaSorteo: string;
+  zonaHoraria: string;
+  minutosCierre: number;
+  cifras: number;
+  desde: number;
+  hasta: number;
+  series: number;
+  fracciones: number;
+  precio: number;
+  premios?: Premio[];
+  plantillaId?: number | null;
+};
+
+/**
+ * Opciones de numeración para generar billetes.
+ * - cifras: ancho del número (ej. 4 → "0000".."9999").
+ * - desde / hasta: rango de números a generar (inclusive).
+ * - series: cantidad de series ("000", "001", …); 0 = sin series.
+ *   Cada número del rango se genera una vez por serie.
+ * - precio: valor de cada billete.
+ */
+export type OpcionesGeneracion = {
+  cifras: number;
+  desde: number;
+  hasta: number;
+  series: number;
+  precio: number;
+};
+
+/** Cantidad de billetes que produce una numeración (rango × series). */
+export function cantidadBilletes(o: Pick<OpcionesGeneracion, 'desde' | 'hasta' | 'series'>): number {
+  const rango = Math.max(0, Math.floor(o.hasta) - Math.floor(o.desde) + 1);
+  return rango * Math.max(1, Math.floor(o.series || 0));
+}
+
+/**
+ * Precio diferenciado para un número o un rango de números
+ * (ej. números "de la suerte" más caros).
+ * - desde / hasta: rango de números (inclusive; un solo número: desde = hasta).
+ * - precio: nuevo valor del billete entero.
+ */
+export type PrecioRango = {
+  desde: number;
+  hasta: number;
+  precio: number;
+};
+
+/** Criterios de orden del listado de sorteos (vigentes = borrador/abiertos primero, por fecha). */
+export type OrdenSorteos = 'vigentes' | 'fecha' | 'nombre' | 'vendidos' | 'recaudado';
+
+/**
+ * Filtros del listado paginado de sorteos. Los vacíos no se envían.
+ * - q: texto a buscar en el nombre.
+ * - estado: estado del sorteo.
+ * - desde / hasta: rango de fechas del sorteo ('yyyy-MM-dd', inclusive).
+ * - plantillaId: solo los sorteos creados con una plantilla.
+ * - orden / direccion: criterio y sentido del orden.
+ * - pagina / tamano: página pedida (desde 0) y sorteos por página.
+ */
+export type FiltroSorteos = {
+  q?: string;
+  estado?: EstadoSorteo | '';
+  desde?: string;
+  hasta?: string;
+  plantillaId?: number | null;
+  orden?: OrdenSorteos;
+  direccion?: 'asc' | 'desc';
+  pagina?: number;
+  tamano?: number;
+};
+
+/**
+ * Estructura del cuerpo para editar o reprogramar un sorteo existente.
+ */
+export type SorteoUpdate = {
+  nombre: string;
+  fechaSorteo: string;
+  zonaHoraria: string;
+  minutosCierre: number;
+};
+
+/**
+ * Cliente afectado por la cancelación de un sorteo.
+ *
+ * Campos:
+ * - clienteId / nombre / correo: Cliente comprador.
+ * - billetes: Números de los billetes que compró en el sorteo.
+ * - totalReembolso: Suma de lo pagado por esos billetes.
+ */
+export interface ClienteAfectado {
+  clienteId: number;
+  nombre: string;
+  correo?: string | null;
+  billetes: number[];
+  totalReembolso: number;
+}
+
+/**
+ * Respuesta de la cancelación de un sorteo.
+ *
+ * Campos:
+ * - sorteo: Sorteo ya en estado CANCELADO.
+ * - billetesReembolso: Cantidad de billetes vendidos marcados para reembolso.
+ * - afectados: Clientes que compraron billetes del sorteo.
+ */
+export interface CancelacionSorteo {
+  sorteo: Sorteo;
+  billetesReembolso: number;
+  afectados: ClienteAfectado[];
+}
 
 /**
  * Servicio para manejar la comunicación con los endpoints del backend
@@ -20,9 +141,14 @@ import { Billete } from '../models/billete';
  *
  * Endpoints esperados:
  * - GET    {apiUrl}/sorteos
+ * - GET    {apiUrl}/sorteos/resumen?q=..&estado=..&desde=..&hasta=..&orden=..&pagina=..
  * - GET    {apiUrl}/sorteos/{id}
  * - POST   {apiUrl}/sorteos
+ * - PUT    {apiUrl}/sorteos/{id}
+ * - POST   {apiUrl}/sorteos/{id}/abrir
+ * - POST   {apiUrl}/sorteos/{id}/cancelar
  * - POST   {apiUrl}/sorteos/{id}/billetes?cantidad=..&precio=..
+ * - PUT    {apiUrl}/sorteos/{id}/billetes/precio
  * - GET    {apiUrl}/sorteos/{id}/billetes
  */
 @Injectable({ providedIn: 'root' })
@@ -47,6 +173,33 @@ export class SorteosService {
     return this.http.get<Sorteo[]>(this.base);
   }
 
+  // ============================================================
+  // RESUMEN PAGINADO DE SORTEOS
+  // ------------------------------------------------------------
+  // Devuelve una página de sorteos con sus contadores de billetes
+  // (vendidos / disponibles) y lo recaudado, calculados por el
+  // backend. Evita descargar los billetes de cada sorteo solo para
+  // contarlos.
+  //
+  // Método HTTP: GET
+  // URL: {apiUrl}/sorteos/resumen?q=..&estado=..&desde=..&hasta=..&plantillaId=..&orden=..&direccion=..&pagina=..&tamano=..
+  //
+  // @param filtro Búsqueda, filtros, orden y página.
+  // @returns Observable<Pagina<ResumenSorteo>>
+  //
+  // Ejemplo (abiertos de diciembre, por lo recaudado):
+  // this.sorteosService.resumen({ estado: 'ABIERTO', desde: '2025-12-01', hasta: '2025-12-31', orden: 'recaudado', direccion: 'desc' })
+  //   .subscribe(p => console.log(p.total, p.contenido));
+  // ============================================================
+  resumen(filtro: FiltroSorteos = {}): Observable<Pagina<ResumenSorteo>> {
+    let params = new HttpParams();
+    for (const [clave, valor] of Object.entries(filtro)) {
+      const texto = typeof valor === 'string' ? valor.trim() : valor;
+      if (texto !== undefined && texto !== null && texto !== '') params = params.set(clave, String(texto));
+    }
+    return this.http.get<Pagina<ResumenSorteo>>(`${this.base}/resumen`, { params });
+  }
+
   // ============================================================
   // OBTENER SORTEO POR ID
   // ------------------------------------------------------------
@@ -66,45 +219,107 @@ export class SorteosService {
   // ============================================================
   // CREAR SORTEO
   // ------------------------------------------------------------
-  // Registra un nuevo sorteo con nombre y fecha de realización.
+  // Registra un nuevo sorteo con nombre, fecha y hora de
+  // realización (en su zona horaria), cierre de ventas y su plan
+  // de premios.
   //
   // Método HTTP: POST
   // URL: {apiUrl}/sorteos
-  // Body: { nombre: string, fechaSorteo: string }
+  // Body: { nombre, fechaSorteo, zonaHoraria, minutosCierre, cifras, desde, hasta, series, fracciones, precio, premios?, plantillaId? }
   //
-  // @param payload Objeto con nombre y fecha del sorteo.
+  // @param payload Objeto con nombre, fecha y premios del sorteo.
   // @returns Observable<Sorteo>
   // ============================================================
-  crear(payload: { nombre: string; fechaSorteo: string }): Observable<Sorteo> {
+  crear(payload: SorteoCreate): Observable<Sorteo> {
     return this.http.post<Sorteo>(this.base, payload);
   }
 
+  // ============================================================
+  // EDITAR / REPROGRAMAR SORTEO
+  // ------------------------------------------------------------
+  // Actualiza el nombre, la fecha/hora, la zona horaria y/o el
+  // cierre de ventas de un sorteo existente. El backend rechaza
+  // fechas pasadas y sorteos cerrados, cancelados o ya jugados.
+  //
+  // Método HTTP: PUT
+  // URL: {apiUrl}/sorteos/{id}
+  // Body: { nombre, fechaSorteo, zonaHoraria, minutosCierre }
+  //
+  // @param sorteoId ID del sorteo.
+  // @param payload Nuevos datos del sorteo.
+  // @returns Observable<Sorteo>
+  // ============================================================
+  actualizar(sorteoId: number, payload: SorteoUpdate): Observable<Sorteo> {
+    return this.http.put<Sorteo>(`${this.base}/${sorteoId}`, payload);
+  }
+
+  // ============================================================
+  // ABRIR VENTAS DE UN SORTEO
+  // ------------------------------------------------------------
+  // Pasa un sorteo de BORRADOR a ABIERTO para que se pueda vender.
+  //
+  // Método HTTP: POST
+  // URL: {apiUrl}/sorteos/{id}/abrir
+  //
+  // @param sorteoId ID del sorteo.
+  // @returns Observable<Sorteo>
+  // ============================================================
+  abrir(sorteoId: number): Observable<Sorteo> {
+    return this.http.post<Sorteo>(`${this.base}/${sorteoId}/abrir`, null);
+  }
+
+  // ============================================================
+  // CANCELAR SORTEO
+  // ------------------------------------------------------------
+  // Cancela un sorteo en cascada: deja de venderse, los billetes
+  // vendidos quedan marcados para reembolso y la respuesta trae
+  // los clientes afectados para contactarlos.
+  //
+  // Método HTTP: POST
+  // URL: {apiUrl}/sorteos/{id}/cancelar
+  // Body: { motivo: string, vendedorId: string }
+  //
+  // @param sorteoId ID del sorteo.
+  // @param motivo Motivo de la cancelación (obligatorio).
+  // @param vendedorId Vendedor que registra la cancelación.
+  // @returns Observable<CancelacionSorteo>
+  // ============================================================
+  cancelar(sorteoId: number, motivo: string, vendedorId: string): Observable<CancelacionSorteo> {
+    return this.http.post<CancelacionSorteo>(`${this.base}/${sorteoId}/cancelar`, {
+      motivo: motivo.trim(),
+      vendedorId,
+    });
+  }
+
   // ============================================================
   // GENERAR BILLETES PARA UN SORTEO
   // ------------------------------------------------------------
-  // Crea una cantidad N de billetes asociados a un sorteo.
+  // Crea los billetes de un sorteo según su numeración: cada
+  // número del rango [desde..hasta], con las cifras indicadas, una
+  // vez por serie. Es la llamada de cada lote de
+  // GeneracionBilletesService; el backend omite los números que ya
+  // existen en el sorteo, así que reenviar un lote es seguro.
   //
   // Método HTTP: POST
-  // URL: {apiUrl}/sorteos/{id}/billetes?cantidad=..&precio=..
+  // URL: {apiUrl}/sorteos/{id}/billetes?cantidad=..&precio=..&cifras=..&desde=..&hasta=..&series=..
   // (Si el backend usa body en vez de params, se puede enviar el JSON directamente)
   //
   // @param sorteoId ID del sorteo.
-  // @param cantidad Número de billetes a generar.
-  // @param precio Valor unitario de cada billete.
+  // @param opciones Numeración (cifras, rango y series) y precio.
   // @returns Observable<Billete[]>
   //
-  // Ejemplo:
-  // this.sorteosService.generarBilletes(3, 20, 10000)
+  // Ejemplo (0000..0999 en 5 series):
+  // this.sorteosService.generarBilletes(3, { cifras: 4, desde: 0, hasta: 999, series: 5, precio: 10000 })
   //   .subscribe(b => console.log('Billetes generados', b));
   // ============================================================
-  generarBilletes(
-    sorteoId: number,
-    cantidad: number,
-    precio: number
-  ): Observable<Billete[]> {
+  generarBilletes(sorteoId: number, opciones: OpcionesGeneracion): Observable<Billete[]> {
     const params = new HttpParams()
-      .set('cantidad', String(cantidad))
-      .set('precio', String(precio));
+      .set('cantidad', String(cantidadBilletes(opciones)))
+      .set('precio', String(opciones.precio))
+      .set('cifras', String(opciones.cifras))
+      .set('desde', String(opciones.desde))
+      .set('hasta', String(opciones.hasta))
+      .set('series', String(opciones.series));
 
     return this.http.post<Billete[]>(
       `${this.base}/${sorteoId}/billetes`,
@@ -113,6 +328,29 @@ export class SorteosService {
     );
   }
 
+  // ============================================================
+  // PRECIO DIFERENCIADO POR NÚMERO O RANGO
+  // ------------------------------------------------------------
+  // Cambia el precio de los billetes de un rango de números (todas
+  // sus series). Solo se reprecian los billetes sin ventas ni
+  // reservas; los vendidos conservan el precio al que se vendieron.
+  //
+  // Método HTTP: PUT
+  // URL: {apiUrl}/sorteos/{id}/billetes/precio
+  // Body: { desde, hasta, precio }
+  //
+  // @param sorteoId ID del sorteo.
+  // @param rango Números y nuevo precio.
+  // @returns Observable<Billete[]> (billetes actualizados)
+  //
+  // Ejemplo (el 7777 a $50.000):
+  // this.sorteosService.actualizarPrecios(3, { desde: 7777, hasta: 7777, precio: 50000 })
+  //   .subscribe(bs => console.log('Billetes repreciados', bs.length));
+  // ============================================================
+  actualizarPrecios(sorteoId: number, rango: PrecioRango): Observable<Billete[]> {
+    return this.http.put<Billete[]>(`${this.base}/${sorteoId}/billetes/precio`, rango);
+  }
+
   // ============================================================
   // LISTAR BILLETES POR SORTEO
   // ------------------------------------------------------------
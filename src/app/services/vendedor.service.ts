@@ -0,0 +1,71 @@
+// ============================================================
+// Archivo: src/app/services/vendedor.service.ts
+// Descripción:
+// Servicio que mantiene la identidad del vendedor de esta estación.
+// El identificador se genera una sola vez y se conserva en
+// localStorage, de modo que las reservas y ventas puedan
+// atribuirse al mismo vendedor entre recargas de la página.
+// ============================================================
+
+import { Injectable } from '@angular/core';
+import { Vendedor } from '../models/vendedor';
+
+/**
+ * Servicio de identidad del vendedor.
+ *
+ * No realiza llamadas HTTP: la identidad vive en el navegador y se
+ * envía al backend en las operaciones que la requieren (reservas, ventas).
+ */
+@Injectable({ providedIn: 'root' })
+export class VendedorService {
+  /** Clave de almacenamiento local. */
+  private readonly storageKey = 'loteria.vendedor';
+
+  /** Vendedor actual (leído o generado al iniciar). */
+  private actual: Vendedor = this.leer();
+
+  /** Identificador del vendedor actual. */
+  get id(): string {
+    return this.actual.id;
+  }
+
+  /** Nombre visible del vendedor actual. */
+  get nombre(): string {
+    return this.actual.nombre;
+  }
+
+  /** Actualiza el nombre visible del vendedor y lo persiste. */
+  setNombre(nombre: string): void {
+    this.actual = { ...this.actual, nombre: (nombre ?? '').trim() || 'Vendedor' };
+    this.guardar();
+  }
+
+  /** Lee el vendedor almacenado o genera uno nuevo. */
+  private leer(): Vendedor {
+    try {
+      const raw = localStorage.getItem(this.storageKey);
+      const v = raw ? (JSON.parse(raw) as Partial<Vendedor>) : null;
+      if (v?.id) return { id: v.id, nombre: v.nombre || 'Vendedor' };
+    } catch {
+      // Almacenamiento no disponible o corrupto: se genera una identidad nueva.
+    }
+    const nuevo: Vendedor = { id: this.generarId(), nombre: 'Vendedor' };
+    this.actual = nuevo;
+    this.guardar();
+    return nuevo;
+  }
+
+  private guardar(): void {
+    try {
+      localStorage.setItem(this.storageKey, JSON.stringify(this.actual));
+    } catch {
+      // Sin persistencia (modo privado, cuota llena): la identidad dura la sesión.
+    }
+  }
+
+  private generarId(): string {
+    return typeof crypto !== 'undefined' && 'randomUUID' in crypto
+      ? crypto.randomUUID()
+      : `v-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+  }
+}
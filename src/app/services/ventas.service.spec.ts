@@ -0,0 +1,122 @@
+import { TestBed } from '@angular/core/testing';
+import { provideHttpClient } from '@angular/common/http';
+import { HttpTestingController, provideHttpClientTesting } from '@angular/common/http/testing';
+import { VentasService, VentaLoteRequest, VentaLoteResponse } from './ventas.service';
+import { Billete } from '../models/billete';
+
+describe('VentasService', () => {
+  let service: VentasService;
+  let http: HttpTestingController;
+
+  const lote = (modo: VentaLoteRequest['modo']): VentaLoteRequest => ({
+    sorteoId: 3,
+    clienteId: 7,
+    billeteIds: [42, 43, 57],
+    modo,
+  });
+
+  const vendido = (id: number): Billete => ({ id, numero: id, precio: 10000, estado: 'VENDIDO', sorteoId: 3 });
+
+  beforeEach(() => {
+    TestBed.configureTestingModule({
+      providers: [provideHttpClient(), provideHttpClientTesting()],
+    });
+    service = TestBed.inject(VentasService);
+    http = TestBed.inject(HttpTestingController);
+  });
+
+  afterEach(() => http.verify());
+
+  it('should report the result of each ticket of a partial batch', () => {
+    let respuesta: VentaLoteResponse | undefined;
+    service.venderLote(lote('PARCIAL')).subscribe((r) => (respuesta = r));
+
+    const req = http.expectOne((r) => r.url.endsWith('/ventas/lote'));
+    expect(req.request.method).toBe('POST');
+    req.flush({
+      modo: 'PARCIAL',
+      resultados: [
+        { billeteId: 42, ok: true, billete: vendido(42) },
+        { billeteId: 43, ok: false, error: 'Billete ya vendido' },
+        { billeteId: 57, ok: true, billete: vendido(57) },
+      ],
+    });
+
+    expect(respuesta?.resultados.map((r) => [r.billeteId, r.ok])).toEqual([
+      [42, true],
+      [43, false],
+      [57, true],
+    ]);
+    expect(respuesta?.resultados[1].error).toBe('Billete ya vendido');
+  });
+
+  it('should mark the tickets missing from the response as failed', () => {
+    let respuesta: VentaLoteResponse | undefined;
+    service.venderLote(lote('PARCIAL')).subscribe((r) => (respuesta = r));
+
+    http.expectOne((r) => r.url.endsWith('/ventas/lote')).flush({
+      modo: 'PARCIAL',
+      resultados: [{ billeteId: 42, ok: true, billete: vendido(42) }],
+    });
+
+    expect(respuesta?.resultados.map((r) => [r.billeteId, r.ok])).toEqual([
+      [42, true],
+      [43, false],
+      [57, false],
+    ]);
+    expect(respuesta?.resultados[2].error).toBe('Sin respuesta del servidor');
+  });
+
+  it('should treat a rejected all-or-nothing batch (409 with detail) as a result', () => {
+    let respuesta: VentaLoteResponse | undefined;
+    let fallo = false;
+    service.venderLote(lote('TODO_O_NADA')).subscribe({ next: (r) => (respuesta = r), error: () => (fallo = true) });
+
+    http.expectOne((r) => r.url.endsWith('/ventas/lote')).flush(
+      {
+        modo: 'TODO_O_NADA',
+        resultados: [
+          { billeteId: 42, ok: true },
+          { billeteId: 43, ok: false, error: 'Billete ya vendido' },
+          { billeteId: 57, ok: true },
+        ],
+      },
+      { status: 409, statusText: 'Conflict' }
+    );
+
+    expect(fallo).toBeFalse();
+    expect(respuesta?.resultados.every((r) => !r.ok)).toBeTrue();
+    expect(respuesta?.resultados.map((r) => r.error)).toEqual([
+      'Lote rechazado por otro billete',
+      'Billete ya vendido',
+      'Lote rechazado por otro billete',
+    ]);
+  });
+
+  it('should mark the whole all-or-nothing batch as failed if any ticket failed', () => {
+    let respuesta: VentaLoteResponse | undefined;
+    service.venderLote(lote('TODO_O_NADA')).subscribe((r) => (respuesta = r));
+
+    http.expectOne((r) => r.url.endsWith('/ventas/lote')).flush({
+      modo: 'TODO_O_NADA',
+      resultados: [
+        { billeteId: 42, ok: true, billete: vendido(42) },
+        { billeteId: 43, ok: false, error: 'Billete ya vendido' },
+        { billeteId: 57, ok: true, billete: vendido(57) },
+      ],
+    });
+
+    expect(respuesta?.resultados.every((r) => !r.ok && !r.billete)).toBeTrue();
+  });
+
+  it('should propagate a 409 without detail and other server errors', () => {
+    let fallos = 0;
+    service.venderLote(lote('TODO_O_NADA')).subscribe({ error: () => fallos++ });
+    service.venderLote(lote('PARCIAL')).subscribe({ error: () => fallos++ });
+
+    const [conflicto, servidor] = http.match((r) => r.url.endsWith('/ventas/lote'));
+    conflicto.flush({ message: 'Sorteo cerrado' }, { status: 409, statusText: 'Conflict' });
+    servidor.flush(null, { status: 500, statusText: 'Server Error' });
+    expect(fallos).toBe(2);
+  });
+});
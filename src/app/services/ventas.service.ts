@@ -1,34 +1,112 @@
 // ============================================================
 // Archivo: src/app/services/ventas.service.ts
 // Descripción:
-// Servicio Angular para registrar ventas de billetes y consultar
-// el historial de compras por cliente. Implementa llamadas HTTP
+// Servicio Angular para registrar ventas de billetes (individuales
+// o por lote), anularlas y consultar el historial de compras por cliente. Implementa llamadas HTTP
 // hacia el backend usando HttpClient e incluye normalización de
 // respuestas cuando el backend devuelve solo arreglos de billetes.
 // ============================================================
 
 import { Injectable, inject } from '@angular/core';
 import { HttpClient, HttpParams } from '@angular/common/http';
-import { Observable, map } from 'rxjs';
+import { Observable, map, catchError, of, throwError } from 'rxjs';
 import { environment } from '../environments/environment';
 import { Billete } from '../models/billete';
+import { Pago } from '../models/pago';
 
 /**
  * Estructura del cuerpo de la solicitud de venta enviada al backend.
  * Se espera que el backend registre la venta, marque el billete como
  * "VENDIDO" y asocie el cliente al billete/sorteo.
  *
+ * El pago es opcional para mantener compatibilidad; en efectivo incluye
+ * el monto recibido y el cambio entregado.
+ *
+ * En billetes fraccionados, `fracciones` indica cuántas fracciones
+ * compra el cliente; si se omite, se venden todas las que quedan. El
+ * billete queda "PARCIAL" mientras le queden fracciones por vender.
+ *
  * Ejemplo de payload:
  * {
  *   sorteoId: 3,
  *   billeteId: 42,
- *   clienteId: 7
+ *   clienteId: 7,
+ *   fracciones: 1,
+ *   pago: { metodo: "EFECTIVO", recibido: 20000, cambio: 10000 }
  * }
  */
 export interface VentaRequest {
   sorteoId: number;
   billeteId: number;
   clienteId: number;
+  fracciones?: number;
+  pago?: Pago;
+}
+
+/**
+ * Modo de procesamiento de una venta por lote.
+ * - TODO_O_NADA: si algún billete no se puede vender, no se vende ninguno.
+ * - PARCIAL: se venden los que se puedan y se informa el resultado por billete.
+ */
+export type ModoVentaLote = 'TODO_O_NADA' | 'PARCIAL';
+
+/**
+ * Cuerpo de la solicitud de venta por lote: varios billetes de un
+ * mismo sorteo para un mismo cliente, en una sola petición. De cada
+ * billete fraccionado se venden todas las fracciones que quedan.
+ *
+ * Ejemplo de payload:
+ * {
+ *   sorteoId: 3,
+ *   clienteId: 7,
+ *   billeteIds: [42, 43, 57],
+ *   modo: "TODO_O_NADA",
+ *   pago: { metodo: "NEQUI" }
+ * }
+ */
+export interface VentaLoteRequest {
+  sorteoId: number;
+  clienteId: number;
+  billeteIds: number[];
+  modo: ModoVentaLote;
+  pago?: Pago;
+}
+
+/**
+ * Resultado de la venta de un billete dentro de un lote.
+ * - ok: true si el billete quedó vendido.
+ * - billete: billete actualizado (cuando ok = true).
+ * - error: motivo del fallo (ej. "Billete ya vendido").
+ */
+export interface VentaLoteItem {
+  billeteId: number;
+  ok: boolean;
+  billete?: Billete | null;
+  error?: string | null;
+}
+
+/** Respuesta de la venta por lote con el resultado de cada billete. */
+export interface VentaLoteResponse {
+  modo: ModoVentaLote;
+  resultados: VentaLoteItem[];
+}
+
+/**
+ * Registro de una venta anulada, que el backend conserva en el historial.
+ * - motivo: razón obligatoria indicada por el vendedor.
+ * - fecha: fecha/hora (ISO) de la anulación.
+ */
+export interface VentaAnulada {
+  billeteId: number;
+  sorteoId: number;
+  numero: number;
+  serie?: string | null;
+  cifras?: number | null;
+  precio: number;
+  motivo: string;
+  fecha: string;
+  vendedorId?: string | null;
+  sorteoNombre?: string;
 }
 
 /** Entidad mínima de Cliente utilizada en respuestas del historial. */
@@ -42,10 +120,12 @@ export interface Cliente {
  * Forma normalizada del historial de compras de un cliente.
  * - cliente: datos básicos del cliente.
  * - billetes: arreglo de billetes asociados al cliente.
+ * - anulaciones: ventas del cliente que fueron anuladas (si el backend las incluye).
  */
 export interface HistorialResponse {
   cliente: Cliente;
   billetes: Billete[];
+  anulaciones?: VentaAnulada[];
 }
 
 /**
@@ -53,8 +133,18 @@ export interface HistorialResponse {
  *
  * Endpoints esperados en el backend:
  * - POST  {apiUrl}/ventas
- *     Body: { sorteoId, billeteId, clienteId }
- *     Respuesta: Billete (actualizado con estado "VENDIDO")
+ *     Body: { sorteoId, billeteId, clienteId, fracciones?, pago? }
+ *     Respuesta: Billete (actualizado con estado "VENDIDO" o "PARCIAL")
+ *
+ * - POST  {apiUrl}/ventas/lote
+ *     Body: { sorteoId, clienteId, billeteIds, modo, pago? }
+ *     Respuesta: { modo, resultados: [{ billeteId, ok, billete?, error? }] }
+ *     (en modo TODO_O_NADA con fallos, el backend responde 409 con el mismo cuerpo)
+ *
+ * - POST  {apiUrl}/ventas/{billeteId}/anular
+ *     Body: { motivo, vendedorId, clienteId? }
+ *     Respuesta: Billete (de nuevo "DISPONIBLE", o "PARCIAL" si conserva otras fracciones vendidas)
+ *     409 si el sorteo ya cerró ventas; la anulación queda en el historial.
  *
  * - GET   {apiUrl}/clientes/historial?correo={correo}
  *     Respuesta recomendada: { cliente, billetes }
@@ -81,7 +171,7 @@ export class VentasService {
    * URL: {apiUrl}/ventas
    * Body: VentaRequest
    *
-   * @param payload Cuerpo con sorteoId, billeteId y clienteId.
+   * @param payload Cuerpo con sorteoId, billeteId, clienteId y forma de pago.
    * @returns Observable<Billete> con el estado actualizado (p. ej. "VENDIDO").
    *
    * Ejemplo de uso:
@@ -94,10 +184,85 @@ export class VentasService {
    *   -d '{"sorteoId":3,"billeteId":42,"clienteId":7}'
    */
   venderBillete(payload: VentaRequest): Observable<Billete> {
-    // POST /api/ventas  { sorteoId, billeteId, clienteId }
+    // POST /api/ventas  { sorteoId, billeteId, clienteId, pago }
     return this.http.post<Billete>(this.baseVentas, payload);
   }
 
+  /**
+   * Registra la venta de varios billetes en una sola petición.
+   *
+   * Método HTTP: POST
+   * URL: {apiUrl}/ventas/lote
+   * Body: VentaLoteRequest
+   *
+   * El resultado siempre trae una entrada por billete solicitado:
+   * - En modo TODO_O_NADA, si el backend rechaza el lote (409 con el
+   *   detalle por billete), se devuelve ese detalle en lugar de un error,
+   *   con todos los billetes marcados como no vendidos.
+   * - Si el backend omite algún billete en la respuesta, se reporta como fallido.
+   *
+   * Cualquier otro error HTTP se propaga al suscriptor.
+   *
+   * @param payload Cuerpo con sorteoId, clienteId, billeteIds, modo y forma de pago.
+   * @returns Observable<VentaLoteResponse> con el resultado por billete.
+   *
+   * Ejemplo de uso:
+   * this.ventasService.venderLote({ sorteoId: 3, clienteId: 7, billeteIds: [42, 43], modo: 'PARCIAL' })
+   *   .subscribe(r => console.log(r.resultados.filter(x => x.ok).length, 'vendidos'));
+   */
+  venderLote(payload: VentaLoteRequest): Observable<VentaLoteResponse> {
+    return this.http.post<VentaLoteResponse>(`${this.baseVentas}/lote`, payload).pipe(
+      catchError((err) => {
+        if (err?.status === 409 && Array.isArray(err?.error?.resultados)) {
+          return of(err.error as VentaLoteResponse);
+        }
+        return throwError(() => err);
+      }),
+      map((res) => {
+        const porId = new Map((res?.resultados ?? []).map((r) => [r.billeteId, r]));
+        const rechazado = payload.modo === 'TODO_O_NADA' && (res?.resultados ?? []).some((r) => !r.ok);
+        const resultados: VentaLoteItem[] = payload.billeteIds.map((id) => {
+          const r = porId.get(id);
+          if (!r) return { billeteId: id, ok: false, error: 'Sin respuesta del servidor' };
+          return rechazado
+            ? { ...r, ok: false, billete: null, error: r.error ?? 'Lote rechazado por otro billete' }
+            : r;
+        });
+        return { modo: payload.modo, resultados };
+      })
+    );
+  }
+
+  /**
+   * Anula la venta de un billete y lo devuelve a DISPONIBLE.
+   * En billetes fraccionados, con `clienteId` se anulan solo las
+   * fracciones de ese cliente; las demás siguen vendidas.
+   *
+   * Método HTTP: POST
+   * URL: {apiUrl}/ventas/{billeteId}/anular
+   * Body: { motivo, vendedorId, clienteId? }
+   *
+   * El backend rechaza la anulación (409) si el sorteo ya cerró ventas,
+   * y conserva la venta anulada (con su motivo) en el historial.
+   *
+   * @param billeteId ID del billete vendido.
+   * @param motivo Razón de la anulación (obligatoria).
+   * @param vendedorId Vendedor que realiza la anulación.
+   * @param clienteId Cliente cuyas fracciones se anulan (solo billetes fraccionados).
+   * @returns Observable<Billete> con el billete liberado.
+   *
+   * Ejemplo de uso:
+   * this.ventasService.anularVenta(42, 'Número equivocado', vendedorId)
+   *   .subscribe(b => console.log('Billete liberado:', b.estado));
+   */
+  anularVenta(billeteId: number, motivo: string, vendedorId: string, clienteId?: number | null): Observable<Billete> {
+    return this.http.post<Billete>(`${this.baseVentas}/${billeteId}/anular`, {
+      motivo: motivo.trim(),
+      vendedorId,
+      ...(clienteId ? { clienteId } : {}),
+    });
+  }
+
   /**
    * Obtiene el historial completo por correo.
    *
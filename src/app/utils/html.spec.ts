@@ -0,0 +1,17 @@
+import { escaparHtml } from './html';
+
+describe('escaparHtml', () => {
+  it('escapa los caracteres especiales de HTML', () => {
+    expect(escaparHtml(`<img src=x onerror="alert('x')">&`))
+      .toBe('&lt;img src=x onerror=&quot;alert(&#39;x&#39;)&quot;&gt;&amp;');
+  });
+
+  it('devuelve cadena vacía para null o undefined', () => {
+    expect(escaparHtml(null)).toBe('');
+    expect(escaparHtml(undefined)).toBe('');
+  });
+
+  it('convierte números a texto', () => {
+    expect(escaparHtml(42)).toBe('42');
+  });
+});
@@ -0,0 +1,27 @@
+// ============================================================
+// Archivo: src/app/utils/html.ts
+// Descripción:
+// Utilidades para armar fragmentos HTML de los diálogos
+// (SweetAlert2 interpreta `title` y `html` como HTML). Todo dato
+// ingresado por usuarios (nombres de clientes, sorteos, series…)
+// debe pasar por `escaparHtml` antes de interpolarse.
+// ============================================================
+
+const ENTIDADES: Record<string, string> = {
+  '&': '&amp;',
+  '<': '&lt;',
+  '>': '&gt;',
+  '"': '&quot;',
+  "'": '&#39;',
+};
+
+/**
+ * Escapa los caracteres especiales de HTML de un texto.
+ *
+ * @param valor Texto a escapar (null/undefined: cadena vacía).
+ * @returns string seguro para interpolar en HTML
+ */
+export function escaparHtml(valor: unknown): string {
+  if (valor === null || valor === undefined) return '';
+  return String(valor).replace(/[&<>"']/g, (c) => ENTIDADES[c]);
+}
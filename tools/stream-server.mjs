@@ -0,0 +1,102 @@
+// ============================================================
+// Archivo: tools/stream-server.mjs
+// Descripción:
+// Servidor local (sin dependencias) que reemplaza el canal en
+// tiempo real del backend durante el desarrollo y las pruebas.
+//
+// - GET  /api/sorteos/:id/billetes/stream
+//     Canal SSE: envía eventos "billete" con un BilleteEvento en JSON.
+// - POST /api/sorteos/:id/billetes/eventos
+//     Publica un cambio a todos los suscriptores del sorteo.
+//     Body: Billete (o { billete: Billete }).
+//
+// Uso:
+//   npm run stream:dev            (puerto 8090 por defecto)
+//   PORT=9000 npm run stream:dev
+//
+// Ejemplo: simular que otro vendedor vendió el billete 42 del sorteo 3
+//   curl -X POST http://localhost:8090/api/sorteos/3/billetes/eventos \
+//     -H "Content-Type: application/json" \
+//     -d '{"id":42,"numero":7,"precio":10000,"estado":"VENDIDO","sorteoId":3,
+//          "cliente":{"id":1,"nombre":"Ana","correo":"ana@correo.com"}}'
+// ============================================================
+
+import { createServer } from 'node:http';
+
+const PORT = Number(process.env.PORT || 8090);
+const HEARTBEAT_MS = 15000;
+
+/** Suscriptores SSE abiertos, por ID de sorteo. */
+const suscriptores = new Map();
+
+const cors = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
+  'Access-Control-Allow-Headers': 'Content-Type',
+};
+
+function abrirStream(sorteoId, req, res) {
+  res.writeHead(200, {
+    ...cors,
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache',
+    Connection: 'keep-alive',
+  });
+  res.write('retry: 3000\n\n');
+
+  const lista = suscriptores.get(sorteoId) ?? new Set();
+  lista.add(res);
+  suscriptores.set(sorteoId, lista);
+
+  const heartbeat = setInterval(() => res.write(': ping\n\n'), HEARTBEAT_MS);
+  req.on('close', () => {
+    clearInterval(heartbeat);
+    lista.delete(res);
+  });
+}
+
+function publicar(sorteoId, req, res) {
+  let body = '';
+  req.on('data', (chunk) => (body += chunk));
+  req.on('end', () => {
+    let billete;
+    try {
+      const json = JSON.parse(body || '{}');
+      billete = json.billete ?? json;
+    } catch {
+      res.writeHead(400, cors).end('JSON inválido');
+      return;
+    }
+    if (!billete?.id) {
+      res.writeHead(400, cors).end('Falta billete.id');
+      return;
+    }
+
+    const evento = { sorteoId, billete: { ...billete, sorteoId }, fecha: new Date().toISOString() };
+    const lista = suscriptores.get(sorteoId) ?? new Set();
+    for (const cliente of lista) {
+      cliente.write(`event: billete\ndata: ${JSON.stringify(evento)}\n\n`);
+    }
+    res.writeHead(202, { ...cors, 'Content-Type': 'application/json' });
+    res.end(JSON.stringify({ enviados: lista.size }));
+  });
+}
+
+const server = createServer((req, res) => {
+  const url = new URL(req.url ?? '/', `http://localhost:${PORT}`);
+  const match = url.pathname.match(/^\/api\/sorteos\/(\d+)\/billetes\/(stream|eventos)$/);
+
+  if (req.method === 'OPTIONS') {
+    res.writeHead(204, cors).end();
+  } else if (match && match[2] === 'stream' && req.method === 'GET') {
+    abrirStream(Number(match[1]), req, res);
+  } else if (match && match[2] === 'eventos' && req.method === 'POST') {
+    publicar(Number(match[1]), req, res);
+  } else {
+    res.writeHead(404, cors).end();
+  }
+});
+
+server.listen(PORT, () => {
+  console.log(`Servidor de eventos en http://localhost:${PORT}/api`);
+});